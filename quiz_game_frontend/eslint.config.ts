@@ -24,7 +24,7 @@ export default defineConfigWithVueTs(
   
   {
     ...pluginVitest.configs.recommended,
-    files: ['src/**/__tests__/*'],
+    files: ['src/**/__tests__/*', 'server/**/__tests__/*'],
   },
   skipFormatting,
 )
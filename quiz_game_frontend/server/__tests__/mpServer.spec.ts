@@ -0,0 +1,429 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest'
+import { WebSocket } from 'ws'
+import { createMultiplayerServer, type MultiplayerServer } from '../mpServer'
+import { FULL_POINTS, REDUCED_POINTS, roomContent, type WsMessage } from '@/utils/mpProtocol'
+import pools from '@/utils/pools'
+import type { CategoryKey } from '@/stores/quiz'
+import { builtinCategory } from '@/utils/categories'
+
+type Msg<T extends WsMessage['type']> = Extract<WsMessage, { type: T }>
+
+// Minimal protocol client: queues incoming messages so tests can await them by type.
+function connect(port: number) {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`)
+  const inbox: WsMessage[] = []
+  const waiters: Array<() => void> = []
+  socket.on('message', (data) => {
+    inbox.push(JSON.parse(data.toString()) as WsMessage)
+    waiters.splice(0).forEach((w) => w())
+  })
+  const opened = new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve())
+    socket.once('error', reject)
+  })
+  return {
+    opened,
+    send(msg: WsMessage) {
+      socket.send(JSON.stringify(msg))
+    },
+    async next<T extends WsMessage['type']>(type: T, match: (m: Msg<T>) => boolean = () => true): Promise<Msg<T>> {
+      const deadline = Date.now() + 2000
+      for (;;) {
+        const i = inbox.findIndex((m) => m.type === type && match(m as Msg<T>))
+        if (i >= 0) return inbox.splice(i, 1)[0] as Msg<T>
+        if (Date.now() > deadline) throw new Error(`timed out waiting for ${type}`)
+        await new Promise<void>((resolve) => {
+          waiters.push(resolve)
+          setTimeout(resolve, 50)
+        })
+      }
+    },
+    has(type: WsMessage['type']) {
+      return inbox.some((m) => m.type === type)
+    },
+    close() {
+      socket.close()
+    },
+  }
+}
+type Client = ReturnType<typeof connect>
+
+let server: MultiplayerServer | null = null
+const clients: Client[] = []
+
+async function setup(authoritative: boolean, revealMs?: number, hostMigrationMs?: number) {
+  server = await createMultiplayerServer({ port: 0, host: '127.0.0.1', authoritative, revealMs, hostMigrationMs })
+  const host = connect(server.port)
+  const guest = connect(server.port)
+  clients.push(host, guest)
+  await Promise.all([host.opened, guest.opened])
+  host.send({ type: 'HELLO', roomCode: 'ABC123', playerId: 'host', name: 'Hana', create: true })
+  await host.next('ROOM_JOINED')
+  guest.send({ type: 'HELLO', roomCode: 'abc123', playerId: 'guest', name: 'Gus' })
+  const joined = await guest.next('ROOM_JOINED')
+  return { host, guest, joined }
+}
+
+// lets time pass so the next answer is measurably slower (equal times tie for fastest)
+function pause(ms = 5) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function correctIndexOf(id: string | number): number {
+  return pools.gk.find((q) => q.id === id)!.answerIndex
+}
+
+afterEach(async () => {
+  clients.splice(0).forEach((c) => c.close())
+  await server?.close()
+  server = null
+})
+
+describe('reference multiplayer server', () => {
+  it('runs a server-authoritative round between two clients', async () => {
+    const { host, guest, joined } = await setup(true)
+    expect(joined.authoritative).toBe(true)
+    expect(joined.players.map((p) => p.name)).toEqual(['Hana', 'Gus'])
+    expect((await host.next('PLAYER_LIST')).players).toHaveLength(2)
+
+    guest.send({ type: 'READY', playerId: 'guest', ready: true })
+    const list = await host.next('PLAYER_LIST')
+    expect(list.players.find((p) => p.id === 'guest')?.ready).toBe(true)
+
+    // host authority
+    guest.send({ type: 'START', category: builtinCategory('gk'), seed: 'x', questionStartTs: 0 })
+    expect((await guest.next('ERROR')).message).toMatch(/host/)
+
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-1', questionStartTs: 0 })
+    const [hostStart, guestStart] = await Promise.all([host.next('START'), guest.next('START')])
+    expect(guestStart.questions).toHaveLength(pools.gk.length)
+    expect(hostStart.questions?.[0].id).toBe(guestStart.questions?.[0].id)
+    expect(guestStart.questions?.[0]).not.toHaveProperty('answerIndex')
+    expect(guestStart.questions?.[0]).not.toHaveProperty('explanation')
+
+    const q0 = guestStart.questions![0]
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    const guestResult = await guest.next('RESULT')
+    expect(guestResult).toMatchObject({ playerId: 'guest', correct: true, points: FULL_POINTS, fastest: true })
+    expect(guestResult.key?.answerIndex).toBe(correctIndexOf(q0.id))
+    const seenByHost = await host.next('RESULT')
+    expect(seenByHost.playerId).toBe('guest')
+    expect(seenByHost.key).toBeUndefined()
+
+    await pause()
+    host.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    expect(await host.next('RESULT')).toMatchObject({ playerId: 'host', points: REDUCED_POINTS, fastest: false })
+    // a second answer to the same question is ignored
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: 0, clientTs: 0 })
+
+    host.send({ type: 'QUESTION_INDEX', index: 1, questionStartTs: 0 })
+    expect((await guest.next('QUESTION_INDEX')).index).toBe(1)
+    // answers to a closed question are rejected
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: 0, clientTs: 0 })
+    expect((await guest.next('ERROR')).message).toMatch(/closed/)
+
+    const q1 = guestStart.questions![1]
+    const wrong = (correctIndexOf(q1.id) + 1) % q1.options.length
+    guest.send({ type: 'ANSWER', questionIndex: 1, answerIndex: wrong, clientTs: 0 })
+    expect(await guest.next('RESULT', (r) => r.questionIndex === 1)).toMatchObject({ correct: false, points: 0 })
+
+    // drain to the latest scores
+    let scores = await host.next('SCORES')
+    while (host.has('SCORES')) scores = await host.next('SCORES')
+    const byId = Object.fromEntries(scores.players.map((p) => [p.id, p.score]))
+    expect(byId).toEqual({ host: REDUCED_POINTS, guest: FULL_POINTS })
+  })
+
+  it('relays client-scored submissions and keeps scores', async () => {
+    const { host, guest, joined } = await setup(false)
+    expect(joined.authoritative).toBeUndefined()
+
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-2', questionStartTs: 1000 })
+    const start = await guest.next('START')
+    expect(start).toMatchObject({ category: builtinCategory('gk'), seed: 'seed-2', questionStartTs: 1000 })
+    expect(start.questions).toBeUndefined()
+
+    host.send({
+      type: 'SUBMISSION',
+      submission: { playerId: 'host', questionIndex: 0, answerIndex: 1, correct: true, ts: 2000 },
+    })
+    expect((await guest.next('SUBMISSION')).submission.playerId).toBe('host')
+    guest.send({
+      type: 'SUBMISSION',
+      submission: { playerId: 'guest', questionIndex: 0, answerIndex: 1, correct: true, ts: 2500 },
+    })
+    // submissions on behalf of someone else are dropped
+    guest.send({
+      type: 'SUBMISSION',
+      submission: { playerId: 'host', questionIndex: 0, answerIndex: 1, correct: true, ts: 1 },
+    })
+    await host.next('SUBMISSION')
+    let scores = await host.next('SCORES')
+    while (host.has('SCORES') || !scores.players.some((p) => p.id === 'guest' && p.score > 0)) {
+      scores = await host.next('SCORES')
+    }
+    const byId = Object.fromEntries(scores.players.map((p) => [p.id, p.score]))
+    expect(byId).toEqual({ host: FULL_POINTS, guest: REDUCED_POINTS })
+  })
+
+  it('answers clock sync pings and ranks by latency-corrected elapsed time', async () => {
+    const { host, guest } = await setup(true)
+    host.send({ type: 'PING', clientTs: 42 })
+    const pong = await host.next('PONG')
+    expect(pong.clientTs).toBe(42)
+    expect(Math.abs(pong.serverTs - Date.now())).toBeLessThan(1000)
+
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-4', questionStartTs: 0 })
+    const start = await guest.next('START')
+    const correct = correctIndexOf(start.questions![0].id)
+    await pause(20)
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correct, clientTs: 0 })
+    expect(await guest.next('RESULT')).toMatchObject({ playerId: 'guest', fastest: true })
+
+    // arrives later but answered sooner (within the latency credit): the win moves to the host
+    host.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correct, clientTs: 0, elapsedMs: 0 })
+    expect(await host.next('RESULT', (r) => r.playerId === 'host')).toMatchObject({
+      points: FULL_POINTS,
+      fastest: true,
+      elapsedMs: 0,
+    })
+    const demoted = await guest.next('RESULT', (r) => r.playerId === 'guest')
+    expect(demoted).toMatchObject({ points: REDUCED_POINTS, fastest: false })
+    expect(demoted.key).toBeUndefined()
+
+    let scores = await host.next('SCORES')
+    while (host.has('SCORES')) scores = await host.next('SCORES')
+    const byId = Object.fromEntries(scores.players.map((p) => [p.id, p.score]))
+    expect(byId).toEqual({ host: FULL_POINTS, guest: REDUCED_POINTS })
+  })
+
+  it('runs timed questions: reveal when everyone answered, then on the deadline', async () => {
+    const { host, guest } = await setup(true, 50)
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-5', questionStartTs: 0, questionDurationMs: 1000 })
+    const start = await guest.next('START')
+    expect(start.questionDurationMs).toBe(1000)
+    expect(start.deadlineTs).toBe(start.questionStartTs + 1000)
+
+    const q0 = start.questions![0]
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    await guest.next('RESULT')
+    expect(guest.has('REVEAL')).toBe(false)
+    host.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    // everyone answered: reveal right away, with the answer key for all, then move on
+    const reveal = await host.next('REVEAL')
+    expect(reveal).toMatchObject({ questionIndex: 0, key: { answerIndex: correctIndexOf(q0.id) } })
+    const next = await guest.next('QUESTION_INDEX')
+    expect(next.index).toBe(1)
+    expect(next.deadlineTs).toBe(next.questionStartTs + 1000)
+
+    // nobody answers question 1: the deadline closes it
+    const closed = await guest.next('REVEAL', (r) => r.questionIndex === 1)
+    expect(Date.now()).toBeGreaterThanOrEqual(next.deadlineTs!)
+    expect(closed.key?.answerIndex).toBe(correctIndexOf(start.questions![1].id))
+    guest.send({ type: 'ANSWER', questionIndex: 1, answerIndex: 0, clientTs: 0 })
+    expect((await guest.next('ERROR')).message).toMatch(/Time is up/)
+  })
+
+  it('applies the late-join policy and shows spectators the picks', async () => {
+    const { host, guest } = await setup(true)
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-6', questionStartTs: 0, lateJoin: 'catch-up' })
+    const start = await guest.next('START')
+    const q0 = start.questions![0]
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    await guest.next('RESULT')
+    await pause()
+    host.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    await host.next('RESULT', (r) => r.playerId === 'host')
+
+    const late = connect(server!.port)
+    const watcher = connect(server!.port)
+    clients.push(late, watcher)
+    await Promise.all([late.opened, watcher.opened])
+    late.send({ type: 'HELLO', roomCode: 'ABC123', playerId: 'late', name: 'Lee' })
+    const lateJoined = await late.next('ROOM_JOINED')
+    // catch-up: starts level with the lowest scorer (the host)
+    expect(lateJoined.players.find((p) => p.id === 'late')).toMatchObject({ role: 'player', score: REDUCED_POINTS })
+    watcher.send({ type: 'HELLO', roomCode: 'ABC123', playerId: 'watcher', name: 'Wu', spectate: true })
+    expect((await watcher.next('ROOM_JOINED')).players.find((p) => p.id === 'watcher')?.role).toBe('spectator')
+
+    watcher.send({ type: 'ANSWER', questionIndex: 0, answerIndex: 0, clientTs: 0 })
+    expect((await watcher.next('ERROR')).message).toMatch(/Spectators/)
+
+    host.send({ type: 'QUESTION_INDEX', index: 1, questionStartTs: 0 })
+    await watcher.next('QUESTION_INDEX')
+    const q1 = start.questions![1]
+    const wrong = (correctIndexOf(q1.id) + 1) % q1.options.length
+    host.send({ type: 'ANSWER', questionIndex: 1, answerIndex: wrong, clientTs: 0 })
+    expect((await watcher.next('RESULT', (r) => r.playerId === 'host')).pick).toEqual({ answerIndex: wrong })
+    expect((await guest.next('RESULT', (r) => r.playerId === 'host')).pick).toBeUndefined()
+  })
+
+  it('lets the host lock the room, kick players and hand over hosting', async () => {
+    const { host, guest, joined } = await setup(true)
+    expect(joined).toMatchObject({ hostId: 'host', locked: false })
+    guest.send({ type: 'LOCK_ROOM', locked: true })
+    expect((await guest.next('ERROR')).message).toMatch(/host/)
+
+    host.send({ type: 'LOCK_ROOM', locked: true })
+    expect((await guest.next('LOCK_ROOM')).locked).toBe(true)
+    const late = connect(server!.port)
+    clients.push(late)
+    await late.opened
+    late.send({ type: 'HELLO', roomCode: 'ABC123', playerId: 'late', name: 'Lee' })
+    expect((await late.next('ERROR')).message).toMatch(/locked/)
+    host.send({ type: 'LOCK_ROOM', locked: false })
+    await host.next('LOCK_ROOM', (m) => !m.locked)
+    late.send({ type: 'HELLO', roomCode: 'ABC123', playerId: 'late', name: 'Lee' })
+    await late.next('ROOM_JOINED')
+
+    host.send({ type: 'KICK', playerId: 'late' })
+    expect((await late.next('KICKED')).reason).toMatch(/removed/)
+    const list = await guest.next('PLAYER_LIST', (m) => !m.players.some((p) => p.id === 'late'))
+    expect(list.players.map((p) => p.id)).toEqual(['host', 'guest'])
+    const again = connect(server!.port)
+    clients.push(again)
+    await again.opened
+    again.send({ type: 'REJOIN', roomCode: 'ABC123', playerId: 'late' })
+    expect((await again.next('ERROR')).message).toMatch(/removed/)
+
+    host.send({ type: 'TRANSFER_HOST', playerId: 'guest' })
+    expect(await guest.next('HOST_CHANGED')).toEqual({ type: 'HOST_CHANGED', hostId: 'guest' })
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-7', questionStartTs: 0 })
+    expect((await host.next('ERROR')).message).toMatch(/host/)
+  })
+
+  it('migrates hosting when the host stays disconnected', async () => {
+    const { host, guest } = await setup(true, undefined, 50)
+    host.close()
+    expect(await guest.next('HOST_CHANGED')).toMatchObject({ hostId: 'guest', migrated: true })
+  })
+
+  it('sets up teams, balances them and scores the first answer per team', async () => {
+    const { host, guest } = await setup(true)
+    const teams = [
+      { id: 'red', name: 'Red', color: '#EF4444' },
+      { id: 'blue', name: 'Blue', color: '#3B82F6' },
+    ]
+    guest.send({ type: 'TEAMS', teams, scoring: 'sum' })
+    expect((await guest.next('ERROR')).message).toMatch(/host/)
+    host.send({ type: 'TEAMS', teams, scoring: 'first-answer' })
+    expect(await guest.next('TEAMS')).toEqual({ type: 'TEAMS', teams, scoring: 'first-answer' })
+
+    guest.send({ type: 'JOIN_TEAM', playerId: 'host', teamId: 'red' })
+    expect((await guest.next('ERROR')).message).toMatch(/host/)
+    guest.send({ type: 'JOIN_TEAM', playerId: 'guest', teamId: 'green' })
+    expect((await guest.next('ERROR')).message).toMatch(/team/)
+    guest.send({ type: 'JOIN_TEAM', playerId: 'guest', teamId: 'red' })
+    await host.next('PLAYER_LIST', (m) => m.players.some((p) => p.id === 'guest' && p.teamId === 'red'))
+
+    host.send({ type: 'BALANCE_TEAMS' })
+    const balanced = await guest.next('PLAYER_LIST', (m) => m.players.every((p) => p.teamId))
+    expect(new Set(balanced.players.map((p) => p.teamId)).size).toBe(2)
+    // both on one team: only the quicker answer counts for it
+    host.send({ type: 'JOIN_TEAM', playerId: 'host', teamId: 'red' })
+    host.send({ type: 'JOIN_TEAM', playerId: 'guest', teamId: 'red' })
+    await host.next('PLAYER_LIST', (m) => m.players.every((p) => p.teamId === 'red'))
+
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-9', questionStartTs: 0 })
+    const start = await guest.next('START')
+    const q0 = start.questions![0]
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    await guest.next('RESULT')
+    await pause()
+    host.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(q0.id), clientTs: 0 })
+    await host.next('RESULT', (r) => r.playerId === 'host')
+    let scores = await host.next('SCORES')
+    while (host.has('SCORES')) scores = await host.next('SCORES')
+    expect(scores.teamScores).toEqual({ red: FULL_POINTS, blue: 0 })
+  })
+
+  it('relays host-supplied quiz content and serves it to late joiners', async () => {
+    const { host, guest } = await setup(false)
+    const content = roomContent({ kind: 'custom', title: 'Capitals' }, [
+      { id: 'c1', question: 'Capital of Peru?', options: ['Lima', 'Quito'], answerIndex: 0 },
+      { id: 'c2', question: 'Capital of Chile?', options: ['La Paz', 'Santiago'], answerIndex: 1 },
+    ])
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 's', questionStartTs: 0, contentHash: content.hash })
+    expect((await host.next('ERROR')).message).toMatch(/CONTENT/)
+    // a payload that does not match its hash is refused
+    host.send({ type: 'CONTENT', content: { ...content, hash: 'bad' } })
+    expect((await host.next('ERROR')).message).toMatch(/Invalid/)
+
+    host.send({ type: 'CONTENT', content })
+    expect((await guest.next('CONTENT')).content).toEqual(content)
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-c', questionStartTs: 0, contentHash: content.hash, questionCount: 2 })
+    expect(await guest.next('START')).toMatchObject({ contentHash: content.hash, source: { kind: 'custom', title: 'Capitals' } })
+
+    const late = connect(server!.port)
+    clients.push(late)
+    await late.opened
+    late.send({ type: 'HELLO', roomCode: 'ABC123', playerId: 'late', name: 'Lee' })
+    const joined = await late.next('ROOM_JOINED')
+    expect(joined.contentHash).toBe(content.hash)
+    late.send({ type: 'CONTENT_REQUEST', hash: joined.contentHash! })
+    expect((await late.next('CONTENT')).content.hash).toBe(content.hash)
+    late.send({ type: 'CONTENT_REQUEST', hash: 'unknown' })
+    expect((await late.next('ERROR')).message).toMatch(/not available/)
+  })
+
+  it('plays host-supplied content for a category it has no pool for', async () => {
+    const { host, guest } = await setup(true)
+    host.send({ type: 'START', category: 'space-facts' as CategoryKey, seed: 's', questionStartTs: 0 })
+    expect((await host.next('ERROR')).message).toMatch(/Invalid START/)
+    const content = roomContent({ kind: 'pack', title: 'Space (offline pack)' }, [
+      { id: 's1', question: 'Closest star?', options: ['Sun', 'Sirius'], answerIndex: 0 },
+    ])
+    host.send({ type: 'CONTENT', content })
+    host.send({ type: 'START', category: 'space-facts' as CategoryKey, seed: 's', questionStartTs: 0, contentHash: content.hash })
+    const start = await guest.next('START')
+    expect(start.category).toBe('space-facts')
+    expect(start.questions).toHaveLength(1)
+  })
+
+  it('judges host-supplied quiz content without sharing its answer keys', async () => {
+    const { host, guest } = await setup(true)
+    const content = roomContent({ kind: 'pack', title: 'Science (offline pack)' }, [
+      { id: 'p1', question: 'H2O is?', options: ['Salt', 'Water', 'Air'], answerIndex: 1, explanation: 'Two hydrogens' },
+    ])
+    host.send({ type: 'CONTENT', content })
+    host.send({ type: 'START', category: builtinCategory('science'), seed: 'seed-p', questionStartTs: 0, contentHash: content.hash })
+    const start = await guest.next('START')
+    expect(guest.has('CONTENT')).toBe(false)
+    expect(start.source).toEqual(content.source)
+    expect(start.questions).toHaveLength(1)
+    expect(start.questions![0]).toMatchObject({ id: 'p1', question: 'H2O is?' })
+    expect(start.questions![0]).not.toHaveProperty('answerIndex')
+
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: 1, clientTs: 0 })
+    expect(await guest.next('RESULT')).toMatchObject({ correct: true, points: FULL_POINTS })
+    guest.send({ type: 'CONTENT_REQUEST', hash: content.hash })
+    expect((await guest.next('ERROR')).message).toMatch(/START/)
+  })
+
+  it('lets a dropped player rejoin with their score and rejects unknown rooms', async () => {
+    const { host, guest } = await setup(true)
+    host.send({ type: 'START', category: builtinCategory('gk'), seed: 'seed-3', questionStartTs: 0 })
+    const start = await guest.next('START')
+    guest.send({ type: 'ANSWER', questionIndex: 0, answerIndex: correctIndexOf(start.questions![0].id), clientTs: 0 })
+    await guest.next('RESULT')
+    host.send({ type: 'QUESTION_INDEX', index: 1, questionStartTs: 0 })
+    await guest.next('QUESTION_INDEX')
+    guest.close()
+
+    const back = connect(server!.port)
+    clients.push(back)
+    await back.opened
+    back.send({ type: 'REJOIN', roomCode: 'ABC123', playerId: 'guest' })
+    const rejoined = await back.next('ROOM_JOINED')
+    expect(rejoined.currentQuestionIndex).toBe(1)
+    expect(rejoined.players.find((p) => p.id === 'guest')?.score).toBe(FULL_POINTS)
+    expect(rejoined.questions?.[0].id).toBe(start.questions![0].id)
+
+    const stranger = connect(server!.port)
+    clients.push(stranger)
+    await stranger.opened
+    stranger.send({ type: 'HELLO', roomCode: 'NOPE99', playerId: 'x', name: 'X' })
+    expect((await stranger.next('ERROR')).message).toMatch(/not found/)
+  })
+})
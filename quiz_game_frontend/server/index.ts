@@ -0,0 +1,21 @@
+import { createMultiplayerServer } from './mpServer'
+
+/**
+ * Starts the reference multiplayer server: `npm run mp-server`, then run the app with
+ * VITE_WS_URL=ws://localhost:8787 (see README-multiplayer.md).
+ *
+ * Env: MP_PORT (default 8787), MP_HOST, MP_AUTHORITATIVE=0 for the client-scored relay mode.
+ */
+const port = Number(process.env.MP_PORT) || 8787
+const authoritative = process.env.MP_AUTHORITATIVE !== '0'
+
+const server = await createMultiplayerServer({ port, host: process.env.MP_HOST, authoritative })
+console.log(
+  `Multiplayer server listening on ws://localhost:${server.port} (${authoritative ? 'server-authoritative' : 'client-scored relay'})`
+)
+
+function shutdown() {
+  void server.close().then(() => process.exit(0))
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
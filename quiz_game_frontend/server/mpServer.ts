@@ -0,0 +1,738 @@
+import { WebSocketServer, WebSocket, type RawData } from 'ws'
+import type { CategoryKey, QuizQuestion } from '@/stores/quiz'
+import { answerKeyOf, isAnswerCorrect, redactQuestion, type AnswerValue } from '@/utils/answers'
+import {
+  MAX_CONTENT_BYTES,
+  REVEAL_MS,
+  balanceTeams,
+  catchUpScore,
+  isSpectator,
+  questionDeadline,
+  sanitizeContent,
+  sanitizeTeams,
+  scoreQuestion,
+  teamScores,
+  type AnswerSubmission,
+  type LateJoinPolicy,
+  type Player,
+  type QuestionPhase,
+  type RoomContent,
+  type Team,
+  type TeamScoring,
+  type WsMessage,
+} from '@/utils/mpProtocol'
+import pools, { shuffleWithSeed } from '@/utils/pools'
+import { CATEGORY_KEY_PATTERN } from '@/utils/categories'
+
+/**
+ * Reference multiplayer WebSocket server for local development and integration tests.
+ * Implements the protocol in src/utils/mpProtocol.ts:
+ * - room lifecycle: HELLO (create/join), REJOIN after a dropped connection, rooms are removed once
+ *   every player has been disconnected for `emptyRoomTtlMs`
+ * - host authority: only the host may START and advance (QUESTION_INDEX)
+ * - shipped questions: the host sends CONTENT (a custom quiz or offline pack) and STARTs it by
+ *   contentHash; relay rooms forward it and answer CONTENT_REQUEST, authoritative rooms keep it
+ * - team mode: the host sets TEAMS and BALANCE_TEAMS, players JOIN_TEAM; SCORES carries the team
+ *   totals under the room's TeamScoring
+ * - moderation: the host may KICK players, TRANSFER_HOST and LOCK_ROOM against new joins; a host
+ *   who stays disconnected for `hostMigrationMs` is replaced by the longest-present connected player
+ * - ready state, broadcast as PLAYER_LIST
+ * - spectators (HELLO with `spectate`, or late joiners under the 'spectate' policy): they see
+ *   everyone's picks for a live answer distribution but cannot answer
+ * - timed rounds (START with questionDurationMs): late answers are rejected, and once every
+ *   connected player has answered or the deadline passes the server sends REVEAL, then the next
+ *   QUESTION_INDEX (or GAME_OVER) after `revealMs`
+ * - fastest-correct scoring by time since the question started (scoreQuestion), with PING/PONG
+ *   clock sync so clients can report clock-corrected times
+ * - both protocol modes: server-authoritative (default; questions from the bundled pools, answers
+ *   judged here) and client-scored relay (clients send SUBMISSION with `correct`)
+ *
+ * Everything is in memory; restarting the server drops all rooms.
+ */
+
+export type MultiplayerServerOptions = {
+  /** 0 picks a free port (tests). */
+  port?: number
+  host?: string
+  /** Judge answers on the server (default true); false relays client-scored SUBMISSIONs. */
+  authoritative?: boolean
+  /** How long a room survives with nobody connected. */
+  emptyRoomTtlMs?: number
+  /** Timed rounds: how long the answer is shown before the next question (default REVEAL_MS). */
+  revealMs?: number
+  /** How long the host may be disconnected before another player takes over (default 15 s). */
+  hostMigrationMs?: number
+}
+
+export type MultiplayerServer = {
+  port: number
+  close(): Promise<void>
+}
+
+type Member = Player & { socket: WebSocket | null }
+
+type Room = {
+  code: string
+  hostId: string
+  members: Map<string, Member>
+  category: CategoryKey | null
+  seed: string | null
+  currentQuestionIndex: number
+  questionStartTs: number | null
+  // 0 = untimed (host advances manually)
+  questionDurationMs: number
+  // authoritative: questions.length; relay: as announced by the host's START
+  questionCount: number
+  phase: QuestionPhase
+  revealUntilTs: number | null
+  // how players joining after START take part
+  lateJoin: LateJoinPolicy
+  // authoritative mode only: the full questions including answer keys
+  questions: QuizQuestion[]
+  submissions: AnswerSubmission[]
+  emptyTimer: ReturnType<typeof setTimeout> | null
+  // timed rounds: pending deadline or end-of-reveal
+  roundTimer: ReturnType<typeof setTimeout> | null
+  // refuse HELLOs from new players
+  locked: boolean
+  // kicked player ids; they cannot come back
+  banned: Set<string>
+  // pending host migration while the host is disconnected
+  hostTimer: ReturnType<typeof setTimeout> | null
+  // team mode (empty = off)
+  teams: Team[]
+  teamScoring: TeamScoring
+  // the host's latest CONTENT, and the content the current round plays (null = bundled pool)
+  content: RoomContent | null
+  playing: RoomContent | null
+}
+
+type Connection = { room: Room | null; playerId: string | null }
+
+const MAX_NAME_LENGTH = 16
+// how much earlier than its arrival a client may claim to have answered (network latency credit)
+export const MAX_LATENCY_CREDIT_MS = 500
+const TOO_LATE = 'Time is up: that question is closed'
+const SPECTATOR_ANSWER = 'Spectators cannot answer'
+const MIN_QUESTION_MS = 1_000
+const MAX_QUESTION_MS = 10 * 60_000
+
+function questionDurationOf(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return 0
+  return Math.min(MAX_QUESTION_MS, Math.max(MIN_QUESTION_MS, Math.round(value)))
+}
+
+function clearRoundTimer(room: Room) {
+  if (room.roundTimer) clearTimeout(room.roundTimer)
+  room.roundTimer = null
+}
+
+function clearHostTimer(room: Room) {
+  if (room.hostTimer) clearTimeout(room.hostTimer)
+  room.hostTimer = null
+}
+
+function isCategory(value: unknown, withContent: boolean): value is CategoryKey {
+  // host-supplied content can be any registered category; otherwise the server needs its pool
+  if (typeof value !== 'string') return false
+  return withContent ? CATEGORY_KEY_PATTERN.test(value) : Object.prototype.hasOwnProperty.call(pools, value)
+}
+
+function publicPlayers(room: Room): Player[] {
+  return [...room.members.values()].map(({ id, name, score, ready, role, teamId }) => ({
+    id,
+    name,
+    score,
+    ready,
+    role,
+    ...(teamId ? { teamId } : {}),
+  }))
+}
+
+function scoresMessage(room: Room): WsMessage {
+  const players = publicPlayers(room)
+  if (!room.teams.length) return { type: 'SCORES', players }
+  return { type: 'SCORES', players, teamScores: teamScores(room.teams, players, room.submissions, room.teamScoring) }
+}
+
+function isTeamScoring(value: unknown): value is TeamScoring {
+  return value === 'sum' || value === 'best' || value === 'first-answer'
+}
+
+function isLateJoinPolicy(value: unknown): value is LateJoinPolicy {
+  return value === 'play' || value === 'catch-up' || value === 'spectate'
+}
+
+function send(socket: WebSocket | null, msg: WsMessage) {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg))
+}
+
+function broadcast(room: Room, msg: WsMessage, exceptId?: string) {
+  for (const m of room.members.values()) if (m.id !== exceptId) send(m.socket, msg)
+}
+
+// PUBLIC_INTERFACE
+export function createMultiplayerServer(opts: MultiplayerServerOptions = {}): Promise<MultiplayerServer> {
+  /** Starts the server; resolves once it is listening (with the actual port). */
+  const authoritative = opts.authoritative ?? true
+  const emptyRoomTtlMs = opts.emptyRoomTtlMs ?? 5 * 60_000
+  const revealMs = opts.revealMs ?? REVEAL_MS
+  const hostMigrationMs = opts.hostMigrationMs ?? 15_000
+  const rooms = new Map<string, Room>()
+  // CONTENT is the largest message; leave room for its JSON envelope
+  const wss = new WebSocketServer({ port: opts.port ?? 8787, host: opts.host, maxPayload: MAX_CONTENT_BYTES + 64 * 1024 })
+
+  function roomJoinedMessage(room: Room): WsMessage {
+    return {
+      type: 'ROOM_JOINED',
+      roomCode: room.code,
+      players: publicPlayers(room),
+      ...(room.category ? { category: room.category } : {}),
+      ...(room.seed ? { seed: room.seed } : {}),
+      currentQuestionIndex: room.currentQuestionIndex,
+      ...(authoritative ? { authoritative: true, questions: room.questions.map(redactQuestion) } : {}),
+      ...(room.seed && room.questionStartTs != null ? { questionStartTs: room.questionStartTs } : {}),
+      ...(room.seed && room.questionDurationMs
+        ? {
+            questionDurationMs: room.questionDurationMs,
+            deadlineTs: questionDeadline(room.questionStartTs, room.questionDurationMs)!,
+            phase: room.phase,
+          }
+        : {}),
+      autoAdvance: true,
+      hostId: room.hostId,
+      locked: room.locked,
+      ...(room.seed ? playingFields(room) : {}),
+      ...(room.teams.length
+        ? {
+            teams: room.teams,
+            teamScoring: room.teamScoring,
+            teamScores: teamScores(room.teams, publicPlayers(room), room.submissions, room.teamScoring),
+          }
+        : {}),
+    }
+  }
+
+  function playingFields(room: Room): { source?: RoomContent['source']; contentHash?: string } {
+    return room.playing ? { source: room.playing.source, contentHash: room.playing.hash } : {}
+  }
+
+  function revealMessage(room: Room): WsMessage {
+    const question = room.questions[room.currentQuestionIndex]
+    return {
+      type: 'REVEAL',
+      questionIndex: room.currentQuestionIndex,
+      revealUntilTs: room.revealUntilTs ?? Date.now(),
+      ...(authoritative && question ? { key: answerKeyOf(question) } : {}),
+    }
+  }
+
+  // Opens a question; timed rounds also arm the deadline (plus latency credit for answers in flight).
+  function openQuestion(room: Room, index: number, startTs: number) {
+    clearRoundTimer(room)
+    room.currentQuestionIndex = index
+    room.questionStartTs = startTs
+    room.phase = 'question'
+    room.revealUntilTs = null
+    const deadline = questionDeadline(startTs, room.questionDurationMs)
+    if (deadline != null) {
+      room.roundTimer = setTimeout(() => reveal(room), Math.max(0, deadline - Date.now()) + MAX_LATENCY_CREDIT_MS)
+    }
+  }
+
+  function isAnswerLate(room: Room, now: number): boolean {
+    const deadline = questionDeadline(room.questionStartTs, room.questionDurationMs)
+    return room.phase !== 'question' || (deadline != null && now > deadline + MAX_LATENCY_CREDIT_MS)
+  }
+
+  function revealIfEveryoneAnswered(room: Room) {
+    if (!room.questionDurationMs || room.phase !== 'question') return
+    const connected = [...room.members.values()].filter((m) => m.socket && !isSpectator(m))
+    const answered = new Set(
+      room.submissions.filter((s) => s.questionIndex === room.currentQuestionIndex).map((s) => s.playerId)
+    )
+    if (connected.length && connected.every((m) => answered.has(m.id))) reveal(room)
+  }
+
+  function reveal(room: Room) {
+    clearRoundTimer(room)
+    room.phase = 'reveal'
+    room.revealUntilTs = Date.now() + revealMs
+    broadcast(room, revealMessage(room))
+    room.roundTimer = setTimeout(() => advance(room), revealMs)
+  }
+
+  function advance(room: Room) {
+    const next = room.currentQuestionIndex + 1
+    if (next >= room.questionCount) {
+      clearRoundTimer(room)
+      room.phase = 'over'
+      return broadcast(room, { type: 'GAME_OVER', players: publicPlayers(room) })
+    }
+    openQuestion(room, next, Date.now())
+    const deadlineTs = questionDeadline(room.questionStartTs, room.questionDurationMs)!
+    broadcast(room, { type: 'QUESTION_INDEX', index: next, questionStartTs: room.questionStartTs!, deadlineTs })
+  }
+
+  function attach(room: Room, member: Member, socket: WebSocket, conn: Connection) {
+    if (member.socket && member.socket !== socket) member.socket.close()
+    member.socket = socket
+    conn.room = room
+    conn.playerId = member.id
+    if (room.emptyTimer) {
+      clearTimeout(room.emptyTimer)
+      room.emptyTimer = null
+    }
+    if (member.id === room.hostId) clearHostTimer(room)
+  }
+
+  function detach(conn: Connection, socket: WebSocket) {
+    const { room, playerId } = conn
+    if (!room || !playerId) return
+    const member = room.members.get(playerId)
+    if (member?.socket === socket) member.socket = null
+    const anyoneConnected = [...room.members.values()].some((m) => m.socket)
+    if (!anyoneConnected && !room.emptyTimer) {
+      room.emptyTimer = setTimeout(() => {
+        clearRoundTimer(room)
+        clearHostTimer(room)
+        rooms.delete(room.code)
+      }, emptyRoomTtlMs)
+    }
+    if (playerId === room.hostId && !member?.socket && !room.hostTimer) {
+      room.hostTimer = setTimeout(() => migrateHost(room), hostMigrationMs)
+    }
+    // nobody waits for a player who left
+    revealIfEveryoneAnswered(room)
+  }
+
+  function setHost(room: Room, hostId: string, migrated = false) {
+    clearHostTimer(room)
+    room.hostId = hostId
+    broadcast(room, { type: 'HOST_CHANGED', hostId, ...(migrated ? { migrated: true } : {}) })
+  }
+
+  // Members are kept in join order, so the longest-present connected player takes over.
+  function migrateHost(room: Room) {
+    room.hostTimer = null
+    if (room.members.get(room.hostId)?.socket) return
+    const next = [...room.members.values()].find((m) => m.socket && !isSpectator(m))
+    if (next) setHost(room, next.id, true)
+  }
+
+  function handleKick(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'KICK' }>) {
+    const socket = room.members.get(playerId)!.socket
+    const target = room.members.get(String(msg.playerId ?? ''))
+    if (!target || target.id === playerId) return send(socket, { type: 'ERROR', message: 'No such player to remove' })
+    room.members.delete(target.id)
+    room.banned.add(target.id)
+    send(target.socket, { type: 'KICKED', reason: 'The host removed you from the room' })
+    target.socket?.close()
+    broadcast(room, { type: 'PLAYER_LIST', players: publicPlayers(room) })
+    revealIfEveryoneAnswered(room)
+  }
+
+  function handleTransferHost(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'TRANSFER_HOST' }>) {
+    const socket = room.members.get(playerId)!.socket
+    const target = room.members.get(String(msg.playerId ?? ''))
+    if (!target || target.id === playerId) return send(socket, { type: 'ERROR', message: 'No such player to make host' })
+    if (isSpectator(target)) return send(socket, { type: 'ERROR', message: 'Spectators cannot host' })
+    setHost(room, target.id)
+  }
+
+  function broadcastRoster(room: Room) {
+    broadcast(room, { type: 'PLAYER_LIST', players: publicPlayers(room) })
+    broadcast(room, scoresMessage(room))
+  }
+
+  function handleTeams(room: Room, msg: Extract<WsMessage, { type: 'TEAMS' }>) {
+    room.teams = sanitizeTeams(msg.teams)
+    room.teamScoring = isTeamScoring(msg.scoring) ? msg.scoring : 'sum'
+    const ids = new Set(room.teams.map((t) => t.id))
+    for (const m of room.members.values()) if (m.teamId && !ids.has(m.teamId)) delete m.teamId
+    broadcast(room, { type: 'TEAMS', teams: room.teams, scoring: room.teamScoring })
+    broadcastRoster(room)
+  }
+
+  function handleJoinTeam(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'JOIN_TEAM' }>) {
+    const socket = room.members.get(playerId)!.socket
+    const target = room.members.get(String(msg.playerId ?? ''))
+    if (!target) return send(socket, { type: 'ERROR', message: 'No such player' })
+    if (target.id !== playerId && room.hostId !== playerId) {
+      return send(socket, { type: 'ERROR', message: 'Only the host can move other players' })
+    }
+    if (isSpectator(target)) return send(socket, { type: 'ERROR', message: 'Spectators cannot join a team' })
+    if (msg.teamId != null && !room.teams.some((t) => t.id === msg.teamId)) {
+      return send(socket, { type: 'ERROR', message: 'No such team' })
+    }
+    if (msg.teamId) target.teamId = msg.teamId
+    else delete target.teamId
+    broadcastRoster(room)
+  }
+
+  // Re-ranks a question after a submission and applies point changes to member scores.
+  // Returns the earlier submissions whose points or fastest flag changed.
+  function rescoreQuestion(room: Room, questionIndex: number, added: AnswerSubmission): AnswerSubmission[] {
+    const subs = room.submissions.filter((s) => s.questionIndex === questionIndex)
+    const changed: AnswerSubmission[] = []
+    for (const [id, next] of scoreQuestion(subs)) {
+      const sub = subs.find((s) => s.playerId === id)!
+      const member = room.members.get(id)
+      if (member) member.score += next.points - (sub.points ?? 0)
+      if (sub !== added && (sub.points !== next.points || sub.fastest !== next.fastest)) changed.push(sub)
+      sub.points = next.points
+      sub.fastest = next.fastest
+    }
+    return changed
+  }
+
+  // Time since the question started, trusting the client's clock-corrected claim only within the
+  // latency credit so nobody can report an answer faster than it could have travelled.
+  function answerElapsedMs(room: Room, now: number, claimed: unknown): number {
+    const arrival = Math.max(0, now - (room.questionStartTs ?? now))
+    if (typeof claimed !== 'number' || !Number.isFinite(claimed)) return arrival
+    return Math.min(arrival, Math.max(arrival - MAX_LATENCY_CREDIT_MS, claimed))
+  }
+
+  function resultMessage(sub: AnswerSubmission): Extract<WsMessage, { type: 'RESULT' }> {
+    return {
+      type: 'RESULT',
+      playerId: sub.playerId,
+      questionIndex: sub.questionIndex,
+      correct: sub.correct,
+      points: sub.points ?? 0,
+      fastest: !!sub.fastest,
+      ts: sub.ts,
+      ...(sub.elapsedMs != null ? { elapsedMs: sub.elapsedMs } : {}),
+    }
+  }
+
+  function handleHello(socket: WebSocket, conn: Connection, msg: Extract<WsMessage, { type: 'HELLO' }>) {
+    const code = String(msg.roomCode ?? '').trim().toUpperCase()
+    const playerId = String(msg.playerId ?? '')
+    const name = String(msg.name ?? '').trim().slice(0, MAX_NAME_LENGTH) || 'Player'
+    if (!code || !playerId) return send(socket, { type: 'ERROR', message: 'roomCode and playerId are required' })
+    let room = rooms.get(code)
+    if (msg.create) {
+      if (room && room.hostId !== playerId) return send(socket, { type: 'ERROR', message: 'Room code already in use' })
+      if (!room) {
+        room = {
+          code,
+          hostId: playerId,
+          members: new Map(),
+          category: null,
+          seed: null,
+          currentQuestionIndex: 0,
+          questionStartTs: null,
+          questionDurationMs: 0,
+          questionCount: 0,
+          phase: 'question',
+          revealUntilTs: null,
+          lateJoin: 'play',
+          questions: [],
+          submissions: [],
+          emptyTimer: null,
+          roundTimer: null,
+          locked: false,
+          banned: new Set(),
+          hostTimer: null,
+          teams: [],
+          teamScoring: 'sum',
+          content: null,
+          playing: null,
+        }
+        rooms.set(code, room)
+      }
+    } else if (!room) {
+      return send(socket, { type: 'ERROR', message: 'Room not found' })
+    }
+    if (room.banned.has(playerId)) return send(socket, { type: 'ERROR', message: 'You were removed from this room' })
+    let member = room.members.get(playerId)
+    if (!member && room.locked) return send(socket, { type: 'ERROR', message: 'This room is locked' })
+    if (!member) {
+      // the host always plays; anyone joining after START follows the room's late-join policy
+      const started = !!room.seed && room.phase !== 'over'
+      const spectate = !msg.create && (!!msg.spectate || (started && room.lateJoin === 'spectate'))
+      const players = publicPlayers(room)
+      const score = !spectate && started && room.lateJoin === 'catch-up' ? catchUpScore(players) : 0
+      member = { id: playerId, name, score, ready: false, role: spectate ? 'spectator' : 'player', socket: null }
+      room.members.set(playerId, member)
+    } else {
+      member.name = name
+    }
+    attach(room, member, socket, conn)
+    if (msg.create) send(socket, { type: 'ROOM_CREATED', roomCode: code })
+    send(socket, roomJoinedMessage(room))
+    broadcast(room, { type: 'PLAYER_LIST', players: publicPlayers(room) }, playerId)
+  }
+
+  function handleRejoin(socket: WebSocket, conn: Connection, msg: Extract<WsMessage, { type: 'REJOIN' }>) {
+    const room = rooms.get(String(msg.roomCode ?? '').trim().toUpperCase())
+    const member = room?.members.get(String(msg.playerId ?? ''))
+    if (room?.banned.has(String(msg.playerId ?? ''))) {
+      return send(socket, { type: 'ERROR', message: 'You were removed from this room' })
+    }
+    if (!room || !member) return send(socket, { type: 'ERROR', message: 'Room not found' })
+    attach(room, member, socket, conn)
+    send(socket, roomJoinedMessage(room))
+    if (room.questionDurationMs && room.phase === 'reveal') send(socket, revealMessage(room))
+    broadcast(room, { type: 'PLAYER_LIST', players: publicPlayers(room) }, member.id)
+  }
+
+  function handleStart(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'START' }>) {
+    const socket = room.members.get(playerId)!.socket
+    if (!isCategory(msg.category, msg.contentHash != null) || typeof msg.seed !== 'string' || !msg.seed) {
+      return send(socket, { type: 'ERROR', message: 'Invalid START' })
+    }
+    if (msg.contentHash != null && room.content?.hash !== msg.contentHash) {
+      return send(socket, { type: 'ERROR', message: 'Send the quiz (CONTENT) before starting it' })
+    }
+    room.playing = msg.contentHash != null ? room.content : null
+    room.category = msg.category
+    room.seed = msg.seed
+    room.submissions = []
+    room.questionDurationMs = questionDurationOf(msg.questionDurationMs)
+    room.lateJoin = isLateJoinPolicy(msg.lateJoin) ? msg.lateJoin : 'play'
+    for (const m of room.members.values()) m.score = 0
+    if (authoritative) {
+      room.questions = shuffleWithSeed(room.playing?.questions ?? pools[msg.category], msg.seed)
+      room.questionCount = room.questions.length
+      openQuestion(room, 0, Date.now())
+      broadcast(room, {
+        type: 'START',
+        category: room.category,
+        seed: room.seed,
+        questionStartTs: room.questionStartTs!,
+        questions: room.questions.map(redactQuestion),
+        ...timing(room),
+        ...playingFields(room),
+      })
+    } else {
+      const count = Number(msg.questionCount)
+      room.questionCount = Number.isInteger(count) && count > 0 ? count : Number.POSITIVE_INFINITY
+      openQuestion(room, 0, typeof msg.questionStartTs === 'number' ? msg.questionStartTs : Date.now())
+      // source/contentHash are re-derived from the stored content
+      const start = { ...msg, source: undefined, contentHash: undefined }
+      broadcast(room, { ...start, questionStartTs: room.questionStartTs!, ...timing(room), ...playingFields(room) }, playerId)
+    }
+    broadcast(room, scoresMessage(room))
+  }
+
+  function handleContent(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'CONTENT' }>) {
+    const content = sanitizeContent(msg.content)
+    if (!content) return send(room.members.get(playerId)!.socket, { type: 'ERROR', message: 'Invalid quiz content' })
+    room.content = content
+    // answer keys stay on an authoritative server; START carries the redacted questions
+    if (!authoritative) broadcast(room, { type: 'CONTENT', content }, playerId)
+  }
+
+  function handleContentRequest(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'CONTENT_REQUEST' }>) {
+    const socket = room.members.get(playerId)!.socket
+    if (authoritative) return send(socket, { type: 'ERROR', message: 'Questions come with START in this room' })
+    const content = [room.playing, room.content].find((c) => c && c.hash === msg.hash)
+    if (!content) return send(socket, { type: 'ERROR', message: 'That quiz is not available in this room' })
+    send(socket, { type: 'CONTENT', content })
+  }
+
+  function timing(room: Room): { questionDurationMs?: number; deadlineTs?: number } {
+    if (!room.questionDurationMs) return {}
+    return {
+      questionDurationMs: room.questionDurationMs,
+      deadlineTs: questionDeadline(room.questionStartTs, room.questionDurationMs)!,
+    }
+  }
+
+  function handleQuestionIndex(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'QUESTION_INDEX' }>) {
+    const index = Number(msg.index)
+    const max = authoritative ? room.questions.length - 1 : Number.POSITIVE_INFINITY
+    if (!room.seed || !Number.isInteger(index) || index < 0 || index > max) {
+      return send(room.members.get(playerId)!.socket, { type: 'ERROR', message: 'Invalid question index' })
+    }
+    // the host may also skip ahead in a timed round
+    openQuestion(room, index, authoritative || typeof msg.questionStartTs !== 'number' ? Date.now() : msg.questionStartTs)
+    const { deadlineTs } = timing(room)
+    broadcast(room, { type: 'QUESTION_INDEX', index, questionStartTs: room.questionStartTs!, deadlineTs }, playerId)
+  }
+
+  function handleSubmission(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'SUBMISSION' }>) {
+    const socket = room.members.get(playerId)!.socket
+    if (authoritative) return send(socket, { type: 'ERROR', message: 'This server judges answers; send ANSWER' })
+    if (isSpectator(room.members.get(playerId))) return send(socket, { type: 'ERROR', message: SPECTATOR_ANSWER })
+    const sub = msg.submission
+    if (!sub || sub.playerId !== playerId || sub.questionIndex !== room.currentQuestionIndex) return
+    if (room.submissions.some((s) => s.playerId === playerId && s.questionIndex === sub.questionIndex)) return
+    if (isAnswerLate(room, Date.now())) return send(socket, { type: 'ERROR', message: TOO_LATE })
+    const ts = Number(sub.ts) || Date.now()
+    const elapsedMs = Number.isFinite(sub.elapsedMs) ? Math.max(0, Number(sub.elapsedMs)) : undefined
+    const recorded: AnswerSubmission = {
+      playerId,
+      questionIndex: sub.questionIndex,
+      answerIndex: Number(sub.answerIndex),
+      ...(Array.isArray(sub.answerIndices) ? { answerIndices: sub.answerIndices.map(Number) } : {}),
+      ...(typeof sub.answerText === 'string' ? { answerText: sub.answerText } : {}),
+      correct: !!sub.correct,
+      ts,
+      ...(elapsedMs != null ? { elapsedMs } : {}),
+    }
+    // clients rank relayed submissions themselves, so relay it before our scoring fields are added
+    broadcast(room, { type: 'SUBMISSION', submission: { ...recorded } }, playerId)
+    room.submissions.push(recorded)
+    rescoreQuestion(room, recorded.questionIndex, recorded)
+    broadcast(room, scoresMessage(room))
+    revealIfEveryoneAnswered(room)
+  }
+
+  function handleAnswer(room: Room, playerId: string, msg: Extract<WsMessage, { type: 'ANSWER' }>) {
+    const member = room.members.get(playerId)!
+    if (!authoritative) return send(member.socket, { type: 'ERROR', message: 'This server relays SUBMISSION messages' })
+    if (isSpectator(member)) return send(member.socket, { type: 'ERROR', message: SPECTATOR_ANSWER })
+    const question = room.questions[msg.questionIndex]
+    if (!question || msg.questionIndex !== room.currentQuestionIndex) {
+      return send(member.socket, { type: 'ERROR', message: 'That question is closed' })
+    }
+    if (room.submissions.some((s) => s.playerId === playerId && s.questionIndex === msg.questionIndex)) return
+    const now = Date.now()
+    if (isAnswerLate(room, now)) return send(member.socket, { type: 'ERROR', message: TOO_LATE })
+    const answer: AnswerValue =
+      typeof msg.answerText === 'string'
+        ? { text: msg.answerText }
+        : Array.isArray(msg.answerIndices)
+          ? msg.answerIndices.map(Number)
+          : Number(msg.answerIndex)
+    const sub: AnswerSubmission = {
+      playerId,
+      questionIndex: msg.questionIndex,
+      answerIndex: Number(msg.answerIndex),
+      ...(Array.isArray(msg.answerIndices) ? { answerIndices: msg.answerIndices.map(Number) } : {}),
+      ...(typeof msg.answerText === 'string' ? { answerText: msg.answerText } : {}),
+      correct: isAnswerCorrect(question, answer),
+      ts: now,
+      elapsedMs: answerElapsedMs(room, now, msg.elapsedMs),
+    }
+    room.submissions.push(sub)
+    const changed = rescoreQuestion(room, sub.questionIndex, sub)
+    const result = resultMessage(sub)
+    const pick = {
+      answerIndex: sub.answerIndex,
+      ...(sub.answerIndices ? { answerIndices: sub.answerIndices } : {}),
+      ...(sub.answerText != null ? { answerText: sub.answerText } : {}),
+    }
+    // other players must not learn what was picked; spectators get it for the distribution
+    for (const m of room.members.values()) {
+      if (m.id !== playerId) send(m.socket, isSpectator(m) ? { ...result, pick } : result)
+    }
+    send(member.socket, { ...result, key: answerKeyOf(question) })
+    changed.forEach((s) => broadcast(room, resultMessage(s)))
+    broadcast(room, scoresMessage(room))
+    revealIfEveryoneAnswered(room)
+  }
+
+  function handleMessage(socket: WebSocket, conn: Connection, msg: WsMessage) {
+    if (msg.type === 'HELLO') return handleHello(socket, conn, msg)
+    if (msg.type === 'REJOIN') return handleRejoin(socket, conn, msg)
+    if (msg.type === 'PING') {
+      if (typeof msg.clientTs === 'number') send(socket, { type: 'PONG', clientTs: msg.clientTs, serverTs: Date.now() })
+      return
+    }
+    const { room, playerId } = conn
+    if (!room || !playerId || !room.members.has(playerId)) {
+      return send(socket, { type: 'ERROR', message: 'Join a room first' })
+    }
+    const isHost = room.hostId === playerId
+    switch (msg.type) {
+      case 'READY': {
+        room.members.get(playerId)!.ready = !!msg.ready
+        broadcast(room, { type: 'PLAYER_LIST', players: publicPlayers(room) })
+        break
+      }
+      case 'START':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can start the game' })
+        handleStart(room, playerId, msg)
+        break
+      case 'CONTENT':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can choose the questions' })
+        handleContent(room, playerId, msg)
+        break
+      case 'CONTENT_REQUEST':
+        handleContentRequest(room, playerId, msg)
+        break
+      case 'QUESTION_INDEX':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can advance questions' })
+        handleQuestionIndex(room, playerId, msg)
+        break
+      case 'SUBMISSION':
+        handleSubmission(room, playerId, msg)
+        break
+      case 'ANSWER':
+        handleAnswer(room, playerId, msg)
+        break
+      case 'KICK':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can remove players' })
+        handleKick(room, playerId, msg)
+        break
+      case 'TRANSFER_HOST':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can hand over hosting' })
+        handleTransferHost(room, playerId, msg)
+        break
+      case 'TEAMS':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can set up teams' })
+        handleTeams(room, msg)
+        break
+      case 'JOIN_TEAM':
+        handleJoinTeam(room, playerId, msg)
+        break
+      case 'BALANCE_TEAMS': {
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can balance teams' })
+        const assignment = balanceTeams(publicPlayers(room), room.teams)
+        for (const [id, teamId] of Object.entries(assignment)) room.members.get(id)!.teamId = teamId
+        broadcastRoster(room)
+        break
+      }
+      case 'LOCK_ROOM':
+        if (!isHost) return send(socket, { type: 'ERROR', message: 'Only the host can lock the room' })
+        room.locked = !!msg.locked
+        broadcast(room, { type: 'LOCK_ROOM', locked: room.locked })
+        break
+      default:
+        send(socket, { type: 'ERROR', message: `Unsupported message: ${msg.type}` })
+    }
+  }
+
+  wss.on('connection', (socket) => {
+    const conn: Connection = { room: null, playerId: null }
+    socket.on('message', (data: RawData) => {
+      let msg: WsMessage
+      try {
+        msg = JSON.parse(data.toString()) as WsMessage
+      } catch {
+        return send(socket, { type: 'ERROR', message: 'Invalid message' })
+      }
+      if (!msg || typeof msg !== 'object' || typeof msg.type !== 'string') {
+        return send(socket, { type: 'ERROR', message: 'Invalid message' })
+      }
+      handleMessage(socket, conn, msg)
+    })
+    socket.on('close', () => detach(conn, socket))
+  })
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject)
+    wss.once('listening', () => {
+      const address = wss.address()
+      resolve({
+        port: typeof address === 'object' && address ? address.port : opts.port ?? 8787,
+        close: () =>
+          new Promise<void>((done) => {
+            for (const room of rooms.values()) {
+              if (room.emptyTimer) clearTimeout(room.emptyTimer)
+              clearRoundTimer(room)
+              clearHostTimer(room)
+            }
+            rooms.clear()
+            for (const client of wss.clients) client.terminate()
+            wss.close(() => done())
+          }),
+      })
+    })
+  })
+}
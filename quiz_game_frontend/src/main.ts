@@ -6,6 +6,7 @@ import { createPinia } from 'pinia'
 import App from './App.vue'
 import router from './router'
 import { useQuizStore } from './stores/quiz'
+import { useCategoryRegistryStore } from './stores/categories'
 
 /**
  * PUBLIC_INTERFACE
@@ -13,6 +14,7 @@ import { useQuizStore } from './stores/quiz'
  * - Creates Vue app
  * - Installs Pinia and Router
  * - Attempts to silently resume any saved quiz session before mounting
+ * - Refreshes backend-provided categories in the background
  */
 const app = createApp(App)
 const pinia = createPinia()
@@ -24,6 +26,7 @@ try {
   const quiz = useQuizStore(pinia)
   // do not force prompt here; just hydrate silently if valid
   void quiz.resumeIfAvailable()
+  void useCategoryRegistryStore(pinia).loadFromBackend()
 } catch {
   // ignore if any init error
 }
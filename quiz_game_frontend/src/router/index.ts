@@ -8,8 +8,11 @@ const ResultView = () => import('../views/ResultView.vue')
 const ScoreboardView = () => import('../views/ScoreboardView.vue')
 const MultiplayerLobbyView = () => import('../views/MultiplayerLobbyView.vue')
 const MultiplayerGameView = () => import('../views/MultiplayerGameView.vue')
+const MultiplayerReplayView = () => import('../views/MultiplayerReplayView.vue')
 const DailyQuizView = () => import('../views/DailyQuizView.vue')
 const AnalyticsView = () => import('../views/AnalyticsView.vue')
+const LifelineShopView = () => import('../views/LifelineShopView.vue')
+const ReviewView = () => import('../views/ReviewView.vue')
 const ManageOfflineView = () => import('../views/ManageOfflineView.vue')
 const TournamentLobbyView = () => import('../views/TournamentLobbyView.vue')
 const TournamentPlayView = () => import('../views/TournamentPlayView.vue')
@@ -30,9 +33,12 @@ const router: Router = createRouter({
     { path: '/scoreboard', name: 'scoreboard', component: ScoreboardView },
     { path: '/daily', name: 'daily', component: DailyQuizView },
     { path: '/analytics', name: 'analytics', component: AnalyticsView },
+    { path: '/shop', name: 'shop', component: LifelineShopView },
+    { path: '/review', name: 'review', component: ReviewView },
     { path: '/offline/manage', name: 'offline-manage', component: ManageOfflineView },
     { path: '/multiplayer', name: 'mp-lobby', component: MultiplayerLobbyView },
     { path: '/multiplayer/game', name: 'mp-game', component: MultiplayerGameView },
+    { path: '/multiplayer/history/:id', name: 'mp-replay', component: MultiplayerReplayView, props: true },
     { path: '/tournament', name: 'tournament-lobby', component: TournamentLobbyView },
     { path: '/tournament/play', name: 'tournament-play', component: TournamentPlayView },
     { path: '/tournament/results', name: 'tournament-results', component: TournamentResultsView },
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useCategoryRegistryStore } from '../categories'
+import { useOfflineStore } from '../offline'
+import { useQuizStore, type CategoryKey } from '../quiz'
+import { builtinCategory } from '@/utils/categories'
+
+const space = { key: 'space', label: 'Space', emoji: '🚀', unlock: { unlocked: false, price: 80 } }
+
+describe('category registry', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setActivePinia(createPinia())
+  })
+
+  it('knows the built-ins and nothing else', () => {
+    const registry = useCategoryRegistryStore()
+    expect(registry.keys).toEqual(['gk', 'sports', 'movies', 'science', 'history', 'geography'])
+    expect(registry.has('science')).toBe(true)
+    expect(registry.has('space')).toBe(false)
+    expect(registry.has(42)).toBe(false)
+    expect(registry.get('space')).toBeUndefined()
+    expect(registry.get('gk')?.key).toBe(builtinCategory('gk'))
+  })
+
+  it('registers extra categories and hands out their keys', () => {
+    const registry = useCategoryRegistryStore()
+    const res = registry.register([space, { key: 'Bad Key!', label: 'x' }], 'pack')
+    expect(res).toEqual({ ok: false, added: ['space'], errors: ['Invalid category key "Bad Key!"'] })
+    expect(registry.has('space')).toBe(true)
+    expect(registry.get('space')).toMatchObject({ key: 'space', label: 'Space', apiParam: 'space', origin: 'pack' })
+    expect(registry.labelFor(res.added[0])).toBe('Space')
+    expect(registry.emojiFor(res.added[0])).toBe('🚀')
+  })
+
+  it('refuses to replace a built-in', () => {
+    const registry = useCategoryRegistryStore()
+    const res = registry.register([{ key: 'gk', label: 'Gossip' }], 'backend')
+    expect(res).toEqual({ ok: false, added: [], errors: ['"gk" is a built-in category'] })
+    expect(registry.labelFor(builtinCategory('gk'))).toBe('General Knowledge')
+    expect(registry.remove(builtinCategory('gk'))).toBe(false)
+  })
+
+  it('persists extras and forgets removed ones', () => {
+    const [key] = useCategoryRegistryStore().register([space], 'pack').added
+    setActivePinia(createPinia())
+    const registry = useCategoryRegistryStore()
+    expect(registry.has('space')).toBe(true)
+    expect(registry.remove(key)).toBe(true)
+    setActivePinia(createPinia())
+    expect(useCategoryRegistryStore().has('space')).toBe(false)
+  })
+
+  it('drops stored offline packs of unknown categories', () => {
+    const pack = { meta: { version: 'v1' }, questions: [] }
+    localStorage.setItem('quizmaster:offline:packs', JSON.stringify({ packs: { science: pack, space: pack } }))
+    expect(Object.keys(useOfflineStore().packs)).toEqual(['science'])
+  })
+
+  it('keeps the quiz from starting in an unknown category', async () => {
+    const quiz = useQuizStore()
+    expect(quiz.setCategory('space')).toBe(false)
+    expect(quiz.selectedCategory).toBe('gk')
+    expect(quiz.setCategory('history')).toBe(true)
+    expect(quiz.selectedCategory).toBe('history')
+
+    // a key that got past setCategory, e.g. a removed category
+    quiz.selectedCategory = 'space' as CategoryKey
+    await quiz.loadQuestions()
+    expect(quiz.questions).toEqual([])
+    expect(quiz.error).toBe('Unknown category "space"')
+  })
+})
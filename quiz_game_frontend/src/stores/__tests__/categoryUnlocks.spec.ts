@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useCategoryRegistryStore } from '../categories'
+import { useCategoryUnlockStore } from '../categoryUnlocks'
+import { useCoinsStore } from '../coins'
+import type { CategoryKey } from '../quiz'
+import { builtinCategory } from '@/utils/categories'
+
+describe('buyUnlock', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setActivePinia(createPinia())
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(200, 'bonus', 'test:seed')
+  })
+
+  it('spends the price once and records the category as bought', () => {
+    const unlocks = useCategoryUnlockStore()
+    const coins = useCoinsStore()
+    expect(unlocks.buyUnlock(builtinCategory('history'))).toEqual({ ok: true })
+    expect(coins.balance).toBe(100)
+    expect(unlocks.unlockSource(builtinCategory('history'))).toBe('bought')
+
+    // bought before a reset: unlocks again for free
+    unlocks.resetUnlocks()
+    expect(unlocks.buyUnlock(builtinCategory('history'))).toEqual({ ok: true })
+    expect(coins.balance).toBe(100)
+  })
+
+  it('refuses an unpriced category without spending coins', () => {
+    const unlocks = useCategoryUnlockStore()
+    const coins = useCoinsStore()
+    const [space] = useCategoryRegistryStore().register([{ key: 'space', label: 'Space', unlock: { unlocked: false, price: 0 } }], 'pack').added
+    expect(unlocks.buyUnlock(space)).toEqual({ ok: false, error: 'This category cannot be bought' })
+    expect(unlocks.isUnlocked(space)).toBe(false)
+    expect(coins.balance).toBe(200)
+  })
+
+  it('refuses an unknown category without spending coins', () => {
+    const unlocks = useCategoryUnlockStore()
+    const coins = useCoinsStore()
+    // a key that slipped past the registry, e.g. from an old save
+    const space = 'space' as CategoryKey
+    expect(unlocks.buyUnlock(space)).toEqual({ ok: false, error: 'This category cannot be bought' })
+    expect(unlocks.isUnlocked(space)).toBe(false)
+    expect(coins.balance).toBe(200)
+  })
+
+  it('refuses when the balance is too low', () => {
+    const unlocks = useCategoryUnlockStore()
+    expect(unlocks.buyUnlock(builtinCategory('geography'))).toEqual({ ok: true })
+    expect(unlocks.buyUnlock(builtinCategory('history'))).toEqual({ ok: false, error: 'You need 100 coins to unlock History' })
+    expect(unlocks.isUnlocked(builtinCategory('history'))).toBe(false)
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useCoinsStore } from '../coins'
+
+const STORAGE_KEY = 'coins.v1'
+
+function stored() {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY)!)
+}
+
+function reload() {
+  setActivePinia(createPinia())
+  const coins = useCoinsStore()
+  coins.load()
+  return coins
+}
+
+function v1Ledger() {
+  return {
+    balance: 12,
+    lifetimeEarned: 15,
+    _version: 1,
+    history: [
+      { id: 'a', ts: 1, delta: 10, reason: 'quiz-complete' },
+      { id: 'b', ts: 2, delta: 5, reason: 'bonus' },
+      { id: 'c', ts: 3, delta: -3, reason: 'purchase' },
+    ],
+  }
+}
+
+describe('coins ledger', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setActivePinia(createPinia())
+  })
+
+  it('verifies an intact chain', () => {
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(10, 'quiz-complete', 'qc:1')
+    coins.add(2, 'correct-answer', 'sa:1:0')
+    expect(coins.spend(5, 'pu:1')).toBe(true)
+    expect(coins.verifyLedger().ok).toBe(true)
+
+    const again = reload()
+    expect(again.integrity.ok).toBe(true)
+    expect(again.balance).toBe(7)
+    expect(again.lifetimeEarned).toBe(12)
+  })
+
+  it('detects an edited amount at its index without rewriting storage', () => {
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(10, 'quiz-complete', 'qc:1')
+    coins.add(2, 'correct-answer', 'sa:1:0')
+    coins.add(2, 'correct-answer', 'sa:1:1')
+    const data = stored()
+    data.history[1].delta = 500
+    data.balance = 514
+    const raw = JSON.stringify(data)
+    localStorage.setItem(STORAGE_KEY, raw)
+
+    const again = reload()
+    expect(again.integrity).toMatchObject({ ok: false, reason: 'hash-mismatch', firstBadIndex: 1, firstBadId: 'sa:1:0' })
+    expect(again.balance).toBe(10)
+    expect(again.history).toHaveLength(1)
+    expect(localStorage.getItem(STORAGE_KEY)).toBe(raw)
+    expect(JSON.parse(localStorage.getItem('coins.v1.backup')!)[0].raw).toBe(raw)
+  })
+
+  it('flags a balance that does not match the history', () => {
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(10, 'quiz-complete', 'qc:1')
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...stored(), balance: 999 }))
+    const again = reload()
+    expect(again.integrity.reason).toBe('balance-mismatch')
+    expect(again.balance).toBe(10)
+  })
+
+  it('migrates a v1 ledger once', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(v1Ledger()))
+    const coins = reload()
+    expect(coins.integrity.ok).toBe(true)
+    expect(coins.balance).toBe(12)
+    expect(coins.lifetimeEarned).toBe(15)
+    const data = stored()
+    expect(data._version).toBe(2)
+    expect(data.history.every((h: { hash?: string }) => typeof h.hash === 'string')).toBe(true)
+    expect(reload().integrity.ok).toBe(true)
+  })
+
+  it('rejects a v1 ledger once a v2 ledger was saved', () => {
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(10, 'quiz-complete', 'qc:1')
+    // an edited history passed off as pre-chain data
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(v1Ledger()))
+    const again = reload()
+    expect(again.integrity.ok).toBe(false)
+    expect(again.balance).toBe(0)
+    expect(stored()._version).toBe(1)
+  })
+
+  it('rejects a downgraded version whose entries still carry hashes', () => {
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(10, 'quiz-complete', 'qc:1')
+    const data = stored()
+    delete data._version
+    data.history[0].delta = 50
+    data.balance = 50
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
+    // even without the sealed marker, hashed entries are not v1 data
+    localStorage.removeItem('coins.v1.sealed')
+    const again = reload()
+    expect(again.integrity).toMatchObject({ ok: false, reason: 'hash-mismatch', firstBadIndex: 0 })
+    expect(again.balance).toBe(0)
+  })
+
+  it('reports an untouched chain stored with a downgraded version', () => {
+    const coins = useCoinsStore()
+    coins.load()
+    coins.add(10, 'quiz-complete', 'qc:1')
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...stored(), _version: 1 }))
+    const again = reload()
+    expect(again.integrity.reason).toBe('version-downgrade')
+    expect(again.balance).toBe(10)
+  })
+})
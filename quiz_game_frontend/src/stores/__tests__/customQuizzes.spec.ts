@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useCustomQuizzesStore, type CustomQuizQuestion } from '../customQuizzes'
+
+const questions: CustomQuizQuestion[] = [
+  {
+    id: 'q1',
+    text: 'Capital of France, "the city of light"?',
+    options: ['Paris', 'Lyon, France', 'Nice'],
+    correctIndex: 0,
+    explanation: 'Line one\nline two',
+    hint: 'Tab\tinside',
+    referenceUrl: 'https://en.wikipedia.org/wiki/Paris',
+  },
+  { id: 'q2', text: 'Largest ocean', options: ['Atlantic', 'Pacific'], correctIndex: 1 },
+  { id: 'q3', text: 'Pick the primes', options: ['2', '4', '5'], correctIndex: 0, type: 'multi', correctIndices: [0, 2] },
+  { id: 'q4', text: 'The sun is a star', options: ['True', 'False'], correctIndex: 0, type: 'boolean' },
+  { id: 'q5', text: 'Spell the colour', options: [], correctIndex: -1, type: 'text', acceptedAnswers: ['grey', 'gray'], fuzzyTolerance: 1 },
+  { id: 'q6', text: 'Boiling point of water (°C)', options: [], correctIndex: -1, type: 'numeric', numericAnswer: 100, tolerance: { absolute: 0.5, relative: 0.05 } },
+  {
+    id: 'q7',
+    text: 'Whose voice is this?',
+    options: ['A', 'B'],
+    correctIndex: 1,
+    media: { kind: 'audio', src: 'https://example.com/clip.mp3', alt: 'A short speech', credit: 'Archive, 1962' },
+  },
+  {
+    id: 'q8',
+    text: 'Which flag is this?',
+    options: ['Japan', 'Bangladesh'],
+    correctIndex: 0,
+    media: { kind: 'image', src: 'data:image/png;base64,iVBORw0KGgo=', alt: 'A red disc on white' },
+  },
+]
+
+function withoutIds(list: CustomQuizQuestion[]) {
+  return list.map((q) => JSON.parse(JSON.stringify({ ...q, id: undefined })))
+}
+
+describe('custom quiz CSV/TSV', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('round-trips every column through CSV and TSV', () => {
+    const store = useCustomQuizzesStore()
+    const quiz = store.create({ title: 'Mixed', visibility: 'private', questions })
+    for (const format of ['csv', 'tsv'] as const) {
+      const exported = store.exportQuizDelimited(quiz.id, format)
+      expect(exported.ok).toBe(true)
+      // no format given: the delimiter is detected
+      const imported = store.importQuizDelimited(exported.text!)
+      expect(imported.errors).toEqual([])
+      expect(withoutIds(imported.quiz!.questions)).toEqual(withoutIds(quiz.questions))
+    }
+  })
+
+  it('reads rows without a header and matches the correct answer by number or text', () => {
+    const store = useCustomQuizzesStore()
+    const res = store.importQuizDelimited('Pick b,a,,b,,,,3\nPick c,a,b,c,,,,C\n')
+    expect(res.errors).toEqual([])
+    // the blank option column is dropped, so column 3 is the second option
+    expect(res.quiz!.questions.map((q) => [q.options, q.correctIndex])).toEqual([
+      [['a', 'b'], 1],
+      [['a', 'b', 'c'], 2],
+    ])
+  })
+
+  it('infers multi from several answers and boolean from True/False options', () => {
+    const store = useCustomQuizzesStore()
+    const res = store.importQuizDelimited('Pick two,a,b,c,,,,1;3\nYes?,True,False,,,,,false\n')
+    expect(res.errors).toEqual([])
+    expect(res.quiz!.questions.map((q) => q.type)).toEqual(['multi', 'boolean'])
+    expect(res.quiz!.questions[0].correctIndices).toEqual([0, 2])
+    expect(res.quiz!.questions[1].correctIndex).toBe(1)
+  })
+
+  it('reports each rejected row with its number and keeps the valid ones', () => {
+    const store = useCustomQuizzesStore()
+    const text = [
+      'text\toption1\toption2\tcorrect\treferenceUrl\ttype\ttolerance\tmediaUrl\tmediaAlt',
+      'Fine\ta\tb\t2\t',
+      'Out of range\ta\tb\t3\t',
+      '',
+      'No match\ta\tb\tc\t',
+      'Only one\ta\t\t1\t',
+      'Bad link\ta\tb\t1\tftp://example.com',
+      'No answer\ta\tb\t\t',
+      'Bad type\ta\tb\t1\t\tessay',
+      'Two answers\ta\tb\t1;2\t\tsingle',
+      'Pi\t\t\tabc\t\tnumeric',
+      'Typo\t\t\tcat\t\ttext\t1.5',
+      'Width\t\t\t5\t\tnumeric\t-1',
+      'Height\t\t\t1,5\t\tnumeric\t0.1;5%',
+      'No alt\ta\tb\t1\t\t\t\thttps://example.com/a.png\t',
+      'Bad media\ta\tb\t1\t\t\t\tftp://example.com/a.png\tA picture',
+    ].join('\n')
+    const res = store.importQuizDelimited(text)
+    expect(res.ok).toBe(true)
+    expect(res.quiz!.questions.map((q) => q.text)).toEqual(['Fine', 'Height'])
+    expect(res.quiz!.questions[1]).toMatchObject({ type: 'numeric', numericAnswer: 1.5, tolerance: { absolute: 0.1, relative: 0.05 } })
+    expect(res.errors).toEqual([
+      { row: 3, reason: 'correct option 3 is empty or out of range (1–6)' },
+      { row: 5, reason: 'correct answer "c" does not match any option' },
+      { row: 6, reason: 'needs at least 2 options' },
+      { row: 7, reason: 'referenceUrl must start with http:// or https://' },
+      { row: 8, reason: 'missing correct answer' },
+      { row: 9, reason: 'unknown type "essay" (use single, multi, boolean, text or numeric)' },
+      { row: 10, reason: 'single questions take exactly one correct answer' },
+      { row: 11, reason: 'correct answer "abc" is not a number' },
+      { row: 12, reason: 'tolerance "1.5" must be a whole number of edits' },
+      { row: 13, reason: 'tolerance "-1" must be a non-negative number or percentage' },
+      { row: 15, reason: 'mediaAlt is required when mediaUrl is set' },
+      { row: 16, reason: 'mediaUrl must be an http(s) URL or an image/audio data URL' },
+    ])
+  })
+
+  it('fails when no row is valid', () => {
+    const store = useCustomQuizzesStore()
+    expect(store.importQuizDelimited('text,correct\n,1\n')).toMatchObject({
+      ok: false,
+      error: 'No valid rows',
+      errors: [{ row: 2, reason: 'missing question text' }],
+    })
+    expect(store.importQuizDelimited('').error).toBe('File is empty')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { usePracticeStore } from '../practice'
+import { appendAnalytics, listAnalytics, useQuizStore } from '../quiz'
+import { builtinCategory } from '@/utils/categories'
+
+const gk = builtinCategory('gk')
+
+describe('weak-spot practice', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setActivePinia(createPinia())
+    // 20% over 10 answers: weak
+    appendAnalytics({ totalQuestions: 10, correctCount: 2, wrongCount: 8, skippedCount: 0, durations: [], category: gk, mode: 'normal', startedAt: 1, completedAt: 2 })
+  })
+
+  it('records the finished quiz through the same analytics builder as other modes', async () => {
+    const practice = usePracticeStore()
+    expect(practice.weakCategories().map((w) => w.category)).toEqual(['gk'])
+    expect(await practice.start()).toEqual({ ok: true })
+
+    const quiz = useQuizStore()
+    const [first, second] = quiz.questions
+    quiz.selectedAnswers = { [first.id]: first.answerIndex, [second.id]: 'SKIPPED' as const }
+    const expected = quiz.buildAnalyticsMeta('practice')
+
+    const movement = practice.finish()
+    const recorded = listAnalytics().filter((r) => r.mode === 'practice')
+    expect(recorded).toHaveLength(1)
+    expect(recorded[0]).toMatchObject({ ...expected, completedAt: expect.any(Number) })
+    expect(recorded[0]).toMatchObject({ category: 'gk', correctCount: 1, skippedCount: 1, wrongCount: 0 })
+    expect(movement).toEqual([{ category: 'gk', before: 20, after: 27, session: 100 }])
+    // a second results screen does not record again
+    expect(practice.finish()).toEqual(movement)
+    expect(listAnalytics().filter((r) => r.mode === 'practice')).toHaveLength(1)
+  })
+})
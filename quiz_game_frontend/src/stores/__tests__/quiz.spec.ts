@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useQuizStore, type QuizQuestion } from '../quiz'
+import { parseTimerSettings, type TimerSettings } from '@/utils/timer'
+import { builtinCategory } from '@/utils/categories'
+
+const questions: QuizQuestion[] = [
+  { id: 1, question: 'One?', options: ['a', 'b'], answerIndex: 0 },
+  { id: 2, question: 'Two?', options: ['a', 'b'], answerIndex: 1 },
+  { id: 3, question: 'Three?', options: ['a', 'b'], answerIndex: 0 },
+]
+
+function startWith(timer: TimerSettings) {
+  const quiz = useQuizStore()
+  quiz.questions = questions
+  quiz.setTimerOverride(timer)
+  return quiz
+}
+
+function runOut(quiz: ReturnType<typeof useQuizStore>) {
+  let remaining = quiz.timerState.remaining
+  while (remaining != null && remaining > 0) remaining = quiz.tickTimer(1)
+  return remaining
+}
+
+describe('quiz timer', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setActivePinia(createPinia())
+  })
+
+  it('does not count down when off', () => {
+    const quiz = startWith({ mode: 'off', seconds: 20, onExpire: 'skip' })
+    expect(quiz.timerState.remaining).toBeNull()
+    expect(quiz.tickTimer(5)).toBeNull()
+    expect(quiz.selectedAnswers).toEqual({})
+  })
+
+  it('skips the question when a per-question countdown runs out', () => {
+    const quiz = startWith({ mode: 'per-question', seconds: 5, onExpire: 'skip' })
+    quiz.selectOption(0)
+    expect(runOut(quiz)).toBe(0)
+    expect(quiz.timerState.expired).toBe(true)
+    expect(quiz.hasSubmitted).toBe(true)
+    expect(quiz.selectedAnswers).toEqual({ 1: 'SKIPPED' })
+    expect(quiz.score).toBe(0)
+
+    // the next question gets a fresh countdown
+    expect(quiz.nextQuestion()).toBe(true)
+    expect(quiz.timerState).toMatchObject({ remaining: 5, expired: false })
+  })
+
+  it('submits the selection when a per-question countdown runs out', () => {
+    const quiz = startWith({ mode: 'per-question', seconds: 5, onExpire: 'submit' })
+    quiz.selectOption(0)
+    runOut(quiz)
+    expect(quiz.selectedAnswers).toEqual({ 1: 0 })
+    expect(quiz.score).toBe(1)
+
+    // nothing selected: counts as skipped
+    quiz.nextQuestion()
+    runOut(quiz)
+    expect(quiz.selectedAnswers[2]).toBe('SKIPPED')
+  })
+
+  it('only warns when set to warn', () => {
+    const quiz = startWith({ mode: 'per-question', seconds: 5, onExpire: 'warn' })
+    expect(runOut(quiz)).toBe(0)
+    expect(quiz.timerState.expired).toBe(true)
+    expect(quiz.hasSubmitted).toBe(false)
+    expect(quiz.selectedAnswers).toEqual({})
+    // the player can still answer
+    quiz.selectOption(0)
+    expect(quiz.submitAnswer().correct).toBe(true)
+  })
+
+  it('pauses a quiz budget while a question is answered and carries it over', () => {
+    const quiz = startWith({ mode: 'quiz-budget', seconds: 10, onExpire: 'skip' })
+    quiz.tickTimer(3)
+    quiz.selectOption(0)
+    quiz.submitAnswer()
+    expect(quiz.tickTimer(2)).toBe(7)
+    quiz.nextQuestion()
+    expect(quiz.timerState.remaining).toBe(7)
+    expect(quiz.budgetRemaining).toBe(7)
+  })
+
+  it('marks every remaining question skipped when the budget runs out', () => {
+    const quiz = startWith({ mode: 'quiz-budget', seconds: 10, onExpire: 'submit' })
+    quiz.selectOption(0)
+    quiz.submitAnswer()
+    quiz.nextQuestion()
+    expect(runOut(quiz)).toBe(0)
+    expect(quiz.selectedAnswers).toEqual({ 1: 0, 2: 'SKIPPED', 3: 'SKIPPED' })
+    expect(quiz.quizTimeUp).toBe(true)
+  })
+
+  it('keeps the quiz going after the budget runs out when set to warn', () => {
+    const quiz = startWith({ mode: 'quiz-budget', seconds: 10, onExpire: 'warn' })
+    runOut(quiz)
+    expect(quiz.selectedAnswers).toEqual({})
+    expect(quiz.quizTimeUp).toBe(false)
+  })
+})
+
+describe('parseTimerSettings', () => {
+  it('clamps seconds and defaults the expiry to warn', () => {
+    expect(parseTimerSettings({ mode: 'per-question', seconds: 1, onExpire: 'skip' })).toEqual({ mode: 'per-question', seconds: 5, onExpire: 'skip' })
+    expect(parseTimerSettings({ mode: 'quiz-budget', seconds: 99999, onExpire: 'explode' })).toEqual({ mode: 'quiz-budget', seconds: 3600, onExpire: 'warn' })
+    expect(parseTimerSettings({ mode: 'off', seconds: 'x' })).toEqual({ mode: 'off', seconds: 20, onExpire: 'warn' })
+  })
+
+  it('rejects values that are not timer settings', () => {
+    expect(parseTimerSettings({ mode: 'sometimes', seconds: 10 })).toBeNull()
+    expect(parseTimerSettings(null)).toBeNull()
+  })
+})
+
+describe('buildAnalyticsMeta', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('counts only the scoped questions under the scoped category', () => {
+    const quiz = useQuizStore()
+    quiz.startPrepared(questions, builtinCategory('gk'))
+    quiz.selectedAnswers = { 1: 0, 2: 0, 3: 'SKIPPED' }
+    expect(quiz.buildAnalyticsMeta()).toMatchObject({ category: 'gk', mode: 'normal', totalQuestions: 3, correctCount: 1, wrongCount: 1, skippedCount: 1 })
+    expect(quiz.buildAnalyticsMeta('practice', { questions: questions.slice(1), category: builtinCategory('science'), completedAt: 5 })).toMatchObject({
+      category: 'science',
+      mode: 'practice',
+      totalQuestions: 2,
+      correctCount: 0,
+      wrongCount: 1,
+      skippedCount: 1,
+      completedAt: 5,
+    })
+  })
+})
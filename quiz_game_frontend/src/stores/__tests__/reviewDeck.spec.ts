@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { reviewKeyOf, useReviewDeckStore } from '../reviewDeck'
+import type { QuizQuestion } from '../quiz'
+import { REVIEW_QUALITY, addDays, dayKey } from '@/utils/spacedRepetition'
+import { builtinCategory } from '@/utils/categories'
+
+const questions: QuizQuestion[] = [
+  { id: 1, question: 'Right?', options: ['a', 'b'], answerIndex: 0 },
+  { id: 2, question: 'Wrong?', options: ['a', 'b'], answerIndex: 1, explanation: 'It is b' },
+  { id: 3, question: 'Skipped?', options: ['a', 'b'], answerIndex: 1 },
+]
+const answers = { 1: 0, 2: 0, 3: 'SKIPPED' as const }
+const gk = builtinCategory('gk')
+
+describe('review deck', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('adds missed and skipped questions with their content', () => {
+    const deck = useReviewDeckStore()
+    expect(deck.addMissed({ questions, answers, category: gk, sessionId: 's1' })).toBe(2)
+    expect(deck.dueCount).toBe(2)
+    expect(deck.get(reviewKeyOf(questions[1]))?.question.explanation).toBe('It is b')
+    expect(deck.get(reviewKeyOf(questions[0]))).toBeUndefined()
+  })
+
+  it('counts one lapse per session', () => {
+    const deck = useReviewDeckStore()
+    deck.addMissed({ questions, answers, category: gk, sessionId: 's1' })
+    const key = reviewKeyOf(questions[1])
+    deck.recordReview(key, REVIEW_QUALITY.recalled)
+    expect(deck.get(key)!.schedule.lapses).toBe(0)
+
+    deck.addMissed({ questions, answers, category: gk, sessionId: 's2' })
+    deck.addMissed({ questions, answers, category: gk, sessionId: 's2' })
+    expect(deck.get(key)!.schedule).toMatchObject({ lapses: 1, repetitions: 0, due: addDays(dayKey(), 1) })
+    // the results screen of an earlier session does not count again either
+    deck.addMissed({ questions, answers, category: gk, sessionId: 's1' })
+    expect(deck.get(key)!.schedule.lapses).toBe(1)
+    deck.addMissed({ questions, answers, category: gk, sessionId: 's3' })
+    expect(deck.get(key)!.schedule.lapses).toBe(2)
+  })
+
+  it('moves a recalled item out and persists the schedule', () => {
+    const deck = useReviewDeckStore()
+    deck.addMissed({ questions, answers, category: gk, sessionId: 's1' })
+    deck.recordReview(reviewKeyOf(questions[2]), REVIEW_QUALITY.recalled)
+    expect(deck.dueCount).toBe(1)
+    expect(deck.nextDue).toBe(addDays(dayKey(), 1))
+
+    setActivePinia(createPinia())
+    expect(useReviewDeckStore().size).toBe(2)
+    expect(useReviewDeckStore().dueCount).toBe(1)
+  })
+})
@@ -0,0 +1,170 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { CategoryKey } from './quiz'
+import { BUILTIN_CATEGORIES, parseCategoryDefinition, type CategoryDefinition } from '@/utils/categories'
+
+/**
+ * Category registry: the one list of playable categories.
+ * - Built-in categories (utils/categories.ts) are always present and cannot be replaced
+ * - Extra categories come from the backend (loadFromBackend) or from offline packs that carry
+ *   their definition (register with origin 'pack'); both persist to localStorage
+ * - Labels, emoji, backend params and unlock defaults are looked up here instead of per-file maps
+ */
+
+export type CategoryOrigin = 'builtin' | 'backend' | 'pack'
+
+export type RegisteredCategory = CategoryDefinition & { origin: CategoryOrigin }
+
+const STORAGE_KEY = 'quizmaster:categories.v1'
+
+const BUILTIN_KEYS = new Set(BUILTIN_CATEGORIES.map((c) => c.key))
+
+function readExtras(): RegisteredCategory[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const list = raw ? (JSON.parse(raw) as unknown) : null
+    if (!Array.isArray(list)) return []
+    const out: RegisteredCategory[] = []
+    for (const item of list) {
+      const def = parseCategoryDefinition(item)
+      if (typeof def === 'string' || BUILTIN_KEYS.has(def.key) || out.some((c) => c.key === def.key)) continue
+      const origin = (item as { origin?: unknown }).origin === 'backend' ? 'backend' : 'pack'
+      out.push({ ...def, origin })
+    }
+    return out
+  } catch {
+    return []
+  }
+}
+
+function writeExtras(list: RegisteredCategory[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list))
+  } catch {
+    // ignore
+  }
+}
+
+function apiBase(): string {
+  const base =
+    (import.meta.env.VITE_API_BASE as string) || (import.meta.env.VITE_BACKEND_URL as string) || ''
+  return base.replace(/\/*$/, '')
+}
+
+// PUBLIC_INTERFACE
+export const useCategoryRegistryStore = defineStore('categories', () => {
+  /** Categories added at runtime (backend or packs). */
+  const extras = ref<RegisteredCategory[]>(readExtras())
+
+  const list = computed<RegisteredCategory[]>(() => [
+    ...BUILTIN_CATEGORIES.map((c) => ({ ...c, origin: 'builtin' as const })),
+    ...extras.value,
+  ])
+  const keys = computed<CategoryKey[]>(() => list.value.map((c) => c.key))
+
+  function persist() {
+    writeExtras(extras.value)
+  }
+
+  // PUBLIC_INTERFACE
+  function get(key: string): RegisteredCategory | undefined {
+    /** Looks up any string; the definition's `key` is then a checked CategoryKey. */
+    return list.value.find((c) => c.key === key)
+  }
+
+  // PUBLIC_INTERFACE
+  function has(key: unknown): key is CategoryKey {
+    /** Narrows a key read from storage, a route or the network to a registered CategoryKey. */
+    return typeof key === 'string' && !!get(key)
+  }
+
+  // PUBLIC_INTERFACE
+  function labelFor(key: CategoryKey): string {
+    /** Display label; the key itself for categories that are not registered (any more). */
+    return get(key)?.label ?? String(key)
+  }
+
+  // PUBLIC_INTERFACE
+  function emojiFor(key: CategoryKey): string {
+    return get(key)?.emoji ?? '📚'
+  }
+
+  // PUBLIC_INTERFACE
+  function apiParamFor(key: CategoryKey): string {
+    /** Backend `?category=` value. */
+    return get(key)?.apiParam ?? key
+  }
+
+  // PUBLIC_INTERFACE
+  function register(defs: unknown[], origin: 'backend' | 'pack'): { ok: boolean; added: CategoryKey[]; errors: string[] } {
+    /**
+     * Adds or updates extra categories. Built-in keys are refused; a key already registered is
+     * updated in place (and takes the new origin).
+     */
+    const added: CategoryKey[] = []
+    const errors: string[] = []
+    const next = [...extras.value]
+    for (const item of defs) {
+      const def = parseCategoryDefinition(item)
+      if (typeof def === 'string') {
+        errors.push(def)
+        continue
+      }
+      if (BUILTIN_KEYS.has(def.key)) {
+        errors.push(`"${def.key}" is a built-in category`)
+        continue
+      }
+      const idx = next.findIndex((c) => c.key === def.key)
+      if (idx >= 0) next[idx] = { ...def, origin }
+      else next.push({ ...def, origin })
+      added.push(def.key)
+    }
+    extras.value = next
+    persist()
+    return { ok: errors.length === 0, added, errors }
+  }
+
+  // PUBLIC_INTERFACE
+  function remove(key: CategoryKey): boolean {
+    /** Removes an extra category; built-ins stay. */
+    const next = extras.value.filter((c) => c.key !== key)
+    if (next.length === extras.value.length) return false
+    extras.value = next
+    persist()
+    return true
+  }
+
+  // PUBLIC_INTERFACE
+  async function loadFromBackend(): Promise<{ ok: boolean; added: CategoryKey[]; error?: string }> {
+    /**
+     * Fetches `GET /api/categories` (a list of definitions, or `{ categories: [...] }`).
+     * Backend categories no longer listed are dropped; pack categories are kept.
+     */
+    const base = apiBase()
+    if (!base) return { ok: false, added: [], error: 'No backend configured' }
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), 6000)
+    try {
+      const res = await fetch(`${base}/api/categories`, { signal: controller.signal })
+      if (!res.ok) throw new Error(`Failed to load categories: ${res.status}`)
+      const data = (await res.json()) as unknown
+      const items = Array.isArray(data) ? data : (data as { categories?: unknown })?.categories
+      if (!Array.isArray(items)) throw new Error('Invalid category list')
+      const listed = items.flatMap((c) => {
+        const def = parseCategoryDefinition(c)
+        return typeof def === 'string' ? [] : [def.key]
+      })
+      extras.value = extras.value.filter((c) => c.origin !== 'backend' || listed.includes(c.key))
+      return { ok: true, added: register(items, 'backend').added }
+    } catch (e: unknown) {
+      const msg = e && typeof e === 'object' && 'message' in e ? String((e as { message?: string }).message) : 'Failed to load categories'
+      return { ok: false, added: [], error: msg }
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  return { extras, list, keys, get, has, labelFor, emojiFor, apiParamFor, register, remove, loadFromBackend }
+})
+
+export type CategoryRegistry = ReturnType<typeof useCategoryRegistryStore>
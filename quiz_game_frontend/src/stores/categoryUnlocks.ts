@@ -1,17 +1,44 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { computed, ref } from 'vue'
 import type { CategoryKey } from './quiz'
+import { CoinIds, ensureCoinsLoaded, useCoinsStore } from './coins'
+import { useCategoryRegistryStore, type CategoryRegistry } from './categories'
+import {
+  addResult,
+  defaultUnlockGraph,
+  describeRequirement,
+  parseUnlockGraph,
+  rulesMet,
+  type CategoryResult,
+  type UnlockGraph,
+} from '@/utils/unlockGraph'
 
 /**
  * Category unlock persistent schema and logic.
  * Persists to localStorage with versioned key and exposes actions to check/unlock categories
  * and to evaluate unlock progression based on quiz accuracy.
+ * Prerequisites form a graph (utils/unlockGraph.ts) checked against the recorded results per category;
+ * locked categories can also be bought with coins instead of meeting the prerequisites.
+ * Defaults (open from the start, price, prerequisites) come from the category registry (stores/categories.ts).
  */
 
+// how a category became playable
+export type UnlockSource = 'default' | 'earned' | 'bought'
+
 export type CategoryUnlockSchema = {
-  version: 1
+  // 2: prerequisites are an unlock graph and results are recorded (v1 listed prerequisite keys)
+  version: 2
+  // categories unlocked by play or purchase (those open by default come from the registry)
   unlocked: Record<CategoryKey, boolean>
-  prerequisites: Record<CategoryKey, CategoryKey[]>
+  // missing for categories unlocked before sources were recorded (treated as earned)
+  sources: Partial<Record<CategoryKey, UnlockSource>>
+  // the imported graph; ignored unless customGraph (the registry's defaults apply)
+  prerequisites: UnlockGraph
+  // true once a graph was imported with setUnlockGraph
+  customGraph: boolean
+  // best attempts per category that prerequisites are checked against
+  results: Partial<Record<CategoryKey, CategoryResult[]>>
+  // accuracy needed by requirements that do not set their own minPercent
   thresholds: { scorePercent: number }
   lastUpdated: number
   // config flags
@@ -22,34 +49,40 @@ const STORAGE_KEY = 'quizmaster:categoryUnlocks.v1'
 
 const DEFAULT_THRESH = 80
 
-// Default prerequisite graph:
-// - GK (gk) is unlocked by default.
-// - Science unlocks after GK>=80
-// - History unlocks after Science>=80
-// - Sports unlocks after GK>=80
-// - Movies unlocks after GK>=80
-// - Geography unlocks after History>=80
-const defaultPrereqs: Record<CategoryKey, CategoryKey[]> = {
-  gk: [],
-  sports: ['gk'],
-  movies: ['gk'],
-  science: ['gk'],
-  history: ['science'],
-  geography: ['history'],
-}
 
-function defaultUnlocked(): Record<CategoryKey, boolean> {
+function defaultState(): CategoryUnlockSchema {
   return {
-    gk: true,
-    sports: false,
-    movies: false,
-    science: false,
-    history: false,
-    geography: false,
+    version: 2,
+    unlocked: {},
+    sources: {},
+    prerequisites: {},
+    customGraph: false,
+    results: {},
+    thresholds: { scorePercent: DEFAULT_THRESH },
+    lastUpdated: Date.now(),
+    dailyCountsForUnlocks: false, // default: daily does not count towards unlocks
+  }
+}
+
+function readResults(value: unknown, registry: CategoryRegistry): Partial<Record<CategoryKey, CategoryResult[]>> {
+  const out: Partial<Record<CategoryKey, CategoryResult[]>> = {}
+  if (!value || typeof value !== 'object') return out
+  const raw = value as Record<string, unknown>
+  for (const cat of Object.keys(raw)) {
+    const list = raw[cat]
+    if (!registry.has(cat) || !Array.isArray(list)) continue
+    for (const r of list) {
+      const percent = Number((r as Partial<CategoryResult>)?.percent)
+      const answered = Number((r as Partial<CategoryResult>)?.answered)
+      if (Number.isFinite(percent) && Number.isFinite(answered)) {
+        out[cat] = addResult(out[cat], { percent: Math.max(0, Math.min(100, percent)), answered: Math.max(0, Math.floor(answered)) })
+      }
+    }
   }
+  return out
 }
 
-function readState(): CategoryUnlockSchema {
+function readState(registry: CategoryRegistry): CategoryUnlockSchema {
   try {
     const raw = localStorage.getItem(STORAGE_KEY)
     if (!raw) throw new Error('no state')
@@ -57,45 +90,38 @@ function readState(): CategoryUnlockSchema {
     if (!obj || typeof obj !== 'object') throw new Error('bad state')
     // simple validation and migration
     const unlockedObj = (obj.unlocked ?? {}) as Partial<Record<CategoryKey, unknown>>
-    const unlocked: Record<CategoryKey, boolean> = {
-      gk: !!unlockedObj.gk,
-      sports: !!unlockedObj.sports,
-      movies: !!unlockedObj.movies,
-      science: !!unlockedObj.science,
-      history: !!unlockedObj.history,
-      geography: !!unlockedObj.geography,
+    const unlocked: Record<CategoryKey, boolean> = {}
+    for (const k of Object.keys(unlockedObj)) {
+      if (registry.has(k) && unlockedObj[k] === true) unlocked[k] = true
     }
     const thresholdsRaw = (obj.thresholds ?? {}) as Partial<{ scorePercent: unknown }>
     const rawPct = typeof thresholdsRaw.scorePercent === 'number' ? thresholdsRaw.scorePercent : DEFAULT_THRESH
     const thresholds = { scorePercent: Math.max(0, Math.min(100, rawPct)) }
     const lastUpdated = typeof obj.lastUpdated === 'number' ? obj.lastUpdated : Date.now()
-    const prereqRaw = (obj.prerequisites ?? defaultPrereqs) as Partial<Record<CategoryKey, CategoryKey[]>>
-    const prerequisites: Record<CategoryKey, CategoryKey[]> = {
-      gk: prereqRaw.gk ?? defaultPrereqs.gk,
-      sports: prereqRaw.sports ?? defaultPrereqs.sports,
-      movies: prereqRaw.movies ?? defaultPrereqs.movies,
-      science: prereqRaw.science ?? defaultPrereqs.science,
-      history: prereqRaw.history ?? defaultPrereqs.history,
-      geography: prereqRaw.geography ?? defaultPrereqs.geography,
-    }
+    // only imported graphs are stored for real (v1 always held the defaults); an invalid or cyclic one falls back to the default
+    const customGraph = !!obj.customGraph
+    const parsedGraph: ReturnType<typeof parseUnlockGraph> = customGraph ? parseUnlockGraph(obj.prerequisites, registry.keys) : { ok: false }
+    const prerequisites = parsedGraph.ok && parsedGraph.graph ? parsedGraph.graph : {}
     const dailyCountsForUnlocks = !!obj.dailyCountsForUnlocks
+    const sourcesRaw = (obj.sources ?? {}) as Partial<Record<CategoryKey, unknown>>
+    const sources: Partial<Record<CategoryKey, UnlockSource>> = {}
+    for (const k of registry.keys) {
+      const src = sourcesRaw[k]
+      if (unlocked[k] && (src === 'default' || src === 'earned' || src === 'bought')) sources[k] = src
+    }
     return {
-      version: 1,
+      version: 2,
       unlocked,
+      sources,
       prerequisites,
+      customGraph: customGraph && parsedGraph.ok,
+      results: readResults(obj.results, registry),
       thresholds,
       lastUpdated,
       dailyCountsForUnlocks,
     }
   } catch {
-    return {
-      version: 1,
-      unlocked: defaultUnlocked(),
-      prerequisites: defaultPrereqs,
-      thresholds: { scorePercent: DEFAULT_THRESH },
-      lastUpdated: Date.now(),
-      dailyCountsForUnlocks: false, // default: daily does not count towards unlocks
-    }
+    return defaultState()
   }
 }
 
@@ -107,14 +133,14 @@ function writeState(s: CategoryUnlockSchema) {
   }
 }
 
-function allPrereqsMet(unlocked: Record<CategoryKey, boolean>, prereqs: CategoryKey[]): boolean {
-  return prereqs.every((p) => unlocked[p])
-}
-
 // PUBLIC_INTERFACE
 export const useCategoryUnlockStore = defineStore('categoryUnlocks', () => {
+  const registry = useCategoryRegistryStore()
   /** Persistent state for category unlocks. */
-  const state = ref<CategoryUnlockSchema>(readState())
+  const state = ref<CategoryUnlockSchema>(readState(registry))
+
+  /** The graph in force: the imported one, or the registered categories' defaults. */
+  const graph = computed<UnlockGraph>(() => (state.value.customGraph ? state.value.prerequisites : defaultUnlockGraph(registry.list)))
 
   function persist() {
     state.value.lastUpdated = Date.now()
@@ -123,101 +149,184 @@ export const useCategoryUnlockStore = defineStore('categoryUnlocks', () => {
 
   // PUBLIC_INTERFACE
   function loadUnlocks(): CategoryUnlockSchema {
-    state.value = readState()
+    state.value = readState(registry)
     return state.value
   }
 
   // PUBLIC_INTERFACE
   function resetUnlocks(): void {
-    state.value = {
-      version: 1,
-      unlocked: defaultUnlocked(),
-      prerequisites: defaultPrereqs,
-      thresholds: { scorePercent: DEFAULT_THRESH },
-      lastUpdated: Date.now(),
-      dailyCountsForUnlocks: false,
-    }
+    state.value = defaultState()
     persist()
   }
 
+  // PUBLIC_INTERFACE
+  function setUnlockGraph(value: unknown): { ok: boolean; error?: string; newlyUnlocked?: CategoryKey[] } {
+    /**
+     * Replaces the prerequisite graph (validated, cycles refused). Unlocked categories stay unlocked;
+     * locked ones whose requirements past results already meet are unlocked right away.
+     */
+    const parsed = parseUnlockGraph(value, registry.keys)
+    if (!parsed.ok || !parsed.graph) return { ok: false, error: parsed.error ?? 'Invalid unlock graph' }
+    state.value.prerequisites = parsed.graph
+    state.value.customGraph = true
+    const newlyUnlocked = unlockReady()
+    persist()
+    return { ok: true, newlyUnlocked }
+  }
+
+  // PUBLIC_INTERFACE
+  function resetUnlockGraph(): CategoryKey[] {
+    /** Back to the default graph; returns categories that unlocked as a result. */
+    state.value.prerequisites = {}
+    state.value.customGraph = false
+    const newly = unlockReady()
+    persist()
+    return newly
+  }
+
+  // PUBLIC_INTERFACE
+  function bestAccuracy(category: CategoryKey): number | null {
+    /** Best recorded accuracy in a category (normal quizzes, and daily when it counts); null before any. */
+    const list = state.value.results[category]
+    return list?.length ? Math.max(...list.map((r) => r.percent)) : null
+  }
+
   // PUBLIC_INTERFACE
   function isUnlocked(category: CategoryKey): boolean {
-    return !!state.value.unlocked[category]
+    return !!state.value.unlocked[category] || !!registry.get(category)?.unlock.unlocked
   }
 
   // PUBLIC_INTERFACE
-  function unlock(category: CategoryKey): void {
+  function unlock(category: CategoryKey, source: UnlockSource = 'earned'): void {
     state.value.unlocked[category] = true
+    state.value.sources[category] = source
     persist()
   }
 
+  // PUBLIC_INTERFACE
+  function unlockSource(category: CategoryKey): UnlockSource | null {
+    /** How an unlocked category was unlocked; null while locked. */
+    if (state.value.unlocked[category]) return state.value.sources[category] ?? 'earned'
+    return isUnlocked(category) ? 'default' : null
+  }
+
+  // PUBLIC_INTERFACE
+  function priceFor(category: CategoryKey): number {
+    /** Coins needed to buy the category now; 0 when it is already unlocked or free. */
+    return isUnlocked(category) ? 0 : registry.get(category)?.unlock.price ?? 0
+  }
+
+  // PUBLIC_INTERFACE
+  function buyUnlock(category: CategoryKey): { ok: boolean; error?: string } {
+    /**
+     * Unlocks a category for its coin price. The spend id is per category, so a category that
+     * was bought before a reset of the unlocks is not charged again. Unregistered categories and
+     * categories without a price cannot be bought.
+     */
+    if (!registry.has(category)) return { ok: false, error: 'This category cannot be bought' }
+    if (isUnlocked(category)) return { ok: false, error: 'Already unlocked' }
+    ensureCoinsLoaded()
+    const coins = useCoinsStore()
+    const spendId = CoinIds.categoryUnlock(category)
+    if (!coins.history.some((h) => h.id === spendId)) {
+      const price = priceFor(category)
+      if (price <= 0) return { ok: false, error: 'This category cannot be bought' }
+      if (!coins.spend(price, spendId, { item: 'category', category })) {
+        return { ok: false, error: `You need ${price} coins to unlock ${labelFor(category)}` }
+      }
+    }
+    unlock(category, 'bought')
+    return { ok: true }
+  }
+
   // PUBLIC_INTERFACE
   function getLockedReason(category: CategoryKey): string | null {
+    /** Both ways in: the score prerequisite and the coin price. */
     if (isUnlocked(category)) return null
-    const prereqs = state.value.prerequisites[category] || []
-    if (!prereqs.length) return 'Locked by configuration.'
-    if (prereqs.length === 1) {
-      return `Score ${state.value.thresholds.scorePercent}% in ${labelFor(prereqs[0])} to unlock`
-    }
-    const chain = prereqs.map((c) => labelFor(c)).join(' → ')
-    return `Score ${state.value.thresholds.scorePercent}% in ${chain} to unlock`
+    const price = priceFor(category)
+    const buy = price > 0 ? `unlock for ${price} coins` : null
+    const groups = graph.value[category] || []
+    if (!groups.length) return buy ? `Locked by configuration, or ${buy}` : 'Locked by configuration.'
+    const pct = state.value.thresholds.scorePercent
+    const rule = groups
+      .map((g) => g.map((req) => describeRequirement(req, pct, labelFor)).join(' or '))
+      .join(' and ')
+    const score = `Score ${rule} to unlock`
+    return buy ? `${score}, or ${buy}` : score
   }
 
   function labelFor(cat: CategoryKey): string {
-    const map: Record<CategoryKey, string> = {
-      gk: 'General Knowledge',
-      sports: 'Sports',
-      movies: 'Movies',
-      science: 'Science',
-      history: 'History',
-      geography: 'Geography',
+    return registry.labelFor(cat)
+  }
+
+  // Unlocks every locked category whose requirements the recorded results meet.
+  function unlockReady(): CategoryKey[] {
+    const newly: CategoryKey[] = []
+    for (const k of registry.keys) {
+      if (isUnlocked(k)) continue
+      if (rulesMet(graph.value[k] || [], state.value.results, state.value.thresholds.scorePercent)) {
+        state.value.unlocked[k] = true
+        state.value.sources[k] = 'earned'
+        newly.push(k)
+      }
     }
-    return map[cat] || String(cat)
+    return newly
   }
 
   /**
    * Evaluate unlocks after a quiz result.
+   * Records the attempt (accuracy and answered questions) for the category, then unlocks every
+   * category whose requirements are now passed.
    * Returns list of newly unlocked categories for UI notifications.
    * If the mode is 'daily' and dailyCountsForUnlocks=false, no changes are made.
    */
   // PUBLIC_INTERFACE
-  function evaluateUnlocksFromScore(payload: { category: CategoryKey; accuracyPercent: number; mode?: 'normal' | 'daily' | 'multiplayer' }): CategoryKey[] {
-    const { category, accuracyPercent, mode = 'normal' } = payload
+  function evaluateUnlocksFromScore(payload: {
+    category: CategoryKey
+    accuracyPercent: number
+    // questions answered (not skipped); requirements with minAnswered need it
+    answered?: number
+    mode?: 'normal' | 'daily' | 'multiplayer'
+  }): CategoryKey[] {
+    const { category, accuracyPercent, answered = 0, mode = 'normal' } = payload
     // If daily completions shouldn't count, skip
     if (mode === 'daily' && !state.value.dailyCountsForUnlocks) {
       return []
     }
-    const newly: CategoryKey[] = []
     const threshold = state.value.thresholds.scorePercent
+    if (Number.isFinite(accuracyPercent)) {
+      state.value.results[category] = addResult(state.value.results[category], {
+        percent: Math.max(0, Math.min(100, accuracyPercent)),
+        answered: Math.max(0, Math.floor(answered)),
+      })
+    }
 
     // Mark the played category as unlocked if prerequisites already allowed playing and threshold achieved.
     // (GK is typically unlocked already; this also allows future configs where a locked category could be played via special modes)
-    if (accuracyPercent >= threshold) {
+    if (accuracyPercent >= threshold && !isUnlocked(category)) {
       state.value.unlocked[category] = true
+      state.value.sources[category] = 'earned'
     }
 
-    // Now attempt to unlock other categories whose prerequisites are all met.
-    const keys: CategoryKey[] = ['gk', 'sports', 'movies', 'science', 'history', 'geography']
-    for (const k of keys) {
-      if (state.value.unlocked[k]) continue
-      const prereqCats = state.value.prerequisites[k] || []
-      // prerequisite requirement is that each prereq is unlocked (which implies threshold met previously)
-      if (allPrereqsMet(state.value.unlocked, prereqCats)) {
-        state.value.unlocked[k] = true
-        newly.push(k)
-      }
-    }
-
-    if (newly.length || accuracyPercent >= threshold) persist()
+    // Now unlock other categories whose requirements the recorded results pass.
+    const newly = unlockReady()
+    persist()
     return newly
   }
 
   return {
     state,
+    graph,
     loadUnlocks,
     resetUnlocks,
+    setUnlockGraph,
+    resetUnlockGraph,
+    bestAccuracy,
     isUnlocked,
     unlock,
+    unlockSource,
+    priceFor,
+    buyUnlock,
     evaluateUnlocksFromScore,
     getLockedReason,
   }
@@ -12,6 +12,8 @@ export type CoinReason =
   | 'challenge-win'
   | 'daily-complete'
   | 'bonus'
+  // coins spent in the lifeline shop or on category unlocks
+  | 'purchase'
 
 export interface CoinHistoryItem {
   id: string // idempotency key to prevent duplicates
@@ -19,6 +21,21 @@ export interface CoinHistoryItem {
   delta: number
   reason: CoinReason
   meta?: Record<string, string | number>
+  // chain hash over the previous entry's hash and this entry's fields (see entryHash)
+  hash: string
+}
+
+/**
+ * Result of checking the ledger: the first entry whose hash does not match the chain, or a balance
+ * that is not the sum of the history.
+ */
+export interface LedgerCheck {
+  ok: boolean
+  // version-downgrade: a ledger stored as pre-chain (v1) after the chain was already in use
+  reason: 'hash-mismatch' | 'balance-mismatch' | 'version-downgrade' | null
+  // index into `history` (insertion order) of the first corrupt entry
+  firstBadIndex: number | null
+  firstBadId: string | null
 }
 
 export interface CoinsState {
@@ -27,9 +44,25 @@ export interface CoinsState {
   history: CoinHistoryItem[]
   // marker for version migrations if needed
   _version: number
+  // what load() found; not persisted
+  integrity: LedgerCheck
 }
 
+type PersistedCoins = Omit<CoinsState, 'integrity'>
+
 const STORAGE_KEY = 'coins.v1'
+// v2 adds the hash chain; v1 ledgers are sealed (hashed as they are) on first load
+const LEDGER_VERSION = 2
+// set once a v2 ledger has been saved; after that a v1 ledger is a downgrade, not a migration
+const SEALED_KEY = 'coins.v1.sealed'
+// raw copies of ledgers that failed verification (newest first), kept because the in-memory
+// ledger drops everything after the first bad entry
+const BACKUP_KEY = 'coins.v1.backup'
+const MAX_BACKUPS = 5
+// prev hash of the first entry
+const GENESIS_HASH = '0'
+
+const LEDGER_OK: LedgerCheck = { ok: true, reason: null, firstBadIndex: null, firstBadId: null }
 
 // Tunable earning rules
 export const COIN_RULES = {
@@ -54,6 +87,65 @@ function safeParse<T>(raw: string | null): T | null {
   }
 }
 
+function cyrb53(str: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
+
+/**
+ * Chain hash of an entry. Editing any field, or removing/reordering entries, breaks every hash
+ * after it. There is no secret involved: this detects casual edits of localStorage, it does not
+ * stop someone who recomputes the whole chain.
+ */
+function entryHash(prevHash: string, item: Omit<CoinHistoryItem, 'hash'>): string {
+  return cyrb53(JSON.stringify([prevHash, item.id, item.ts, item.delta, item.reason, item.meta ?? null]))
+}
+
+function lastHash(history: CoinHistoryItem[]): string {
+  return history.length ? history[history.length - 1].hash : GENESIS_HASH
+}
+
+function sumDeltas(history: CoinHistoryItem[], positiveOnly = false): number {
+  return history.reduce((sum, h) => {
+    const d = Number(h.delta) || 0
+    return positiveOnly && d <= 0 ? sum : sum + d
+  }, 0)
+}
+
+function checkChain(history: CoinHistoryItem[]): LedgerCheck {
+  let prev = GENESIS_HASH
+  for (let i = 0; i < history.length; i++) {
+    const h = history[i]
+    if (!h || typeof h.hash !== 'string' || h.hash !== entryHash(prev, h)) {
+      return { ok: false, reason: 'hash-mismatch', firstBadIndex: i, firstBadId: h && typeof h.id === 'string' ? h.id : null }
+    }
+    prev = h.hash
+  }
+  return LEDGER_OK
+}
+
+function isV1Shaped(history: unknown[]): boolean {
+  return history.every(h => !!h && typeof h === 'object' && !('hash' in h))
+}
+
+function backupLedger(raw: string) {
+  try {
+    const list = safeParse<Array<{ ts: number; raw: string }>>(localStorage.getItem(BACKUP_KEY)) ?? []
+    if (list.some(b => b.raw === raw)) return
+    localStorage.setItem(BACKUP_KEY, JSON.stringify([{ ts: nowTs(), raw }, ...list].slice(0, MAX_BACKUPS)))
+  } catch {
+    // ignore
+  }
+}
+
 /**
  * PUBLIC_INTERFACE
  * Coins store to manage in-app coin balance with persistence and idempotent award history.
@@ -63,7 +155,8 @@ export const useCoinsStore = defineStore('coins', {
     balance: 0,
     lifetimeEarned: 0,
     history: [],
-    _version: 1,
+    _version: LEDGER_VERSION,
+    integrity: LEDGER_OK,
   }),
   getters: {
     /**
@@ -95,34 +188,78 @@ export const useCoinsStore = defineStore('coins', {
     /**
      * PUBLIC_INTERFACE
      * Load coins state from localStorage.
+     * The stored balance and lifetime total are not trusted: both are recomputed from the history.
+     * A pre-chain (v1) ledger is sealed once, only if none of its entries carry a hash and no v2
+     * ledger was saved before; any other v1 ledger fails as a version downgrade.
+     * When verification fails, the in-memory ledger keeps the entries before the first bad one,
+     * the stored ledger is copied to BACKUP_KEY and nothing is written back; `integrity` reports it.
      */
     load(): void {
-      const parsed = safeParse<CoinsState>(localStorage.getItem(STORAGE_KEY))
+      const raw = localStorage.getItem(STORAGE_KEY)
+      const parsed = safeParse<PersistedCoins>(raw)
       if (parsed && typeof parsed.balance === 'number') {
-        // simple versioning hook: if future migration required, handle by _version
-        this.balance = parsed.balance
-        this.lifetimeEarned = parsed.lifetimeEarned ?? parsed.history
-          .filter(h => h.delta > 0)
-          .reduce((sum, h) => sum + h.delta, 0)
-        this.history = Array.isArray(parsed.history) ? parsed.history : []
-        this._version = 1
+        let history: CoinHistoryItem[] = Array.isArray(parsed.history) ? parsed.history : []
+        const legacy = (parsed._version ?? 1) < LEDGER_VERSION
+        const migrate = legacy && localStorage.getItem(SEALED_KEY) == null && isV1Shaped(history)
+        if (migrate) {
+          // v1 entries carry no hash; seal them as they are
+          let prev = GENESIS_HASH
+          history = history.map(h => {
+            const sealed = { ...h, hash: entryHash(prev, h) }
+            prev = sealed.hash
+            return sealed
+          })
+        }
+        let check = checkChain(history)
+        const verified = check.ok || check.firstBadIndex == null ? history : history.slice(0, check.firstBadIndex)
+        const balance = sumDeltas(verified)
+        if (check.ok && legacy && !migrate) {
+          check = { ok: false, reason: 'version-downgrade', firstBadIndex: null, firstBadId: null }
+        } else if (check.ok && balance !== parsed.balance) {
+          check = { ok: false, reason: 'balance-mismatch', firstBadIndex: null, firstBadId: null }
+        }
+        this.history = verified
+        this.balance = balance
+        this.lifetimeEarned = sumDeltas(verified, true)
+        this._version = LEDGER_VERSION
+        this.integrity = check
+        if (!check.ok) {
+          console.warn('Coins ledger failed verification; the stored copy was backed up', check)
+          if (raw) backupLedger(raw)
+        } else if (migrate) {
+          this.save()
+        }
       } else {
         // initialize empty persisted state
         this.save()
       }
     },
+    /**
+     * PUBLIC_INTERFACE
+     * Checks the in-memory ledger: every hash must match the chain and the balance must equal
+     * the sum of the history. Reports the first corrupt entry.
+     */
+    verifyLedger(): LedgerCheck {
+      const check = checkChain(this.history)
+      if (!check.ok) return check
+      if (this.balance !== sumDeltas(this.history)) {
+        return { ok: false, reason: 'balance-mismatch', firstBadIndex: null, firstBadId: null }
+      }
+      return LEDGER_OK
+    },
     /**
      * PUBLIC_INTERFACE
      * Persist current state to localStorage.
      */
     save(): void {
-      const payload: CoinsState = {
+      const payload: PersistedCoins = {
         balance: this.balance,
         lifetimeEarned: this.lifetimeEarned,
         history: this.history,
         _version: this._version,
       }
       localStorage.setItem(STORAGE_KEY, JSON.stringify(payload))
+      localStorage.setItem(SEALED_KEY, '1')
     },
     /**
      * PUBLIC_INTERFACE
@@ -140,14 +277,8 @@ export const useCoinsStore = defineStore('coins', {
       if (this.history.find(h => h.id === id)) {
         return
       }
-      const item: CoinHistoryItem = {
-        id,
-        ts: nowTs(),
-        delta,
-        reason,
-        meta,
-      }
-      this.history.push(item)
+      const entry = { id, ts: nowTs(), delta, reason, meta }
+      this.history.push({ ...entry, hash: entryHash(lastHash(this.history), entry) })
       this.balance += delta
       if (delta > 0) this.lifetimeEarned += delta
       this.save()
@@ -160,13 +291,14 @@ export const useCoinsStore = defineStore('coins', {
       this.balance = 0
       this.lifetimeEarned = 0
       this.history = []
-      this._version = 1
+      this._version = LEDGER_VERSION
+      this.integrity = LEDGER_OK
       this.save()
     },
     /**
-     * Optional: Spend API for future shop.
      * PUBLIC_INTERFACE
-     * Attempts to spend amount; returns true if success, false if insufficient.
+     * Spends coins on a purchase (lifeline shop, category unlocks); returns true if success, false if insufficient.
+     * Idempotent by id like add().
      */
     spend(amount: number, id: string, meta?: Record<string, string | number>): boolean {
       if (amount <= 0) return true
@@ -175,13 +307,8 @@ export const useCoinsStore = defineStore('coins', {
       if (id && this.history.find(h => h.id === id)) {
         return true
       }
-      this.history.push({
-        id,
-        ts: nowTs(),
-        delta: -amount,
-        reason: 'bonus', // spending categorized under 'bonus' for now; can expand enum later if needed
-        meta: { ...(meta ?? {}), type: 'spend' },
-      })
+      const entry = { id, ts: nowTs(), delta: -amount, reason: 'purchase' as const, meta }
+      this.history.push({ ...entry, hash: entryHash(lastHash(this.history), entry) })
       this.balance -= amount
       // lifetimeEarned should not decrease on spend
       this.save()
@@ -200,6 +327,8 @@ export const CoinIds = {
     `mw:${roomCode}:${round}:${userId}`,
   multiplayerParticipation: (roomCode: string, round: number, userId: string) =>
     `mp:${roomCode}:${round}:${userId}`,
+  purchase: (purchaseId: string) => `pu:${purchaseId}`,
+  categoryUnlock: (category: string) => `cu:${category}`,
 } as const
 
 // PUBLIC_INTERFACE
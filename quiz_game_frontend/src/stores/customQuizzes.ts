@@ -1,15 +1,34 @@
 import { defineStore } from 'pinia'
+import { detectDelimiter, parseDelimited, toDelimited, type Delimiter } from '@/utils/csv'
+import {
+  isPlayableQuestionRecord,
+  parseQuestionShape,
+  type NumericTolerance,
+  type QuestionMedia,
+  type QuestionType,
+  type QuizQuestion,
+} from '@/stores/quiz'
+import { parseNumericInput, parseQuestionType, type ScoringPolicy } from '@/utils/answers'
+import { isInlineMedia, mediaKindOf, parseQuestionMedia } from '@/utils/media'
+import { parseTimerSettings, type TimerSettings } from '@/utils/timer'
 
 export type CustomQuizVisibility = 'private' | 'link'
 
 export type CustomQuizQuestion = {
   id: string
   text: string
-  options: string[] // 2-6
-  correctIndex: number
+  options: string[] // 2-6; empty for text/numeric
+  correctIndex: number // first correct option for multi questions; -1 for text/numeric
+  type?: QuestionType // missing = 'single'
+  correctIndices?: number[] // multi only
+  acceptedAnswers?: string[] // text only; first is shown as the answer
+  fuzzyTolerance?: number // text only; max typo edits
+  numericAnswer?: number // numeric only
+  tolerance?: NumericTolerance // numeric only
   explanation?: string
   hint?: string
   referenceUrl?: string
+  media?: QuestionMedia // uploads are stored as data URLs (utils/media.ts)
 }
 
 export type CustomQuizAuthor = { name?: string }
@@ -24,8 +43,17 @@ export type CustomQuiz = {
   updatedAt: number
   questions: CustomQuizQuestion[]
   author?: CustomQuizAuthor
+  // how multi-select questions are scored when playing this quiz; missing = player's preference
+  scoringPolicy?: ScoringPolicy
+  // timer for this quiz; missing = player's preference
+  timer?: TimerSettings
 }
 
+export type DelimitedFormat = 'csv' | 'tsv'
+
+/** One rejected spreadsheet row; `row` is the 1-based line number as shown by the spreadsheet. */
+export type DelimitedRowError = { row: number; reason: string }
+
 type PersistShape = {
   version: number
   quizzes: CustomQuiz[]
@@ -33,6 +61,23 @@ type PersistShape = {
 
 const STORAGE_KEY = 'customQuizzes.v1'
 const STORAGE_VERSION = 1
+const MAX_QUESTIONS = 200
+const MAX_OPTIONS = 6
+
+// Spreadsheet columns for CSV/TSV round-tripping (header row is optional on import)
+const DELIMITED_COLUMNS = [
+  'text',
+  ...Array.from({ length: MAX_OPTIONS }, (_, i) => `option${i + 1}`),
+  'correct',
+  'explanation',
+  'hint',
+  'referenceUrl',
+  'type',
+  'tolerance',
+  'mediaUrl',
+  'mediaAlt',
+  'mediaCredit',
+]
 
 function now(): number {
   return Date.now()
@@ -122,6 +167,59 @@ function utf8Decode(bytes: Uint8Array): string {
   return new TextDecoder().decode(bytes)
 }
 
+type QuestionShapeIn = {
+  type?: unknown
+  correctIndices?: unknown
+  acceptedAnswers?: unknown
+  fuzzyTolerance?: unknown
+  numericAnswer?: unknown
+  tolerance?: unknown
+}
+type QuestionShapeOut = Pick<
+  CustomQuizQuestion,
+  'type' | 'correctIndex' | 'correctIndices' | 'acceptedAnswers' | 'fuzzyTolerance' | 'numericAnswer' | 'tolerance'
+>
+
+/**
+ * Resolve type/correct fields for sanitized options, reusing the runtime question parser.
+ * Multi questions need at least one valid index and fall back to single; boolean questions need
+ * exactly two options; text/numeric questions without an answer key yield null (dropped).
+ */
+function questionShape(raw: QuestionShapeIn, options: string[], correctIndex: number): QuestionShapeOut | null {
+  const rec: Record<string, unknown> = {
+    question: '',
+    options,
+    answerIndex: correctIndex,
+    type: raw.type,
+    answerIndices: raw.correctIndices,
+    acceptedAnswers: raw.acceptedAnswers,
+    fuzzyTolerance: raw.fuzzyTolerance,
+    numericAnswer: raw.numericAnswer,
+    tolerance: raw.tolerance,
+  }
+  if (!isPlayableQuestionRecord(rec)) return null
+  const shape = parseQuestionShape(rec, options.length)
+  if (shape.type === 'text' || shape.type === 'numeric') {
+    const { type, acceptedAnswers, fuzzyTolerance, numericAnswer, tolerance } = shape
+    return { type, acceptedAnswers, fuzzyTolerance, numericAnswer, tolerance, correctIndex: -1 }
+  }
+  if (shape.type === 'multi' && shape.answerIndices) {
+    return { type: 'multi', correctIndex: shape.answerIndices[0], correctIndices: shape.answerIndices }
+  }
+  if (shape.type === 'boolean' && options.length === 2) return { type: 'boolean', correctIndex }
+  return { correctIndex }
+}
+
+function hasAnswerKey(qq: CustomQuizQuestion): boolean {
+  if (qq.type === 'text') return !!qq.acceptedAnswers?.length
+  if (qq.type === 'numeric') return typeof qq.numericAnswer === 'number'
+  return qq.options.length >= 2 && qq.correctIndex >= 0 && qq.correctIndex < qq.options.length
+}
+
+function isTrueFalse(options: string[]): boolean {
+  return options.length === 2 && options[0].toLowerCase() === 'true' && options[1].toLowerCase() === 'false'
+}
+
 /**
  * Validate and sanitize a candidate CustomQuiz object.
  */
@@ -139,11 +237,14 @@ function sanitizeQuiz(q: Partial<CustomQuiz>): CustomQuiz | null {
     q.author && typeof q.author === 'object'
       ? { name: typeof q.author.name === 'string' ? q.author.name : undefined }
       : undefined
+  const scoringPolicy: ScoringPolicy | undefined =
+    q.scoringPolicy === 'partial' || q.scoringPolicy === 'all-or-nothing' ? q.scoringPolicy : undefined
+  const timer = parseTimerSettings(q.timer) ?? undefined
 
   const questions = Array.isArray(q.questions) ? q.questions : []
   const cleanedQuestions: CustomQuizQuestion[] = questions
     .filter((qq) => !!qq && typeof qq === 'object')
-    .map((qq) => {
+    .map((qq): CustomQuizQuestion | null => {
       const id = typeof (qq as CustomQuizQuestion).id === 'string' && (qq as CustomQuizQuestion).id
         ? (qq as CustomQuizQuestion).id
         : uuid()
@@ -160,10 +261,14 @@ function sanitizeQuiz(q: Partial<CustomQuiz>): CustomQuiz | null {
         typeof (qq as CustomQuizQuestion).referenceUrl === 'string'
           ? (qq as CustomQuizQuestion).referenceUrl
           : undefined
-      return { id, text, options, correctIndex, explanation, hint, referenceUrl }
+      const shape = questionShape(qq as CustomQuizQuestion, options, correctIndex)
+      if (!shape) return null
+      const typed = shape.type === 'text' || shape.type === 'numeric'
+      const media = parseQuestionMedia((qq as CustomQuizQuestion).media)
+      return { id, text, options: typed ? [] : options, ...shape, explanation, hint, referenceUrl, media }
     })
-    .filter((qq) => qq.text && qq.options.length >= 2 && qq.correctIndex >= 0 && qq.correctIndex < qq.options.length)
-    .slice(0, 200)
+    .filter((qq): qq is CustomQuizQuestion => !!qq && !!qq.text && hasAnswerKey(qq))
+    .slice(0, MAX_QUESTIONS)
 
   if (!cleanedQuestions.length) return null
 
@@ -177,9 +282,162 @@ function sanitizeQuiz(q: Partial<CustomQuiz>): CustomQuiz | null {
     updatedAt,
     questions: cleanedQuestions,
     author,
+    scoringPolicy,
+    timer,
+  }
+}
+
+/**
+ * Convert one spreadsheet row (keyed by column name) to a question, or return the rejection reason.
+ * `correct` is a 1-based option number or the literal option text (case-insensitive); multi questions
+ * list several, separated by ";". `type` (single/multi/boolean/text/numeric) is optional: several correct
+ * answers imply multi, and True/False options imply boolean.
+ * Typed questions leave the option columns empty: text lists accepted answers in `correct` (";"-separated)
+ * with max typo edits in `tolerance`; numeric puts the number in `correct` and `tolerance` as an absolute
+ * value and/or a percentage ("0.5", "5%", "0.5;5%").
+ */
+function delimitedRowToQuestion(cells: Record<string, string>): CustomQuizQuestion | string {
+  const text = (cells.text ?? '').trim()
+  if (!text) return 'missing question text'
+  const correctRaw = (cells.correct ?? '').trim()
+  if (!correctRaw) return 'missing correct answer'
+  const typeRaw = (cells.type ?? '').trim()
+  const declaredType = typeRaw ? parseQuestionType(typeRaw) : undefined
+  if (typeRaw && !declaredType) return `unknown type "${typeRaw}" (use single, multi, boolean, text or numeric)`
+  const toleranceRaw = (cells.tolerance ?? '').trim()
+  const referenceUrl = (cells.referenceurl ?? '').trim()
+  if (referenceUrl && !/^https?:\/\//i.test(referenceUrl)) return 'referenceUrl must start with http:// or https://'
+  const mediaUrl = (cells.mediaurl ?? '').trim()
+  const mediaAlt = (cells.mediaalt ?? '').trim()
+  let media: QuestionMedia | undefined
+  if (mediaUrl) {
+    if (!mediaAlt) return 'mediaAlt is required when mediaUrl is set'
+    media = parseQuestionMedia({ kind: mediaKindOf(mediaUrl), src: mediaUrl, alt: mediaAlt, credit: cells.mediacredit })
+    if (!media) return 'mediaUrl must be an http(s) URL or an image/audio data URL'
+  }
+  const extras = {
+    explanation: (cells.explanation ?? '').trim() || undefined,
+    hint: (cells.hint ?? '').trim() || undefined,
+    referenceUrl: referenceUrl || undefined,
+    media,
+  }
+
+  if (declaredType === 'text') {
+    const acceptedAnswers = [...new Set(correctRaw.split(';').map((p) => p.trim()).filter(Boolean))]
+    const fuzzy = toleranceRaw ? Number(toleranceRaw) : 0
+    if (!Number.isInteger(fuzzy) || fuzzy < 0) return `tolerance "${toleranceRaw}" must be a whole number of edits`
+    return {
+      id: uuid(),
+      text,
+      options: [],
+      correctIndex: -1,
+      type: 'text',
+      acceptedAnswers,
+      ...(fuzzy > 0 ? { fuzzyTolerance: fuzzy } : {}),
+      ...extras,
+    }
+  }
+  if (declaredType === 'numeric') {
+    const numericAnswer = parseNumericInput(correctRaw)
+    if (numericAnswer === null) return `correct answer "${correctRaw}" is not a number`
+    const tolerance: NumericTolerance = {}
+    for (const part of toleranceRaw.split(';').map((p) => p.trim()).filter(Boolean)) {
+      const pct = part.endsWith('%')
+      const n = parseNumericInput(pct ? part.slice(0, -1) : part)
+      if (n === null || n < 0) return `tolerance "${part}" must be a non-negative number or percentage`
+      if (pct) tolerance.relative = n / 100
+      else tolerance.absolute = n
+    }
+    return {
+      id: uuid(),
+      text,
+      options: [],
+      correctIndex: -1,
+      type: 'numeric',
+      numericAnswer,
+      ...(tolerance.absolute != null || tolerance.relative != null ? { tolerance } : {}),
+      ...extras,
+    }
+  }
+
+  const columns = Array.from({ length: MAX_OPTIONS }, (_, i) => (cells[`option${i + 1}`] ?? '').trim())
+  const options = columns.filter((o) => o.length > 0)
+  if (options.length < 2) return 'needs at least 2 options'
+
+  const correctIndices: number[] = []
+  for (const part of correctRaw.split(';').map((p) => p.trim()).filter(Boolean)) {
+    let idx = -1
+    if (/^\d+$/.test(part)) {
+      const n = Number(part)
+      if (n >= 1 && n <= MAX_OPTIONS && columns[n - 1]) {
+        // map the column number onto the compacted options list (blank columns are dropped)
+        idx = columns.slice(0, n - 1).filter((o) => o.length > 0).length
+      }
+    }
+    if (idx < 0) {
+      idx = options.findIndex((o) => o.toLowerCase() === part.toLowerCase())
+    }
+    if (idx < 0) {
+      return /^\d+$/.test(part)
+        ? `correct option ${part} is empty or out of range (1–${MAX_OPTIONS})`
+        : `correct answer "${part}" does not match any option`
+    }
+    if (!correctIndices.includes(idx)) correctIndices.push(idx)
+  }
+  correctIndices.sort((a, b) => a - b)
+
+  const type: QuestionType =
+    declaredType ?? (correctIndices.length > 1 ? 'multi' : isTrueFalse(options) ? 'boolean' : 'single')
+  if (type !== 'multi' && correctIndices.length > 1) return `${type} questions take exactly one correct answer`
+  if (type === 'boolean' && options.length !== 2) return 'boolean questions need exactly 2 options'
+
+  return {
+    id: uuid(),
+    text,
+    options,
+    correctIndex: correctIndices[0],
+    ...(type === 'single' ? {} : { type }),
+    ...(type === 'multi' ? { correctIndices } : {}),
+    ...extras,
   }
 }
 
+function delimitedCorrectCell(x: CustomQuizQuestion): string {
+  if (x.type === 'text') return (x.acceptedAnswers ?? []).join(';')
+  if (x.type === 'numeric') return String(x.numericAnswer ?? '')
+  return (x.type === 'multi' && x.correctIndices ? x.correctIndices : [x.correctIndex]).map((i) => i + 1).join(';')
+}
+
+function delimitedToleranceCell(x: CustomQuizQuestion): string {
+  if (x.type === 'text') return x.fuzzyTolerance ? String(x.fuzzyTolerance) : ''
+  if (x.type !== 'numeric' || !x.tolerance) return ''
+  const parts: string[] = []
+  if (x.tolerance.absolute != null) parts.push(String(x.tolerance.absolute))
+  if (x.tolerance.relative != null) parts.push(`${Number((x.tolerance.relative * 100).toPrecision(6))}%`)
+  return parts.join(';')
+}
+
+// PUBLIC_INTERFACE
+export function customQuizQuestions(quiz: CustomQuiz | null): QuizQuestion[] {
+  /** Maps a custom quiz to playable questions (custom play and multiplayer rooms). */
+  return (quiz?.questions || []).map((it, i) => ({
+    id: it.id || i + 1,
+    question: it.text,
+    options: it.options,
+    answerIndex: it.correctIndex,
+    type: it.type,
+    answerIndices: it.type === 'multi' ? it.correctIndices : undefined,
+    acceptedAnswers: it.type === 'text' ? it.acceptedAnswers : undefined,
+    fuzzyTolerance: it.type === 'text' ? it.fuzzyTolerance : undefined,
+    numericAnswer: it.type === 'numeric' ? it.numericAnswer : undefined,
+    tolerance: it.type === 'numeric' ? it.tolerance : undefined,
+    explanation: it.explanation,
+    referenceUrl: it.referenceUrl,
+    hint: it.hint,
+    media: it.media,
+  }))
+}
+
 // PUBLIC_INTERFACE
 export const useCustomQuizzesStore = defineStore('customQuizzes', {
   state: () => ({
@@ -296,6 +554,79 @@ export const useCustomQuizzesStore = defineStore('customQuizzes', {
         return { ok: false, error: msg }
       }
     },
+    /** PUBLIC_INTERFACE
+     * Export a quiz as CSV or TSV with columns text, option1..option6, correct (1-based, ";"-separated
+     * for multi; accepted answers / number for typed questions), explanation, hint, referenceUrl, type, tolerance,
+     * mediaUrl, mediaAlt, mediaCredit (uploaded media is written as a data URL).
+     */
+    exportQuizDelimited(id: string, format: DelimitedFormat = 'csv'): { ok: boolean; text?: string; error?: string } {
+      const q = this.get(id)
+      if (!q) return { ok: false, error: 'Quiz not found' }
+      const delimiter: Delimiter = format === 'tsv' ? '\t' : ','
+      const rows = q.questions.map((x) => [
+        x.text,
+        ...Array.from({ length: MAX_OPTIONS }, (_, i) => x.options[i] ?? ''),
+        delimitedCorrectCell(x),
+        x.explanation ?? '',
+        x.hint ?? '',
+        x.referenceUrl ?? '',
+        x.type ?? 'single',
+        delimitedToleranceCell(x),
+        x.media?.src ?? '',
+        x.media?.alt ?? '',
+        x.media?.credit ?? '',
+      ])
+      return { ok: true, text: toDelimited([DELIMITED_COLUMNS, ...rows], delimiter) }
+    },
+    /** PUBLIC_INTERFACE
+     * Import a quiz from CSV/TSV text (delimiter auto-detected unless format is given).
+     * Valid rows become questions; every rejected row is reported with its row number and reason.
+     */
+    importQuizDelimited(
+      text: string,
+      opts: { title?: string; format?: DelimitedFormat } = {}
+    ): { ok: boolean; quiz?: CustomQuiz; errors: DelimitedRowError[]; error?: string } {
+      const delimiter: Delimiter = opts.format ? (opts.format === 'tsv' ? '\t' : ',') : detectDelimiter(text)
+      const rows = parseDelimited(text, delimiter)
+      const first = rows[0]?.map((c) => c.trim().toLowerCase()) ?? []
+      const hasHeader = first.includes('text') && first.includes('correct')
+      const columns = hasHeader ? first : DELIMITED_COLUMNS.map((c) => c.toLowerCase())
+
+      const errors: DelimitedRowError[] = []
+      const questions: CustomQuizQuestion[] = []
+      rows.forEach((cellsIn, i) => {
+        if (hasHeader && i === 0) return
+        if (cellsIn.every((c) => !c.trim())) return // blank line
+        const row = i + 1
+        if (questions.length >= MAX_QUESTIONS) {
+          errors.push({ row, reason: `quiz limit of ${MAX_QUESTIONS} questions reached` })
+          return
+        }
+        const cells: Record<string, string> = {}
+        columns.forEach((name, ci) => {
+          if (name) cells[name] = cellsIn[ci] ?? ''
+        })
+        const res = delimitedRowToQuestion(cells)
+        if (typeof res === 'string') errors.push({ row, reason: res })
+        else questions.push(res)
+      })
+      if (!questions.length) {
+        return { ok: false, errors, error: errors.length ? 'No valid rows' : 'File is empty' }
+      }
+      const sanitized = sanitizeQuiz({
+        id: uuid(),
+        title: opts.title?.trim() || 'Imported quiz',
+        visibility: 'private',
+        createdAt: now(),
+        updatedAt: now(),
+        questions,
+      })
+      if (!sanitized) return { ok: false, errors, error: 'Invalid quiz content' }
+      if (!this.loaded) this.load()
+      this.quizzes.unshift(sanitized)
+      this.save()
+      return { ok: true, quiz: sanitized, errors }
+    },
     /** PUBLIC_INTERFACE
      * Encode a quiz to a short, URL-safe token for sharing via link.
      */
@@ -310,13 +641,22 @@ export const useCustomQuizzesStore = defineStore('customQuizzes', {
           c: q.category ?? null,
           v: q.visibility,
           a: q.author?.name ?? null,
+          // scoring policy, timer and per-question type/indices are omitted when default to keep links short
+          ...(q.scoringPolicy ? { s: q.scoringPolicy } : {}),
+          ...(q.timer ? { k: q.timer } : {}),
           q: q.questions.map((x) => ({
             t: x.text,
             o: x.options,
             c: x.correctIndex,
+            ...(x.type && x.type !== 'single' ? { y: x.type } : {}),
+            ...(x.type === 'multi' && x.correctIndices ? { m: x.correctIndices } : {}),
+            ...(x.type === 'text' ? { x: x.acceptedAnswers, f: x.fuzzyTolerance ?? null } : {}),
+            ...(x.type === 'numeric' ? { n: x.numericAnswer, u: x.tolerance ?? null } : {}),
             e: x.explanation ?? null,
             h: x.hint ?? null,
             r: x.referenceUrl ?? null,
+            // uploaded (data URL) media is left out: it would make the link far too long
+            ...(x.media && !isInlineMedia(x.media) ? { g: x.media } : {}),
           })),
         }
         const json = JSON.stringify(payload)
@@ -345,16 +685,24 @@ export const useCustomQuizzesStore = defineStore('customQuizzes', {
         const authorName = typeof rec.a === 'string' ? rec.a : undefined
         const questionsIn = Array.isArray(rec.q) ? (rec.q as Array<Record<string, unknown>>) : []
         const questions: CustomQuizQuestion[] = questionsIn
-          .map((r) => {
+          .map((r): CustomQuizQuestion | null => {
             const text = typeof r.t === 'string' ? r.t.trim() : ''
             const options = Array.isArray(r.o) ? (r.o as unknown[]).map(String).filter((s) => s.length > 0).slice(0, 6) : []
             const correctIndex = Number(r.c)
             const explanation = typeof r.e === 'string' ? r.e : undefined
             const hint = typeof r.h === 'string' ? r.h : undefined
             const referenceUrl = typeof r.r === 'string' ? r.r : undefined
-            return { id: uuid(), text, options, correctIndex, explanation, hint, referenceUrl }
+            const shape = questionShape(
+              { type: r.y, correctIndices: r.m, acceptedAnswers: r.x, fuzzyTolerance: r.f, numericAnswer: r.n, tolerance: r.u },
+              options,
+              correctIndex
+            )
+            if (!shape) return null
+            const typed = shape.type === 'text' || shape.type === 'numeric'
+            const media = parseQuestionMedia(r.g)
+            return { id: uuid(), text, options: typed ? [] : options, ...shape, explanation, hint, referenceUrl, media }
           })
-          .filter((qq) => qq.text && qq.options.length >= 2 && qq.correctIndex >= 0 && qq.correctIndex < qq.options.length)
+          .filter((qq): qq is CustomQuizQuestion => !!qq && !!qq.text && hasAnswerKey(qq))
         const draft: Partial<CustomQuiz> = {
           id: uuid(),
           title,
@@ -365,6 +713,8 @@ export const useCustomQuizzesStore = defineStore('customQuizzes', {
           updatedAt: now(),
           questions,
           author: authorName ? { name: authorName } : undefined,
+          scoringPolicy: rec.s === 'partial' || rec.s === 'all-or-nothing' ? rec.s : undefined,
+          timer: parseTimerSettings(rec.k) ?? undefined,
         }
         const sanitized = sanitizeQuiz(draft)
         if (!sanitized) return { ok: false, error: 'Invalid quiz content' }
@@ -376,6 +726,8 @@ export const useCustomQuizzesStore = defineStore('customQuizzes', {
           visibility: sanitized.visibility,
           questions: sanitized.questions,
           author: sanitized.author,
+          scoringPolicy: sanitized.scoringPolicy,
+          timer: sanitized.timer,
         }
         return { ok: true, quiz: out }
       } catch (e: unknown) {
@@ -1,8 +1,15 @@
 import { defineStore } from 'pinia'
 import { ensureCoinsLoaded, useCoinsStore, COIN_RULES, CoinIds } from './coins'
 import { ref, computed } from 'vue'
-import type { QuizQuestion, CategoryKey } from '@/stores/quiz'
-import pools from '@/utils/pools'
+import type { QuizQuestion, CategoryKey, SelectedAnswer } from '@/stores/quiz'
+import { resolveQuestions } from '@/utils/questionSources'
+import { answerCredit, correctIndicesOf, fiftyFiftyAvailable, isTypedQuestion, type AnswerValue } from '@/utils/answers'
+import { useUiPreferencesStore } from './uiPreferences'
+import { useLifelineShopStore } from './lifelineShop'
+import { useCategoryRegistryStore } from './categories'
+import { useReviewDeckStore } from './reviewDeck'
+import { builtinCategory } from '@/utils/categories'
+import type { LifelineFlags, LifelineKind } from '@/utils/lifelines'
 
 /**
  * Daily quiz store handles:
@@ -38,17 +45,12 @@ type DailySessionSchema = {
   dailyCategory: CategoryKey | null
   questions: QuizQuestion[]
   currentIndex: number
-  selectedAnswers: Record<string | number, number | 'SKIPPED'>
+  selectedAnswers: Record<string | number, SelectedAnswer>
   score: number
   startedAt: number
   updatedAt: number
   // reuse some lifelines-state interface from quiz store
-  lifelines: {
-    fiftyFiftyUsed: boolean
-    skipUsed: boolean
-    extraTimeUsed: boolean
-    askHintUsed: boolean
-  }
+  lifelines: LifelineFlags
   fiftyFiftyHidden: Record<string | number, number[]>
   hintShown: Record<string | number, boolean>
 }
@@ -96,18 +98,6 @@ function makeRng(seed: number) {
   }
 }
 
-// Deterministically pick N unique indices from an array
-function pickDeterministic<T>(arr: T[], n: number, rng: () => number): T[] {
-  const indices = arr.map((_, i) => i)
-  // Partial Fisher-Yates using RNG
-  for (let i = indices.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1))
-    ;[indices[i], indices[j]] = [indices[j], indices[i]]
-  }
-  const slice = indices.slice(0, Math.min(n, indices.length))
-  return slice.map(i => arr[i])
-}
-
 // PUBLIC_INTERFACE
 export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   // runtime state for UI
@@ -115,6 +105,10 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   const currentIndex = ref(0)
   const score = ref(0)
   const selectedIndex = ref<number | null>(null)
+  // ticked options for multi questions
+  const selectedIndices = ref<number[]>([])
+  // typed input for text/numeric questions
+  const typedAnswer = ref('')
   const hasSubmitted = ref(false)
   const loading = ref(false)
   const error = ref<string | null>(null)
@@ -127,8 +121,8 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   const streakCount = ref<number>(0)
 
   // per-question states
-  const selectedAnswers = ref<Record<string | number, number | 'SKIPPED'>>({})
-  const lifelines = ref({
+  const selectedAnswers = ref<Record<string | number, SelectedAnswer>>({})
+  const lifelines = ref<LifelineFlags>({
     fiftyFiftyUsed: false,
     skipUsed: false,
     extraTimeUsed: false,
@@ -140,6 +134,10 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   const total = computed(() => questions.value.length)
   const current = computed(() => questions.value[currentIndex.value] || null)
   const isLast = computed(() => currentIndex.value >= total.value - 1)
+  const hasSelection = computed(() => {
+    if (isTypedQuestion(current.value)) return typedAnswer.value.trim().length > 0
+    return current.value?.type === 'multi' ? selectedIndices.value.length > 0 : selectedIndex.value !== null
+  })
 
   function readPersist(): DailyPersistent {
     try {
@@ -231,40 +229,18 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
       dailyDate.value = today
       dailyCategory.value = category
       dailySeed.value = buildSeed(today, category)
-      // deterministically compute set
-      const seedNum = seededHash(dailySeed.value)
-      const rng = makeRng(seedNum)
-
-      // Pool aggregation: if category null, mix all categories evenly-ish
-      let source: QuizQuestion[] = []
-      try {
-        const { useOfflineStore } = await import('./offline')
-        const offline = useOfflineStore()
-        if (offline.enabled) {
-          if (category) {
-            source = offline.getPack(category)?.questions ?? []
-          } else {
-            source = offline.categories.flatMap((c) => offline.getPack(c)?.questions ?? [])
-          }
-        }
-      } catch {}
-      if (!source.length) {
-        if (category) {
-          source = pools[category] ?? []
-        } else {
-          const all: QuizQuestion[] = Object.values(pools).flat()
-          source = all
-        }
-      }
-      if (!source.length) {
-        throw new Error('No questions available')
+      // deterministically compute set; category null mixes all categories
+      const { questions: set, errors } = await resolveQuestions(category, count, { seed: dailySeed.value })
+      if (!set.length) {
+        throw new Error(errors[0] ?? 'No questions available')
       }
-      const set = pickDeterministic(source, count, rng)
       questions.value = set
       // reset runtime
       currentIndex.value = 0
       score.value = 0
       selectedIndex.value = null
+      selectedIndices.value = []
+      typedAnswer.value = ''
       hasSubmitted.value = false
       selectedAnswers.value = {}
       lifelines.value = { fiftyFiftyUsed: false, skipUsed: false, extraTimeUsed: false, askHintUsed: false }
@@ -334,6 +310,8 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     fiftyFiftyHidden.value = s.fiftyFiftyHidden || {}
     hintShown.value = s.hintShown || {}
     selectedIndex.value = null
+    selectedIndices.value = []
+    typedAnswer.value = ''
     hasSubmitted.value = false
     return true
   }
@@ -347,21 +325,38 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   function selectOption(index: number) {
     if (hasSubmitted.value) return
     selectedIndex.value = index
+    // multi questions toggle the option instead of replacing the selection
+    if (current.value?.type === 'multi') {
+      selectedIndices.value = selectedIndices.value.includes(index)
+        ? selectedIndices.value.filter((i) => i !== index)
+        : [...selectedIndices.value, index].sort((a, b) => a - b)
+    }
     persistSession()
   }
 
   // PUBLIC_INTERFACE
-  function submitAnswer(): { correct: boolean } {
-    if (selectedIndex.value === null || !current.value) {
-      return { correct: false }
+  function setTypedAnswer(text: string) {
+    if (hasSubmitted.value) return
+    typedAnswer.value = text
+  }
+
+  // PUBLIC_INTERFACE
+  function submitAnswer(): { correct: boolean; credit: number } {
+    if (!current.value || !hasSelection.value) {
+      return { correct: false, credit: 0 }
     }
+    let answer: AnswerValue
+    if (isTypedQuestion(current.value)) answer = { text: typedAnswer.value.trim() }
+    else if (current.value.type === 'multi') answer = [...selectedIndices.value]
+    else answer = selectedIndex.value as number
     hasSubmitted.value = true
-    const correct = selectedIndex.value === current.value.answerIndex
-    if (correct) score.value += 1
+    const credit = answerCredit(current.value, answer, useUiPreferencesStore().scoringPolicy)
+    const correct = credit === 1
+    if (credit > 0) score.value = Math.round((score.value + credit) * 100) / 100
     const qid = current.value.id
-    selectedAnswers.value[qid] = selectedIndex.value
+    selectedAnswers.value[qid] = answer
     persistSession()
-    return { correct }
+    return { correct, credit }
   }
 
   // PUBLIC_INTERFACE
@@ -370,6 +365,8 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     if (currentIndex.value < total.value - 1) {
       currentIndex.value += 1
       selectedIndex.value = null
+      selectedIndices.value = []
+      typedAnswer.value = ''
       hasSubmitted.value = false
       persistSession()
       return true
@@ -377,19 +374,28 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     return false
   }
 
-  // Lifelines (same semantics as normal quiz)
+  // Lifelines (same semantics as normal quiz: free once per attempt, then bought charges)
+  // PUBLIC_INTERFACE
+  function canUseLifeline(kind: LifelineKind): boolean {
+    return useLifelineShopStore().canUse(kind, lifelines.value)
+  }
+
   // PUBLIC_INTERFACE
   function useFiftyFifty(): { ok: boolean; hidden: number[] } {
     const cur = current.value
-    if (!cur || lifelines.value.fiftyFiftyUsed) return { ok: false, hidden: [] }
+    if (!cur || !canUseLifeline('fiftyFifty') || !fiftyFiftyAvailable(cur)) return { ok: false, hidden: [] }
     const qid = cur.id
-    const wrongs = cur.options.map((_, i) => i).filter((i) => i !== cur.answerIndex)
+    const correctSet = new Set(correctIndicesOf(cur))
+    const wrongs = cur.options.map((_, i) => i).filter((i) => !correctSet.has(i))
+    // multi questions keep at least one wrong option
+    const maxHide = cur.type === 'multi' ? Math.min(2, wrongs.length - 1) : Math.min(2, wrongs.length)
+    if (maxHide <= 0) return { ok: false, hidden: [] }
     const pool = wrongs
     const rng = makeRng(seededHash(`${dailySeed.value}:${qid}`))
     const shuffled = [...pool].sort(() => rng() - 0.5)
-    const hidden = shuffled.slice(0, Math.min(2, pool.length))
+    const hidden = shuffled.slice(0, maxHide)
     fiftyFiftyHidden.value[qid] = hidden
-    lifelines.value.fiftyFiftyUsed = true
+    useLifelineShopStore().take('fiftyFifty', lifelines.value)
     persistSession()
     return { ok: true, hidden }
   }
@@ -397,9 +403,9 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   // PUBLIC_INTERFACE
   function useSkipQuestion(): { ok: boolean } {
     const cur = current.value
-    if (!cur || lifelines.value.skipUsed) return { ok: false }
+    if (!cur || hasSubmitted.value || !canUseLifeline('skip')) return { ok: false }
     selectedAnswers.value[cur.id] = 'SKIPPED'
-    lifelines.value.skipUsed = true
+    useLifelineShopStore().take('skip', lifelines.value)
     hasSubmitted.value = true
     persistSession()
     return { ok: true }
@@ -408,9 +414,11 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
   // PUBLIC_INTERFACE
   function useAskHint(): { ok: boolean; hint?: string } {
     const cur = current.value
-    if (!cur || lifelines.value.askHintUsed) return { ok: false }
+    if (!cur) return { ok: false }
+    if (hintShown.value[cur.id]) return { ok: true, hint: cur.hint }
+    if (!canUseLifeline('askHint')) return { ok: false }
     hintShown.value[cur.id] = true
-    lifelines.value.askHintUsed = true
+    useLifelineShopStore().take('askHint', lifelines.value)
     persistSession()
     return { ok: true, hint: cur.hint }
   }
@@ -462,9 +470,6 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     writePersist(meta)
 
     // push into scoreboard with mode: 'daily'
-    const catLabelMap: Record<string, string> = {
-      gk: 'General Knowledge', sports: 'Sports', movies: 'Movies', science: 'Science', history: 'History', geography: 'Geography'
-    }
     const metaRecord: ScoreboardDailyMeta = {
       mode: 'daily',
       dateKey: today,
@@ -475,8 +480,8 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
       player: '', // will be asked by ResultView; allow overwrite
       score: score.value,
       total: total.value,
-      category: (dailyCategory.value ?? 'gk') as CategoryKey,
-      categoryLabel: catLabelMap[dailyCategory.value ?? 'gk'] ?? (dailyCategory.value ?? 'Daily'),
+      category: dailyCategory.value ?? builtinCategory('gk'),
+      categoryLabel: useCategoryRegistryStore().labelFor(dailyCategory.value ?? builtinCategory('gk')),
       meta: metaRecord,
     })
 
@@ -492,6 +497,14 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
       console.warn('coin award failed (daily-complete):', e)
     }
 
+    // missed and skipped questions go to the review deck
+    useReviewDeckStore().addMissed({
+      questions: questions.value,
+      answers: selectedAnswers.value,
+      category: dailyCategory.value,
+      sessionId: `daily:${today}`,
+    })
+
     // clear session for today to prevent duplicate completion increment
     clearSession()
   }
@@ -514,6 +527,8 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     currentIndex,
     score,
     selectedIndex,
+    selectedIndices,
+    typedAnswer,
     hasSubmitted,
     loading,
     error,
@@ -532,6 +547,7 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     total,
     current,
     isLast,
+    hasSelection,
 
     // actions
     hasSavedDaily,
@@ -540,9 +556,11 @@ export const useDailyQuizStore = defineStore('dailyQuiz', () => {
     clearSession,
 
     selectOption,
+    setTypedAnswer,
     submitAnswer,
     nextQuestion,
 
+    canUseLifeline,
     useFiftyFifty,
     useSkipQuestion,
     useAskHint,
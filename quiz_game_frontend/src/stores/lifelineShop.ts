@@ -0,0 +1,111 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { CoinIds, ensureCoinsLoaded, useCoinsStore } from './coins'
+import {
+  LIFELINE_FLAG,
+  LIFELINE_KINDS,
+  LIFELINE_PRICES,
+  MAX_CHARGES,
+  type LifelineFlags,
+  type LifelineKind,
+} from '@/utils/lifelines'
+
+/**
+ * Lifeline shop
+ * - Coins buy extra lifeline charges (prices in utils/lifelines.ts), booked as 'purchase' spends
+ * - The inventory persists to localStorage and is shared by every mode that has lifelines
+ * - Quizzes spend their free use of a lifeline first, then a charge (take)
+ */
+
+const STORAGE_KEY = 'quizmaster:lifelineCharges.v1'
+
+type Charges = Record<LifelineKind, number>
+
+function emptyCharges(): Charges {
+  return { fiftyFifty: 0, skip: 0, extraTime: 0, askHint: 0 }
+}
+
+function readCharges(): Charges {
+  const out = emptyCharges()
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const obj = raw ? (JSON.parse(raw) as Record<string, unknown>) : null
+    if (!obj || typeof obj !== 'object') return out
+    for (const kind of LIFELINE_KINDS) {
+      const n = Math.floor(Number(obj[kind]))
+      out[kind] = Number.isFinite(n) ? Math.max(0, Math.min(MAX_CHARGES, n)) : 0
+    }
+  } catch {
+    // ignore
+  }
+  return out
+}
+
+function writeCharges(c: Charges) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(c))
+  } catch {
+    // ignore
+  }
+}
+
+function purchaseId(): string {
+  try {
+    const bytes = new Uint8Array(8)
+    crypto.getRandomValues(bytes)
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+  } catch {
+    return Math.random().toString(36).slice(2, 10)
+  }
+}
+
+// PUBLIC_INTERFACE
+export const useLifelineShopStore = defineStore('lifelineShop', () => {
+  /** Bought lifeline charges not used yet. */
+  const charges = ref<Charges>(readCharges())
+
+  function persist() {
+    writeCharges(charges.value)
+  }
+
+  // PUBLIC_INTERFACE
+  function buy(kind: LifelineKind, quantity = 1): { ok: boolean; error?: string } {
+    /** Buys `quantity` charges of a lifeline with coins. */
+    const qty = Math.floor(quantity)
+    if (!LIFELINE_KINDS.includes(kind) || !(qty > 0)) return { ok: false, error: 'Nothing to buy' }
+    if (charges.value[kind] + qty > MAX_CHARGES) return { ok: false, error: `You can hold at most ${MAX_CHARGES} of each lifeline` }
+    ensureCoinsLoaded()
+    const cost = LIFELINE_PRICES[kind] * qty
+    if (!useCoinsStore().spend(cost, CoinIds.purchase(purchaseId()), { item: kind, quantity: qty })) {
+      return { ok: false, error: 'Not enough coins' }
+    }
+    charges.value = { ...charges.value, [kind]: charges.value[kind] + qty }
+    persist()
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function canUse(kind: LifelineKind, flags: LifelineFlags): boolean {
+    /** True while the quiz's free use is left or a charge is in stock. */
+    return !flags[LIFELINE_FLAG[kind]] || charges.value[kind] > 0
+  }
+
+  // PUBLIC_INTERFACE
+  function take(kind: LifelineKind, flags: LifelineFlags): 'free' | 'charge' | null {
+    /**
+     * Uses a lifeline: marks the quiz's free use in `flags` (mutated) or consumes a charge.
+     * Null when neither is left.
+     */
+    const flag = LIFELINE_FLAG[kind]
+    if (!flags[flag]) {
+      flags[flag] = true
+      return 'free'
+    }
+    if (charges.value[kind] <= 0) return null
+    charges.value = { ...charges.value, [kind]: charges.value[kind] - 1 }
+    persist()
+    return 'charge'
+  }
+
+  return { charges, buy, canUse, take }
+})
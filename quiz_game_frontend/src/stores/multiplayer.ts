@@ -2,42 +2,134 @@ import { defineStore } from 'pinia'
 import { ensureCoinsLoaded, useCoinsStore, COIN_RULES, CoinIds } from './coins'
 import { computed, ref, watch } from 'vue'
 import type { CategoryKey, QuizQuestion } from './quiz'
+import { customQuizQuestions, useCustomQuizzesStore } from './customQuizzes'
+import { useOfflineStore } from './offline'
+import { useCategoryRegistryStore } from './categories'
+import { matchFromRoom, useMultiplayerHistoryStore } from './multiplayerHistory'
+import { isAnswerCorrect, withAnswerKey, type AnswerValue } from '@/utils/answers'
+import {
+  DEFAULT_QUESTION_MS,
+  FULL_POINTS,
+  MAX_CONTENT_BYTES,
+  REDUCED_POINTS,
+  REVEAL_MS,
+  TEAM_PRESETS,
+  balanceTeams,
+  bestClockSample,
+  clockSample,
+  isSpectator,
+  questionDeadline,
+  roomContent,
+  sanitizeContent,
+  sanitizeTeams,
+  scoreQuestion,
+  teamScores,
+  type AnswerSubmission,
+  type ClockSample,
+  type LateJoinPolicy,
+  type Player,
+  type PlayerRole,
+  type QuestionPhase,
+  type RoomContent,
+  type RoomSource,
+  type Team,
+  type TeamScoring,
+  type WsMessage,
+} from '@/utils/mpProtocol'
+
+export { DEFAULT_QUESTION_MS, FULL_POINTS, REDUCED_POINTS, REVEAL_MS, TEAM_PRESETS, isSpectator }
+export type {
+  AnswerSubmission,
+  LateJoinPolicy,
+  Player,
+  PlayerRole,
+  QuestionPhase,
+  RoomContent,
+  RoomSource,
+  Team,
+  TeamScoring,
+  WsMessage,
+}
+
+/** Questions the host can ship to a room instead of the bundled pool. */
+export type ContentChoice = { kind: 'custom'; id: string } | { kind: 'pack'; category: CategoryKey }
+
+/** Team leaderboard row: the team, its score under the room's TeamScoring and its members by score. */
+export type TeamStanding = { team: Team; score: number; members: Player[] }
+
+/** Live answers for one question, for the spectator view. */
+export type AnswerDistribution = {
+  answered: number
+  // players (not spectators) in the room
+  total: number
+  // picks per option index (multi questions count every ticked option)
+  optionCounts: number[]
+  // typed answers (text/numeric), trimmed and lower-cased, with their counts
+  typedCounts: Array<{ answer: string; count: number }>
+}
 
 /**
  * Multiplayer client store with WebSocket hookup (if configured) and local demo fallback.
  * Tracks room state, players, synchronized question set via shared seed, answer submissions,
  * fastest-correct scoring and reconnection.
+ *
+ * Two protocol modes:
+ * - client-scored (default, and the local demo): every client derives the questions (with answer
+ *   keys) from the shared seed, evaluates answers and applies fastest-correct scoring itself.
+ * - server-authoritative (server sends `authoritative: true` in ROOM_JOINED): questions arrive
+ *   without answer keys, clients send only ANSWER, and correctness/points come back in RESULT and
+ *   SCORES. A player receives a question's answer key in its own RESULT, i.e. only after answering.
+ *
+ * Timed rounds (questionDurationMs > 0): answers after the deadline are refused, and once everyone
+ * has answered or time runs out the question enters a reveal phase (correct answer + fastest
+ * player) for REVEAL_MS before the next one. A server that announces `autoAdvance` drives this
+ * with REVEAL / QUESTION_INDEX / GAME_OVER; otherwise each client closes the question locally and
+ * the host (or the only real player in the local demo) advances.
  */
 
-export type Player = {
-  id: string
-  name: string
-  score: number
-  ready: boolean
-}
-
-export type AnswerSubmission = {
-  playerId: string
-  questionIndex: number
-  answerIndex: number
-  correct: boolean
-  ts: number // client-side timestamp ms since epoch
-}
-
 export type RoomState = {
   roomCode: string
   isHost: boolean
+  // current host; changes on transfer or when the server migrates hosting away from a dropped host
+  hostId: string
+  // the host refuses new joins (existing players can still reconnect)
+  locked: boolean
+  // team mode (no teams = individual play)
+  teams: Team[]
+  teamScoring: TeamScoring
+  // team totals from the server's last SCORES (null: computed locally from players/submissions)
+  teamScores: Record<string, number> | null
   playerId: string
   playerName: string
   players: Player[]
   // game state
   category: CategoryKey | null
   seed: string | null // seed/hash that derives question order
+  // shipped questions (custom quiz / offline pack) the round plays; null = bundled pool for category
+  source: RoomSource | null
+  contentHash: string | null
+  // when this device saw the round start (match history)
+  startedAt: number | null
   currentQuestionIndex: number
   questionStartTs: number | null
+  // per-question time limit; 0 = untimed, the host advances manually
+  questionDurationMs: number
+  // server-clock time after which answers are refused (null when untimed)
+  deadlineTs: number | null
+  phase: QuestionPhase
+  // end of the reveal phase, server clock
+  revealUntilTs: number | null
   questions: QuizQuestion[]
   // per-question submissions
   submissions: AnswerSubmission[]
+  // server evaluates answers and keeps scores; questions arrive without answer keys
+  authoritative: boolean
+  // server clock minus this device's clock (PING/PONG estimate; 0 without a server)
+  clockOffsetMs: number
+  // round trip of the sample the offset came from
+  clockRttMs: number | null
+  // the server runs timed rounds (sends REVEAL and advances); set from ROOM_JOINED
+  autoAdvance: boolean
   // networking
   connected: boolean
   reconnecting: boolean
@@ -54,12 +146,8 @@ type Persisted = {
 const MP_STORE_KEY = 'quizmaster:mp:session'
 const WS_URL = (import.meta.env.VITE_WS_URL as string | undefined) || ''
 
-// Configurable scoring constants
-export const FULL_POINTS = 10
-export const REDUCED_POINTS = 5
-
 // Deterministic pseudo-random util (xorshift32-like) for seeding
-import poolsDefault from '../utils/pools'
+import { resolveQuestions } from '@/utils/questionSources'
 
 function seededShuffle<T>(arr: T[], seedStr: string): T[] {
   let seed = 0
@@ -115,36 +203,48 @@ function savePersisted(p: Persisted | null) {
   } catch {}
 }
 
-type WsMessage =
-  | { type: 'HELLO'; roomCode: string; playerId: string; name: string }
-  | { type: 'ROOM_CREATED'; roomCode: string }
-  | { type: 'ROOM_JOINED'; roomCode: string; players: Player[]; category?: CategoryKey; seed?: string; currentQuestionIndex?: number }
-  | { type: 'PLAYER_LIST'; players: Player[] }
-  | { type: 'READY'; playerId: string; ready: boolean }
-  | { type: 'START'; category: CategoryKey; seed: string; questionStartTs: number }
-  | { type: 'QUESTION_INDEX'; index: number; questionStartTs: number }
-  | { type: 'SUBMISSION'; submission: AnswerSubmission }
-  | { type: 'SCORES'; players: Player[] }
-  | { type: 'PING' }
-  | { type: 'REJOIN'; roomCode: string; playerId: string }
-  | { type: 'ERROR'; message: string }
-
 let socket: WebSocket | null = null
 let pingTimer: number | null = null
+// timed rounds driven by this client: pending deadline or end of the reveal phase
+let roundTimer: number | null = null
+// sent with the next HELLO: join as a spectator
+let joinAsSpectator = false
+// recent PING/PONG clock samples for the current socket
+let clockSamples: ClockSample[] = []
+// shipped question sets by content hash (the host's own and those received via CONTENT)
+const contentCache = new Map<string, RoomContent>()
+const CLOCK_SYNC_BURST = 5
+const CLOCK_SAMPLES_KEPT = 8
 
 export const useMultiplayerStore = defineStore('multiplayer', () => {
   const state = ref<RoomState>({
     roomCode: '',
     isHost: false,
+    hostId: '',
+    locked: false,
+    teams: [],
+    teamScoring: 'sum',
+    teamScores: null,
     playerId: '',
     playerName: '',
     players: [],
     category: null,
     seed: null,
+    source: null,
+    contentHash: null,
+    startedAt: null,
     currentQuestionIndex: 0,
     questionStartTs: null,
+    questionDurationMs: 0,
+    deadlineTs: null,
+    phase: 'question',
+    revealUntilTs: null,
     questions: [],
     submissions: [],
+    authoritative: false,
+    clockOffsetMs: 0,
+    clockRttMs: null,
+    autoAdvance: false,
     connected: false,
     reconnecting: false,
     lastSocketError: null,
@@ -152,7 +252,25 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
 
   const isInRoom = computed(() => !!state.value.roomCode && !!state.value.playerId)
   const me = computed(() => state.value.players.find(p => p.id === state.value.playerId) || null)
-  const leaderboard = computed(() => [...state.value.players].sort((a, b) => b.score - a.score))
+  const spectating = computed(() => isSpectator(me.value))
+  const leaderboard = computed(() => state.value.players.filter(p => !isSpectator(p)).sort((a, b) => b.score - a.score))
+  const spectators = computed(() => state.value.players.filter(p => isSpectator(p)))
+  // team mode: teams by score, each with its members; individual scores (and coins) stay per player
+  const teamLeaderboard = computed<TeamStanding[]>(() => {
+    const { teams, players, submissions, teamScoring } = state.value
+    if (!teams.length) return []
+    const scores = (WS_URL && state.value.teamScores) || teamScores(teams, players, submissions, teamScoring)
+    return teams
+      .map(team => ({
+        team,
+        score: scores[team.id] ?? 0,
+        members: players.filter(p => p.teamId === team.id && !isSpectator(p)).sort((a, b) => b.score - a.score),
+      }))
+      .sort((a, b) => b.score - a.score)
+  })
+  const unassignedPlayers = computed(() =>
+    state.value.teams.length ? state.value.players.filter(p => !p.teamId && !isSpectator(p)) : []
+  )
   const hasBackend = computed(() => !!WS_URL)
 
   // PUBLIC_INTERFACE
@@ -162,10 +280,14 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
     const playerId = cryptoRandomId()
     state.value.roomCode = roomCode
     state.value.isHost = true
+    state.value.hostId = playerId
+    state.value.locked = false
+    state.value.teams = []
+    state.value.teamScores = null
     state.value.playerId = playerId
     state.value.playerName = playerName.trim().slice(0, 16) || 'Host'
     state.value.players = [
-      { id: playerId, name: state.value.playerName, score: 0, ready: false },
+      { id: playerId, name: state.value.playerName, score: 0, ready: false, role: 'player' },
     ]
     persistIdentity()
     if (WS_URL) {
@@ -178,8 +300,12 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
   }
 
   // PUBLIC_INTERFACE
-  function joinRoom(roomCode: string, playerName: string): boolean {
-    /** Join an existing room. In demo mode, we simulate a local second player inside same tab. */
+  function joinRoom(roomCode: string, playerName: string, opts: { spectate?: boolean } = {}): boolean {
+    /**
+     * Join an existing room. In demo mode, we simulate a local second player inside same tab.
+     * `spectate` joins as a spectator; otherwise a game already in progress decides by the host's
+     * late-join policy (play from zero, play with a catch-up score, or spectate).
+     */
     const code = roomCode.toUpperCase().trim()
     if (!code) return false
     const playerId = cryptoRandomId()
@@ -192,18 +318,21 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
       if (!state.value.players.length) {
         // create a pseudo-host bot first to simulate an existing room
         const hostId = cryptoRandomId()
+        state.value.hostId = hostId
         state.value.players = [
-          { id: hostId, name: 'Host (Demo)', score: 0, ready: false },
+          { id: hostId, name: 'Host (Demo)', score: 0, ready: false, role: 'player' },
         ]
       }
       // add this player
-      state.value.players.push({ id: playerId, name: state.value.playerName, score: 0, ready: false })
+      const role: PlayerRole = opts.spectate ? 'spectator' : 'player'
+      state.value.players.push({ id: playerId, name: state.value.playerName, score: 0, ready: false, role })
       state.value.connected = true
       persistIdentity()
       return true
     }
     // Real backend flow:
     persistIdentity()
+    joinAsSpectator = !!opts.spectate
     openSocketAndHello()
     return true
   }
@@ -222,40 +351,152 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
   }
 
   // PUBLIC_INTERFACE
-  function hostStart(category: CategoryKey) {
-    /** Host picks category and starts the game. Generates a seed and synchronizes question order. */
-    if (!state.value.isHost) return
-    const seed = `${state.value.roomCode}:${category}:${Date.now()}`
+  async function hostStart(
+    category: CategoryKey,
+    questionDurationMs = DEFAULT_QUESTION_MS,
+    lateJoin: LateJoinPolicy = 'play',
+    content: RoomContent | null = null
+  ): Promise<{ ok: boolean; error?: string }> {
+    /**
+     * Host picks category and starts the game. Generates a seed and synchronizes question order.
+     * questionDurationMs is the per-question time limit (0 = untimed, advance with nextQuestion);
+     * lateJoin decides how players joining mid-game take part (enforced by the server).
+     * content (see roomContentFor) plays a custom quiz or offline pack instead of the category's
+     * bundled pool; it is sent to the server in CONTENT before START.
+     */
+    if (!state.value.isHost) return { ok: false, error: 'Only the host can start the game' }
+    const seed = `${state.value.roomCode}:${content?.hash ?? category}:${Date.now()}`
+    if (content) {
+      contentCache.set(content.hash, content)
+      sendWs({ type: 'CONTENT', content })
+    }
     state.value.category = category
     state.value.seed = seed
+    state.value.source = content?.source ?? null
+    state.value.contentHash = content?.hash ?? null
+    state.value.startedAt = Date.now()
     state.value.currentQuestionIndex = 0
     state.value.submissions = []
-    // Question pool is derived client-side using the existing quiz fallback pools.
-    const pool = getPoolSync(category)
-    state.value.questions = seededShuffle(pool, seed)
-    state.value.questionStartTs = Date.now()
+    state.value.questionDurationMs = Math.max(0, questionDurationMs)
+    const timed = {
+      ...(state.value.questionDurationMs ? { questionDurationMs: state.value.questionDurationMs } : {}),
+      lateJoin,
+      ...(content ? { source: content.source, contentHash: content.hash } : {}),
+    }
+    if (state.value.authoritative) {
+      // the server picks the questions and broadcasts them (without answer keys) in START
+      clearRoundTimer()
+      state.value.questions = []
+      state.value.questionStartTs = serverNow()
+      sendWs({ type: 'START', category, seed, questionStartTs: state.value.questionStartTs, ...timed })
+      return { ok: true }
+    }
+    // Question pool is derived client-side from the shared question sources.
+    await rebuildQuestions()
+    const startTs = serverNow()
+    openQuestion(0, startTs, questionDeadline(startTs, state.value.questionDurationMs))
     if (WS_URL && socket && socket.readyState === WebSocket.OPEN) {
-      const msg: WsMessage = { type: 'START', category, seed, questionStartTs: state.value.questionStartTs! }
+      const msg: WsMessage = {
+        type: 'START',
+        category,
+        seed,
+        questionStartTs: startTs,
+        questionCount: state.value.questions.length,
+        ...timed,
+        ...(state.value.deadlineTs != null ? { deadlineTs: state.value.deadlineTs } : {}),
+      }
       socket.send(JSON.stringify(msg))
     } else {
       // demo: nothing to send, same-tab users share state
     }
+    return { ok: true }
   }
 
   // PUBLIC_INTERFACE
-  function submitAnswer(answerIndex: number) {
-    /** Submit an answer for the current question, compute scoring per fastest-correct rule. */
+  function roomContentFor(choice: ContentChoice): { ok: boolean; content?: RoomContent; error?: string } {
+    /** Packages a custom quiz or a downloaded offline pack for hostStart, within MAX_CONTENT_BYTES. */
+    let questions: QuizQuestion[] = []
+    let title = ''
+    if (choice.kind === 'custom') {
+      const quiz = useCustomQuizzesStore().get(choice.id)
+      if (!quiz) return { ok: false, error: 'Quiz not found' }
+      questions = customQuizQuestions(quiz)
+      title = quiz.title
+    } else {
+      const pack = useOfflineStore().getPack(choice.category)
+      if (!pack) return { ok: false, error: 'That offline pack is not downloaded' }
+      questions = pack.questions
+      title = `${useCategoryRegistryStore().labelFor(choice.category)} (offline pack)`
+    }
+    if (!questions.length) return { ok: false, error: 'This quiz has no questions' }
+    const content = roomContent({ kind: choice.kind, title }, questions)
+    const bytes = new Blob([JSON.stringify(content)]).size
+    if (bytes > MAX_CONTENT_BYTES) {
+      const mb = (n: number) => `${(n / 1024 / 1024).toFixed(1)} MB`
+      return { ok: false, error: `Too large to share (${mb(bytes)}; the limit is ${mb(MAX_CONTENT_BYTES)}). Link media instead of uploading it.` }
+    }
+    return { ok: true, content }
+  }
+
+  // PUBLIC_INTERFACE
+  function submitAnswer(answer: AnswerValue) {
+    /**
+     * Submit an answer (option index, indices for multi questions, typed text for text/numeric) for the current question,
+     * compute scoring per fastest-correct rule. Multi questions are always all-or-nothing here
+     * so every player in the room is scored the same way.
+     * In server-authoritative rooms only the answer is sent; the result arrives in RESULT/SCORES.
+     */
     const qIdx = state.value.currentQuestionIndex
-    const ts = Date.now()
+    // corrected to the server's clock; ranking uses the time since the question started
+    const ts = serverNow()
+    const elapsedMs = state.value.questionStartTs != null ? Math.max(0, ts - state.value.questionStartTs) : undefined
     const question = state.value.questions[qIdx]
-    if (!question) return
-    const correct = answerIndex === question.answerIndex
+    if (!question || spectating.value) return
+    // timed rounds: the question closes at the deadline
+    if (state.value.phase !== 'question') return
+    if (state.value.deadlineTs != null && ts > state.value.deadlineTs) return
+    const indices = Array.isArray(answer) ? [...answer].sort((a, b) => a - b) : null
+    if (indices && !indices.length) return
+    const typed = typeof answer === 'object' && !Array.isArray(answer) ? answer.text.trim() : null
+    if (typed === '') return
+    const answerIndex = indices ? indices[0] : typed !== null ? -1 : (answer as number)
+
+    if (state.value.authoritative) {
+      if (state.value.submissions.some(s => s.playerId === state.value.playerId && s.questionIndex === qIdx)) return
+      // no answer key here: record the pick as pending and let the server judge it
+      state.value.submissions.push({
+        playerId: state.value.playerId,
+        questionIndex: qIdx,
+        answerIndex,
+        ...(indices ? { answerIndices: indices } : {}),
+        ...(typed !== null ? { answerText: typed } : {}),
+        correct: false,
+        pending: true,
+        ts,
+        elapsedMs,
+      })
+      sendWs({
+        type: 'ANSWER',
+        questionIndex: qIdx,
+        answerIndex,
+        ...(indices ? { answerIndices: indices } : {}),
+        ...(typed !== null ? { answerText: typed } : {}),
+        clientTs: ts,
+        elapsedMs,
+      })
+      return
+    }
+
+    const correct = isAnswerCorrect(question, typed !== null ? { text: typed } : answer)
     const submission: AnswerSubmission = {
       playerId: state.value.playerId,
       questionIndex: qIdx,
       answerIndex,
+      ...(indices ? { answerIndices: indices } : {}),
+      ...(typed !== null ? { answerText: typed } : {}),
       correct,
       ts,
+      elapsedMs,
     }
 
     // In WS mode send to server (server will broadcast authoritative scoring)
@@ -272,17 +513,39 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
 
   // PUBLIC_INTERFACE
   function nextQuestion(): boolean {
-    /** Host or local flow: advance to next question index and reset per-question start timestamp. */
+    /**
+     * Host or local flow: advance to next question index and reset per-question start timestamp.
+     * After the last question it ends the round (recorded in the match history) and returns false.
+     */
     // Award coins for current question winners/participants prior to advancing
+    awardQuestionCoins(state.value.currentQuestionIndex)
+    const nextIndex = state.value.currentQuestionIndex + 1
+    if (nextIndex >= state.value.questions.length) {
+      endGame()
+      return false
+    }
+    const startTs = serverNow()
+    openQuestion(nextIndex, startTs, questionDeadline(startTs, state.value.questionDurationMs))
+    if (WS_URL && socket && socket.readyState === WebSocket.OPEN && state.value.isHost) {
+      const msg: WsMessage = {
+        type: 'QUESTION_INDEX',
+        index: nextIndex,
+        questionStartTs: startTs,
+        ...(state.value.deadlineTs != null ? { deadlineTs: state.value.deadlineTs } : {}),
+      }
+      socket.send(JSON.stringify(msg))
+    }
+    return true
+  }
+
+  function awardQuestionCoins(round: number) {
     try {
       const room = state.value.roomCode || 'LOCAL'
-      const round = state.value.currentQuestionIndex
       const subs = state.value.submissions.filter(s => s.questionIndex === round)
       if (subs.length) {
         const correctSubs = subs.filter(s => s.correct)
         if (correctSubs.length) {
-          const firstTs = Math.min(...correctSubs.map(s => s.ts))
-          const winners = correctSubs.filter(s => s.ts === firstTs).map(s => s.playerId)
+          const winners = fastestCorrect(round).map(s => s.playerId)
           ensureCoinsLoaded()
           const coins = useCoinsStore()
           // winners
@@ -312,27 +575,250 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
     } catch (e) {
       console.warn('coin award failed (multiplayer nextQuestion):', e)
     }
-    const nextIndex = state.value.currentQuestionIndex + 1
-    if (nextIndex >= state.value.questions.length) return false
-    state.value.currentQuestionIndex = nextIndex
-    state.value.questionStartTs = Date.now()
-    if (WS_URL && socket && socket.readyState === WebSocket.OPEN && state.value.isHost) {
-      const msg: WsMessage = { type: 'QUESTION_INDEX', index: nextIndex, questionStartTs: state.value.questionStartTs! }
-      socket.send(JSON.stringify(msg))
+  }
+
+  function serverDriven(): boolean {
+    return !!WS_URL && state.value.autoAdvance
+  }
+
+  function clearRoundTimer() {
+    if (roundTimer != null) { clearTimeout(roundTimer); roundTimer = null }
+  }
+
+  function openQuestion(index: number, startTs: number, deadlineTs: number | null) {
+    clearRoundTimer()
+    state.value.currentQuestionIndex = index
+    state.value.questionStartTs = startTs
+    state.value.deadlineTs = deadlineTs
+    state.value.phase = 'question'
+    state.value.revealUntilTs = null
+    if (!serverDriven()) armDeadline()
+  }
+
+  function armDeadline() {
+    const deadline = state.value.deadlineTs
+    if (deadline == null || roundTimer != null) return
+    roundTimer = window.setTimeout(() => {
+      roundTimer = null
+      revealIfClosed()
+    }, Math.max(0, deadline - serverNow()))
+  }
+
+  // Locally driven timed rounds: close the question once every player answered or time is up,
+  // then let the host (or the demo tab) advance after the reveal.
+  function revealIfClosed() {
+    if (serverDriven() || !state.value.questionDurationMs || state.value.phase !== 'question') return
+    const qIdx = state.value.currentQuestionIndex
+    const answered = new Set(state.value.submissions.filter(s => s.questionIndex === qIdx && !s.pending).map(s => s.playerId))
+    const playing = state.value.players.filter(p => !isSpectator(p))
+    const everyone = playing.length > 0 && playing.every(p => answered.has(p.id))
+    const expired = state.value.deadlineTs != null && serverNow() >= state.value.deadlineTs
+    // re-arm in case the clock offset moved the deadline since the timer was set
+    if (!everyone && !expired) return armDeadline()
+    enterReveal(serverNow() + REVEAL_MS)
+    const last = qIdx + 1 >= state.value.questions.length
+    const drives = state.value.isHost || !WS_URL
+    roundTimer = window.setTimeout(() => {
+      roundTimer = null
+      if (drives) nextQuestion()
+      else if (last) endGame()
+    }, REVEAL_MS)
+  }
+
+  function enterReveal(revealUntilTs: number) {
+    clearRoundTimer()
+    state.value.phase = 'reveal'
+    state.value.revealUntilTs = revealUntilTs
+  }
+
+  function endGame() {
+    clearRoundTimer()
+    state.value.phase = 'over'
+    state.value.revealUntilTs = null
+    recordMatch()
+  }
+
+  // Saves the round to the match history (replaces the earlier record of the same round).
+  function recordMatch() {
+    const match = matchFromRoom(state.value)
+    if (match) useMultiplayerHistoryStore().record(match)
+  }
+
+  // PUBLIC_INTERFACE
+  function kickPlayer(playerId: string): { ok: boolean; error?: string } {
+    /** Host only: remove a player from the room; they cannot rejoin it. */
+    if (!state.value.isHost) return { ok: false, error: 'Only the host can remove players' }
+    if (playerId === state.value.playerId || !state.value.players.some(p => p.id === playerId)) {
+      return { ok: false, error: 'No such player to remove' }
+    }
+    if (WS_URL) {
+      sendWs({ type: 'KICK', playerId })
+    } else {
+      state.value.players = state.value.players.filter(p => p.id !== playerId)
+    }
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function transferHost(playerId: string): { ok: boolean; error?: string } {
+    /** Host only: hand hosting to another player. Applied when the server confirms with HOST_CHANGED. */
+    if (!state.value.isHost) return { ok: false, error: 'Only the host can hand over hosting' }
+    const target = state.value.players.find(p => p.id === playerId)
+    if (!target || target.id === state.value.playerId) return { ok: false, error: 'No such player to make host' }
+    if (isSpectator(target)) return { ok: false, error: 'Spectators cannot host' }
+    // demo players are simulated in this tab, so there is nobody to hand over to
+    if (!WS_URL) return { ok: false, error: 'Hosting can only be handed over with a multiplayer server' }
+    sendWs({ type: 'TRANSFER_HOST', playerId })
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function setRoomLocked(locked: boolean): { ok: boolean; error?: string } {
+    /** Host only: refuse (or allow again) new players joining; current players can still reconnect. */
+    if (!state.value.isHost) return { ok: false, error: 'Only the host can lock the room' }
+    if (WS_URL) sendWs({ type: 'LOCK_ROOM', locked })
+    else state.value.locked = locked
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function setTeams(teams: Team[], scoring: TeamScoring): { ok: boolean; error?: string } {
+    /** Host only: set up teams (names/colors) and the team scoring policy; an empty list turns teams off. */
+    if (!state.value.isHost) return { ok: false, error: 'Only the host can set up teams' }
+    const clean = sanitizeTeams(teams)
+    if (teams.length && !clean.length) return { ok: false, error: 'Teams need a name' }
+    if (WS_URL) {
+      sendWs({ type: 'TEAMS', teams: clean, scoring })
+    } else {
+      applyTeams(clean, scoring)
+    }
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function joinTeam(teamId: string | null, playerId = state.value.playerId): { ok: boolean; error?: string } {
+    /** Pick a team for yourself (null leaves it); the host may move any player. */
+    const target = state.value.players.find(p => p.id === playerId)
+    if (!target) return { ok: false, error: 'No such player' }
+    if (playerId !== state.value.playerId && !state.value.isHost) return { ok: false, error: 'Only the host can move other players' }
+    if (isSpectator(target)) return { ok: false, error: 'Spectators cannot join a team' }
+    if (teamId != null && !state.value.teams.some(t => t.id === teamId)) return { ok: false, error: 'No such team' }
+    if (WS_URL) {
+      sendWs({ type: 'JOIN_TEAM', playerId, teamId })
+    } else {
+      target.teamId = teamId ?? undefined
+      state.value.players = [...state.value.players]
+    }
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function autoBalanceTeams(): { ok: boolean; error?: string } {
+    /** Host only: spread the players evenly over the teams (strongest players first). */
+    if (!state.value.isHost) return { ok: false, error: 'Only the host can balance teams' }
+    if (!state.value.teams.length) return { ok: false, error: 'Set up teams first' }
+    if (WS_URL) {
+      sendWs({ type: 'BALANCE_TEAMS' })
+    } else {
+      const assignment = balanceTeams(state.value.players, state.value.teams)
+      state.value.players = state.value.players.map(p => (assignment[p.id] ? { ...p, teamId: assignment[p.id] } : p))
+    }
+    return { ok: true }
+  }
+
+  function applyTeams(teams: Team[], scoring: TeamScoring) {
+    state.value.teams = teams
+    state.value.teamScoring = scoring
+    const ids = new Set(teams.map(t => t.id))
+    state.value.players = state.value.players.map(p => (p.teamId && !ids.has(p.teamId) ? { ...p, teamId: undefined } : p))
+  }
+
+  function applyHost(hostId: string) {
+    state.value.hostId = hostId
+    state.value.isHost = hostId === state.value.playerId
+  }
+
+  // PUBLIC_INTERFACE
+  function answerDistribution(qIdx: number): AnswerDistribution {
+    /** How the room has answered a question so far (spectator view). Pending answers count once judged. */
+    const question = state.value.questions[qIdx]
+    const subs = state.value.submissions.filter(s => s.questionIndex === qIdx && !s.pending)
+    const optionCounts = (question?.options ?? []).map(() => 0)
+    const typed = new Map<string, number>()
+    for (const s of subs) {
+      if (s.answerText != null) {
+        const key = s.answerText.trim().toLowerCase()
+        typed.set(key, (typed.get(key) ?? 0) + 1)
+        continue
+      }
+      for (const i of s.answerIndices ?? [s.answerIndex]) {
+        if (i >= 0 && i < optionCounts.length) optionCounts[i]++
+      }
+    }
+    return {
+      answered: subs.length,
+      total: state.value.players.filter(p => !isSpectator(p)).length,
+      optionCounts,
+      typedCounts: [...typed].map(([answer, count]) => ({ answer, count })).sort((a, b) => b.count - a.count),
     }
-    return true
   }
 
   // PUBLIC_INTERFACE
   function fastestWinnerNameForQuestion(qIdx: number): string | null {
     /** Returns the display name of the first correct submission for a question, or null if none. */
-    const subs = state.value.submissions.filter(s => s.questionIndex === qIdx && s.correct)
-    if (!subs.length) return null
-    const first = subs.sort((a, b) => a.ts - b.ts)[0]
+    const first = fastestCorrect(qIdx)[0]
+    if (!first) return null
     const p = state.value.players.find(pl => pl.id === first.playerId)
     return p?.name || null
   }
 
+  function fastestCorrect(qIdx: number): AnswerSubmission[] {
+    // flagged by scoreQuestion (client-scored) or the server's RESULT (authoritative)
+    return state.value.submissions.filter(s => s.questionIndex === qIdx && s.correct && s.fastest)
+  }
+
+  function serverNow(): number {
+    return Date.now() + state.value.clockOffsetMs
+  }
+
+  function sendPing() {
+    sendWs({ type: 'PING', clientTs: Date.now() })
+  }
+
+  function applyPong(msg: Extract<WsMessage, { type: 'PONG' }>) {
+    clockSamples = [...clockSamples, clockSample(msg.clientTs, msg.serverTs, Date.now())].slice(-CLOCK_SAMPLES_KEPT)
+    const best = bestClockSample(clockSamples)
+    if (best) {
+      state.value.clockOffsetMs = Math.round(best.offsetMs)
+      state.value.clockRttMs = best.rttMs
+    }
+    // short burst right after connecting, then the keepalive pings keep refining it
+    if (clockSamples.length < CLOCK_SYNC_BURST) sendPing()
+  }
+
+  function sendWs(msg: WsMessage) {
+    if (WS_URL && socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg))
+  }
+
+  function applyResult(msg: Extract<WsMessage, { type: 'RESULT' }>) {
+    const existing = state.value.submissions.find(s => s.playerId === msg.playerId && s.questionIndex === msg.questionIndex)
+    const result = {
+      // spectators learn what was picked
+      ...(msg.pick ?? {}),
+      correct: msg.correct,
+      points: msg.points,
+      fastest: msg.fastest,
+      ts: msg.ts,
+      ...(msg.elapsedMs != null ? { elapsedMs: msg.elapsedMs } : {}),
+      pending: false,
+    }
+    if (existing) Object.assign(existing, result)
+    else state.value.submissions.push({ playerId: msg.playerId, questionIndex: msg.questionIndex, answerIndex: -1, ...result })
+    const q = state.value.questions[msg.questionIndex]
+    if (msg.key && q) state.value.questions[msg.questionIndex] = withAnswerKey(q, msg.key)
+    revealIfClosed()
+  }
+
   // PUBLIC_INTERFACE
   function leaveRoom() {
     /** Leave current room and clear local MP state. */
@@ -340,6 +826,10 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
     try { if (socket) socket.close() } catch {}
     socket = null
     if (pingTimer != null) { clearInterval(pingTimer); pingTimer = null }
+    clearRoundTimer()
+    contentCache.clear()
+    // leaving mid-round keeps what was played; finished rounds were recorded by endGame
+    if (state.value.phase !== 'over' && state.value.submissions.length) recordMatch()
     const id = state.value.playerId
     const name = state.value.playerName
     const isHost = state.value.isHost
@@ -347,15 +837,31 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
     state.value = {
       roomCode: '',
       isHost,
+      hostId: '',
+      locked: false,
+      teams: [],
+      teamScoring: 'sum',
+      teamScores: null,
       playerId: id,
       playerName: name,
       players: [],
       category: null,
       seed: null,
+      source: null,
+      contentHash: null,
+      startedAt: null,
       currentQuestionIndex: 0,
       questionStartTs: null,
+      questionDurationMs: 0,
+      deadlineTs: null,
+      phase: 'question',
+      revealUntilTs: null,
       questions: [],
       submissions: [],
+      authoritative: false,
+      clockOffsetMs: 0,
+      clockRttMs: null,
+      autoAdvance: false,
       connected: false,
       reconnecting: false,
       lastSocketError: null,
@@ -382,25 +888,50 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
     // prevent duplicate submissions from same player for same question
     const exists = state.value.submissions.find(s => s.playerId === submission.playerId && s.questionIndex === submission.questionIndex)
     if (exists) return
-    state.value.submissions.push(submission)
-
-    // scoring for correct answers:
-    if (submission.correct) {
-      const firstCorrect = state.value.submissions
-        .filter(s => s.questionIndex === submission.questionIndex && s.correct)
-        .sort((a, b) => a.ts - b.ts)[0]
-      const isFirst = firstCorrect && firstCorrect.playerId === submission.playerId
-      const points = isFirst ? FULL_POINTS : REDUCED_POINTS
-      const p = state.value.players.find(pl => pl.id === submission.playerId)
-      if (p) p.score += points
-      state.value.players = [...state.value.players]
+    if (isSpectator(state.value.players.find(p => p.id === submission.playerId))) return
+    // timed rounds: a peer's answer stamped after the deadline does not count
+    if (
+      submission.questionIndex === state.value.currentQuestionIndex &&
+      state.value.deadlineTs != null &&
+      submission.ts > state.value.deadlineTs
+    ) return
+    // points are (re)assigned below; relayed copies may carry a peer's view of them
+    state.value.submissions.push({ ...submission, points: 0, fastest: false })
+
+    // re-rank the whole question: a faster answer may arrive after a slower one was scored
+    const subs = state.value.submissions.filter(s => s.questionIndex === submission.questionIndex)
+    const scored = scoreQuestion(subs)
+    for (const s of subs) {
+      const next = scored.get(s.playerId)
+      if (!next) continue
+      const p = state.value.players.find(pl => pl.id === s.playerId)
+      if (p) p.score += next.points - (s.points ?? 0)
+      s.points = next.points
+      s.fastest = next.fastest
     }
+    state.value.players = [...state.value.players]
+    revealIfClosed()
   }
 
-  // Sync pool accessor using static ESM import (poolsDefault at module scope)
-  function getPoolSync(category: CategoryKey): QuizQuestion[] {
-    const pools = poolsDefault as Record<CategoryKey, QuizQuestion[]>
-    return pools[category] || pools.gk
+  // Derive the room's question order from category + seed. Only shared sources are consulted
+  // so every client ends up with the same questions. Shipped content (contentHash) replaces them.
+  async function rebuildQuestions() {
+    const { category, seed, contentHash } = state.value
+    if (!category || !seed) return
+    if (contentHash) {
+      const content = contentCache.get(contentHash)
+      // joined after the host sent it: ask the server; CONTENT comes back and rebuilds
+      if (!content) {
+        state.value.questions = []
+        return sendWs({ type: 'CONTENT_REQUEST', hash: contentHash })
+      }
+      state.value.questions = seededShuffle(content.questions, seed)
+      return
+    }
+    const { questions: pool } = await resolveQuestions(category, Number.POSITIVE_INFINITY, { sharedOnly: true })
+    // ignore stale results if the room restarted while resolving
+    if (state.value.category !== category || state.value.seed !== seed) return
+    state.value.questions = seededShuffle(pool, seed)
   }
 
   function persistIdentity() {
@@ -426,15 +957,20 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
         const msg: WsMessage = { type: 'REJOIN', roomCode: state.value.roomCode, playerId: state.value.playerId }
         socket?.send(JSON.stringify(msg))
       } else {
-        const hello: WsMessage = { type: 'HELLO', roomCode: state.value.roomCode, playerId: state.value.playerId, name: state.value.playerName }
+        const hello: WsMessage = {
+          type: 'HELLO',
+          roomCode: state.value.roomCode,
+          playerId: state.value.playerId,
+          name: state.value.playerName,
+          ...(state.value.isHost ? { create: true } : {}),
+          ...(joinAsSpectator && !state.value.isHost ? { spectate: true } : {}),
+        }
         socket?.send(JSON.stringify(hello))
       }
+      clockSamples = []
+      sendPing()
       if (pingTimer != null) clearInterval(pingTimer)
-      pingTimer = window.setInterval(() => {
-        if (socket && socket.readyState === WebSocket.OPEN) {
-          socket.send(JSON.stringify({ type: 'PING' } satisfies WsMessage))
-        }
-      }, 15000)
+      pingTimer = window.setInterval(sendPing, 15000)
     }
     socket.onmessage = (ev) => {
       try {
@@ -470,10 +1006,29 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
         state.value.players = msg.players
         if (msg.category) state.value.category = msg.category
         if (msg.seed) state.value.seed = msg.seed
+        if (msg.seed && state.value.startedAt == null) state.value.startedAt = Date.now()
+        state.value.source = msg.source ?? null
+        state.value.contentHash = msg.contentHash ?? null
         if (msg.currentQuestionIndex != null) state.value.currentQuestionIndex = msg.currentQuestionIndex
-        if (state.value.category && state.value.seed) {
-          const pool = getPoolSync(state.value.category)
-          state.value.questions = seededShuffle(pool, state.value.seed)
+        state.value.authoritative = !!msg.authoritative
+        state.value.autoAdvance = !!msg.autoAdvance
+        if (msg.hostId) applyHost(msg.hostId)
+        state.value.locked = !!msg.locked
+        state.value.teams = msg.teams ?? []
+        state.value.teamScoring = msg.teamScoring ?? 'sum'
+        state.value.teamScores = msg.teamScores ?? null
+        state.value.questionDurationMs = msg.questionDurationMs ?? 0
+        if (msg.questionStartTs != null) {
+          openQuestion(state.value.currentQuestionIndex, msg.questionStartTs, msg.deadlineTs ?? null)
+        }
+        // a REVEAL follows when the room is between questions
+        if (msg.phase === 'over') endGame()
+        if (msg.authoritative) {
+          // answer keys of questions this player already answered are not resent; keep them
+          const known = state.value.questions
+          state.value.questions = (msg.questions ?? []).map((q, i) => (known[i]?.id === q.id ? known[i] : withAnswerKey(q)))
+        } else {
+          void rebuildQuestions()
         }
         break
       case 'PLAYER_LIST':
@@ -488,31 +1043,83 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
       case 'START':
         state.value.category = msg.category
         state.value.seed = msg.seed
+        state.value.source = msg.source ?? null
+        state.value.contentHash = msg.contentHash ?? null
+        state.value.startedAt = Date.now()
         state.value.submissions = []
-        state.value.currentQuestionIndex = 0
-        state.value.questionStartTs = msg.questionStartTs
-        if (state.value.category && state.value.seed) {
-          const pool = getPoolSync(state.value.category)
-          state.value.questions = seededShuffle(pool, state.value.seed)
-        }
+        state.value.questionDurationMs = msg.questionDurationMs ?? 0
+        openQuestion(0, msg.questionStartTs, msg.deadlineTs ?? questionDeadline(msg.questionStartTs, state.value.questionDurationMs))
+        if (state.value.authoritative) state.value.questions = (msg.questions ?? []).map(q => withAnswerKey(q))
+        else void rebuildQuestions()
         break
       case 'QUESTION_INDEX':
-        state.value.currentQuestionIndex = msg.index
-        state.value.questionStartTs = msg.questionStartTs
+        // the server advanced a timed round; coins are awarded where the host advances
+        if (serverDriven() && state.value.isHost && msg.index > state.value.currentQuestionIndex) {
+          awardQuestionCoins(state.value.currentQuestionIndex)
+        }
+        openQuestion(msg.index, msg.questionStartTs, msg.deadlineTs ?? questionDeadline(msg.questionStartTs, state.value.questionDurationMs))
+        break
+      case 'REVEAL': {
+        if (msg.questionIndex !== state.value.currentQuestionIndex) break
+        enterReveal(msg.revealUntilTs)
+        const q = state.value.questions[msg.questionIndex]
+        if (msg.key && q) state.value.questions[msg.questionIndex] = withAnswerKey(q, msg.key)
+        break
+      }
+      case 'GAME_OVER':
+        state.value.players = msg.players
+        if (state.value.isHost && state.value.phase !== 'over') awardQuestionCoins(state.value.currentQuestionIndex)
+        endGame()
         break
       case 'SUBMISSION':
-        appendSubmissionAndScore(msg.submission)
+        // client-scored rooms only; an authoritative server reports answers via RESULT
+        if (!state.value.authoritative) appendSubmissionAndScore(msg.submission)
+        break
+      case 'RESULT':
+        applyResult(msg)
         break
       case 'SCORES':
         state.value.players = msg.players
+        state.value.teamScores = msg.teamScores ?? null
+        break
+      case 'TEAMS':
+        applyTeams(msg.teams, msg.scoring)
         break
+      case 'CONTENT': {
+        // relay rooms: the host's questions; refused when the payload does not match its hash
+        const content = sanitizeContent(msg.content)
+        if (!content) break
+        contentCache.set(content.hash, content)
+        if (content.hash === state.value.contentHash) void rebuildQuestions()
+        break
+      }
       case 'ERROR':
         state.value.lastSocketError = msg.message
         break
+      case 'PONG':
+        applyPong(msg)
+        break
+      case 'HOST_CHANGED':
+        applyHost(msg.hostId)
+        break
+      case 'LOCK_ROOM':
+        state.value.locked = msg.locked
+        break
+      case 'KICKED':
+        // leave for good: no reconnect attempts, keep the reason for the lobby
+        leaveRoom()
+        state.value.lastSocketError = msg.reason
+        break
       case 'PING':
         break
       case 'HELLO':
       case 'REJOIN':
+      case 'ANSWER':
+      case 'KICK':
+      case 'TRANSFER_HOST':
+      case 'JOIN_TEAM':
+      case 'BALANCE_TEAMS':
+      case 'CONTENT_REQUEST':
         // handled by server; no-op here
         break
     }
@@ -537,15 +1144,27 @@ export const useMultiplayerStore = defineStore('multiplayer', () => {
     state,
     isInRoom,
     me,
+    spectating,
     leaderboard,
+    spectators,
+    teamLeaderboard,
+    unassignedPlayers,
     hasBackend,
     createRoom,
     joinRoom,
     readyUp,
     hostStart,
+    roomContentFor,
     submitAnswer,
     nextQuestion,
     fastestWinnerNameForQuestion,
+    answerDistribution,
+    kickPlayer,
+    transferHost,
+    setRoomLocked,
+    setTeams,
+    joinTeam,
+    autoBalanceTeams,
     leaveRoom,
     tryResumeFromLocal,
   }
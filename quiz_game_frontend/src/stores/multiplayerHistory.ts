@@ -0,0 +1,202 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { appendAnalytics } from './quiz'
+import type { RoomState } from './multiplayer'
+import { multiplayerAnalyticsMeta } from '@/utils/analytics'
+import { correctIndicesOf, expectedAnswerLabel, isTypedQuestion } from '@/utils/answers'
+import { isSpectator, teamScores, type AnswerSubmission, type PlayerRole, type RoomSource } from '@/utils/mpProtocol'
+
+/**
+ * Multiplayer match history.
+ * The multiplayer store records a match when the round ends (or when the player leaves a round
+ * that is still running), before leaveRoom wipes the room. Each record keeps the participants,
+ * final standings and every question's answers with their latency, for the post-game replay
+ * (MultiplayerReplayView) and the analytics history (mode 'multiplayer').
+ */
+
+export type MatchAnswer = {
+  playerId: string
+  // what was picked, as shown to players; unknown for other players in server-authoritative rooms
+  answer?: string
+  correct: boolean
+  points: number
+  fastest: boolean
+  // time from the question start to the answer (clock-corrected); null when not reported
+  elapsedMs: number | null
+}
+
+export type MatchQuestion = {
+  index: number
+  question: string
+  options: string[]
+  // null when the answer key never reached this device (authoritative room, question not revealed)
+  correctAnswer: string | null
+  // quickest first
+  answers: MatchAnswer[]
+  fastestPlayerIds: string[]
+}
+
+export type MatchParticipant = { id: string; name: string; role: PlayerRole; teamId?: string }
+
+/** Final standing of a player (spectators excluded); equal scores share a rank. */
+export type MatchStanding = { playerId: string; name: string; score: number; rank: number }
+
+export type MatchTeam = { id: string; name: string; color: string; score: number }
+
+export type MultiplayerMatch = {
+  // `${roomCode}:${seed}`: recording the same round again replaces it
+  id: string
+  roomCode: string
+  // category key, or the shipped quiz's title
+  category: string
+  source?: RoomSource
+  // the player on this device
+  playerId: string
+  startedAt: number
+  completedAt: number
+  // false when the player left before the round ended
+  completed: boolean
+  participants: MatchParticipant[]
+  standings: MatchStanding[]
+  teams?: MatchTeam[]
+  questions: MatchQuestion[]
+}
+
+const STORAGE_KEY = 'quizmaster:mp:history'
+const MAX_MATCHES = 50
+
+function readStorage(): MultiplayerMatch[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const arr = JSON.parse(raw)
+    return Array.isArray(arr) ? arr : []
+  } catch {
+    return []
+  }
+}
+
+function writeStorage(matches: MultiplayerMatch[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(matches.slice(0, MAX_MATCHES)))
+  } catch {
+    // ignore
+  }
+}
+
+// PUBLIC_INTERFACE
+export function matchIdOf(roomCode: string, seed: string): string {
+  return `${roomCode}:${seed}`
+}
+
+function answerLabel(s: AnswerSubmission, options: string[]): string | undefined {
+  if (s.answerText != null) return s.answerText
+  if (s.answerIndices?.length) return s.answerIndices.map(i => options[i] ?? `#${i + 1}`).join(', ')
+  return s.answerIndex >= 0 ? options[s.answerIndex] ?? `#${s.answerIndex + 1}` : undefined
+}
+
+function correctAnswerLabel(q: RoomState['questions'][number]): string | null {
+  if (isTypedQuestion(q)) return expectedAnswerLabel(q) || null
+  const indices = correctIndicesOf(q).filter(i => i >= 0 && i < q.options.length)
+  return indices.length ? indices.map(i => q.options[i]).join(', ') : null
+}
+
+function rankStandings(players: RoomState['players']): MatchStanding[] {
+  const sorted = players.filter(p => !isSpectator(p)).sort((a, b) => b.score - a.score)
+  return sorted.map(p => ({
+    playerId: p.id,
+    name: p.name,
+    score: p.score,
+    rank: sorted.findIndex(o => o.score === p.score) + 1,
+  }))
+}
+
+// PUBLIC_INTERFACE
+export function matchFromRoom(room: RoomState, completedAt = Date.now()): MultiplayerMatch | null {
+  /** Snapshot of the room's current round; null before a round has started. */
+  if (!room.seed || !room.questions.length) return null
+  const played = room.phase === 'over' ? room.questions.length : Math.min(room.questions.length, room.currentQuestionIndex + 1)
+  const questions: MatchQuestion[] = room.questions.slice(0, played).map((q, index) => {
+    const subs = room.submissions
+      .filter(s => s.questionIndex === index && !s.pending)
+      .sort((a, b) => (a.elapsedMs ?? Infinity) - (b.elapsedMs ?? Infinity))
+    return {
+      index,
+      question: q.question,
+      options: [...q.options],
+      correctAnswer: correctAnswerLabel(q),
+      answers: subs.map(s => ({
+        playerId: s.playerId,
+        answer: answerLabel(s, q.options),
+        correct: s.correct,
+        points: s.points ?? 0,
+        fastest: !!s.fastest,
+        elapsedMs: s.elapsedMs ?? null,
+      })),
+      fastestPlayerIds: subs.filter(s => s.correct && s.fastest).map(s => s.playerId),
+    }
+  })
+  const totals = room.teams.length
+    ? room.teamScores ?? teamScores(room.teams, room.players, room.submissions, room.teamScoring)
+    : null
+  return {
+    id: matchIdOf(room.roomCode, room.seed),
+    roomCode: room.roomCode,
+    category: room.source?.title ?? room.category ?? 'mixed',
+    ...(room.source ? { source: room.source } : {}),
+    playerId: room.playerId,
+    startedAt: room.startedAt ?? completedAt,
+    completedAt,
+    completed: room.phase === 'over',
+    participants: room.players.map(p => ({ id: p.id, name: p.name, role: p.role, ...(p.teamId ? { teamId: p.teamId } : {}) })),
+    standings: rankStandings(room.players),
+    ...(totals
+      ? {
+          teams: room.teams
+            .map(t => ({ id: t.id, name: t.name, color: t.color, score: totals[t.id] ?? 0 }))
+            .sort((a, b) => b.score - a.score),
+        }
+      : {}),
+    questions,
+  }
+}
+
+// PUBLIC_INTERFACE
+export const useMultiplayerHistoryStore = defineStore('multiplayerHistory', () => {
+  /** Saved multiplayer matches, newest first (at most MAX_MATCHES). */
+  const matches = ref<MultiplayerMatch[]>(readStorage())
+
+  // PUBLIC_INTERFACE
+  function record(match: MultiplayerMatch) {
+    /** Saves (or replaces, by id) a match; a new match also adds this player's analytics record. */
+    const existing = matches.value.findIndex(m => m.id === match.id)
+    if (existing >= 0) {
+      matches.value.splice(existing, 1, match)
+    } else {
+      matches.value.unshift(match)
+      const meta = multiplayerAnalyticsMeta(match)
+      if (meta) appendAnalytics(meta)
+    }
+    matches.value = matches.value.slice(0, MAX_MATCHES)
+    writeStorage(matches.value)
+  }
+
+  // PUBLIC_INTERFACE
+  function get(id: string): MultiplayerMatch | null {
+    return matches.value.find(m => m.id === id) ?? null
+  }
+
+  // PUBLIC_INTERFACE
+  function remove(id: string) {
+    matches.value = matches.value.filter(m => m.id !== id)
+    writeStorage(matches.value)
+  }
+
+  // PUBLIC_INTERFACE
+  function clear() {
+    matches.value = []
+    writeStorage([])
+  }
+
+  return { matches, record, get, remove, clear }
+})
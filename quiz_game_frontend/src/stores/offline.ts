@@ -1,6 +1,9 @@
 import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 import type { CategoryKey, QuizQuestion } from './quiz'
+import { isPlayableQuestionRecord, parseDifficulty, parseQuestionShape } from './quiz'
+import { inlineMedia, parseQuestionMedia } from '@/utils/media'
+import { useCategoryRegistryStore, type CategoryRegistry } from './categories'
 
 export type OfflinePackMeta = {
   category: CategoryKey
@@ -17,6 +20,7 @@ export type OfflinePack = {
 
 type OfflineState = {
   enabled: boolean
+  // registered categories only; packs of unknown keys are dropped when storage is read
   packs: Record<CategoryKey, OfflinePack | undefined>
 }
 
@@ -44,18 +48,26 @@ type RawQuestion = {
   referenceUrl?: unknown
   hint?: unknown
   clue?: unknown
+  difficulty?: unknown
+  type?: unknown
+  answerIndices?: unknown
+  acceptedAnswers?: unknown
+  fuzzyTolerance?: unknown
+  numericAnswer?: unknown
+  tolerance?: unknown
+  media?: unknown
 }
 function isRecord(val: unknown): val is Record<string, unknown> {
   return !!val && typeof val === 'object'
 }
 function isRawQuestion(val: unknown): val is RawQuestion {
   if (!isRecord(val)) return false
-  return 'question' in val && 'options' in val && 'answerIndex' in val
+  return isPlayableQuestionRecord(val)
 }
 function toPack(category: CategoryKey, data: unknown, version = 'v1'): OfflinePack | null {
   if (!Array.isArray(data)) return null
   const sanitized: QuizQuestion[] = (data as unknown[])
-    .filter((q: unknown) => isRawQuestion(q) && typeof (q as RawQuestion).question === 'string' && Array.isArray((q as RawQuestion).options) && typeof (q as RawQuestion).answerIndex === 'number')
+    .filter((q: unknown) => isRawQuestion(q))
     .map((q: unknown, i: number) => {
       const rq = q as RawQuestion
       const explanation =
@@ -66,15 +78,19 @@ function toPack(category: CategoryKey, data: unknown, version = 'v1'): OfflinePa
       const hint =
         (typeof rq.hint === 'string' ? rq.hint : undefined) ??
         (typeof rq.clue === 'string' ? rq.clue : undefined)
+      const options = Array.isArray(rq.options) ? (rq.options as unknown[]).map(String) : []
       return {
         id: rq.id ?? `${category}-${i + 1}`,
         question: String(rq.question),
-        options: ((rq.options as unknown[]) || []).map(String),
-        answerIndex: Number(rq.answerIndex),
+        options,
+        answerIndex: typeof rq.answerIndex === 'number' ? rq.answerIndex : -1,
         explanation,
         source,
         referenceUrl,
         hint,
+        difficulty: parseDifficulty(rq.difficulty),
+        media: parseQuestionMedia(rq.media),
+        ...parseQuestionShape(rq as Record<string, unknown>, options.length),
       } as QuizQuestion
     })
   if (!sanitized.length) return null
@@ -92,18 +108,35 @@ function toPack(category: CategoryKey, data: unknown, version = 'v1'): OfflinePa
   return pack
 }
 
-function readStorage(): OfflineState {
+/**
+ * Replace remote question media with data URLs so the pack plays without a network.
+ * Media that cannot be downloaded (CORS, too large, wrong type) keeps its URL.
+ */
+async function bundleMedia(data: unknown): Promise<unknown> {
+  if (!Array.isArray(data)) return data
+  return Promise.all(
+    data.map(async (q: unknown) => {
+      if (!isRecord(q)) return q
+      const media = parseQuestionMedia(q.media)
+      return media ? { ...q, media: await inlineMedia(media) } : q
+    })
+  )
+}
+
+function readStorage(registry: CategoryRegistry): OfflineState {
   try {
     const raw = localStorage.getItem(STORAGE_KEY)
     const flag = localStorage.getItem(OFFLINE_FLAG_KEY)
     const enabled = flag ? flag === '1' : false
-    if (!raw) return { enabled, packs: { gk: undefined, sports: undefined, movies: undefined, science: undefined, history: undefined, geography: undefined } }
+    if (!raw) return { enabled, packs: {} }
     const obj = JSON.parse(raw) as Partial<OfflineState>
-    const packs: OfflineState['packs'] = { gk: undefined, sports: undefined, movies: undefined, science: undefined, history: undefined, geography: undefined }
+    const packs: OfflineState['packs'] = {}
     if (obj && obj.packs && typeof obj.packs === 'object') {
       const src: Record<string, unknown> = obj.packs as Record<string, unknown>
-      for (const k of Object.keys(packs) as CategoryKey[]) {
+      // packs of categories the registry does not know (any more) are dropped
+      for (const k of Object.keys(src)) {
         const p = src[k]
+        if (!registry.has(k)) continue
         if (p && typeof p === 'object' && 'meta' in (p as Record<string, unknown>) && Array.isArray((p as { questions?: unknown }).questions)) {
           packs[k] = p as OfflinePack
         }
@@ -111,7 +144,7 @@ function readStorage(): OfflineState {
     }
     return { enabled, packs }
   } catch {
-    return { enabled: false, packs: { gk: undefined, sports: undefined, movies: undefined, science: undefined, history: undefined, geography: undefined } }
+    return { enabled: false, packs: {} }
   }
 }
 
@@ -126,13 +159,14 @@ function writeStorage(state: OfflineState) {
 
 // PUBLIC_INTERFACE
 export const useOfflineStore = defineStore('offline', () => {
-  const persisted = readStorage()
+  const registry = useCategoryRegistryStore()
+  const persisted = readStorage(registry)
   const enabled = ref<boolean>(persisted.enabled)
   const packs = ref<OfflineState['packs']>(persisted.packs)
 
-  const categories: CategoryKey[] = ['gk', 'sports', 'movies', 'science', 'history', 'geography']
+  const categories = computed<CategoryKey[]>(() => registry.keys)
 
-  const totalSize = computed(() => categories.reduce((acc, k) => acc + (packs.value[k]?.meta.size ?? 0), 0))
+  const totalSize = computed(() => categories.value.reduce((acc, k) => acc + (packs.value[k]?.meta.size ?? 0), 0))
 
   function persist() {
     writeStorage({ enabled: enabled.value, packs: packs.value })
@@ -174,16 +208,19 @@ export const useOfflineStore = defineStore('offline', () => {
 
   // PUBLIC_INTERFACE
   function clearAll() {
-    for (const k of categories) packs.value[k] = undefined
+    packs.value = {}
     persist()
   }
 
   // PUBLIC_INTERFACE
   function exportPack(category: CategoryKey): string | null {
+    /** Packs of runtime categories carry their definition so importing them registers the category. */
     const p = packs.value[category]
     if (!p) return null
+    const def = registry.get(category)
     const payload = {
       meta: p.meta,
+      ...(def && def.origin !== 'builtin' ? { category: { key: def.key, label: def.label, emoji: def.emoji, hint: def.hint, apiParam: def.apiParam, unlock: def.unlock } } : {}),
       questions: p.questions,
     }
     return JSON.stringify(payload, null, 2)
@@ -213,14 +250,14 @@ export const useOfflineStore = defineStore('offline', () => {
       return { ok: false, status: 'No backend configured' }
     }
     const url = new URL(`${base.replace(/\/+$/, '')}/api/questions`)
-    url.searchParams.set('category', category)
+    url.searchParams.set('category', registry.apiParamFor(category))
     try {
       const controller = new AbortController()
       const timeout = setTimeout(() => controller.abort(), 8000)
       const res = await fetch(url.toString(), { signal: controller.signal })
       clearTimeout(timeout)
       if (!res.ok) throw new Error(`HTTP ${res.status}`)
-      const data = await res.json()
+      const data = await bundleMedia(await res.json())
       const saved = savePack(category, data, 'v1')
       if (!saved) return { ok: false, status: 'Invalid payload' }
       return { ok: true, status: `Downloaded ${saved.meta.size} questions`, pack: saved }
@@ -232,7 +269,7 @@ export const useOfflineStore = defineStore('offline', () => {
 
   // PUBLIC_INTERFACE
   function getStorageUsageSummary(): { totalQuestions: number; categories: Array<{ category: CategoryKey; size: number; lastUpdated: number | null }> } {
-    const list = categories.map((c) => ({
+    const list = categories.value.map((c) => ({
       category: c,
       size: packs.value[c]?.meta.size ?? 0,
       lastUpdated: packs.value[c]?.meta.lastUpdated ?? null,
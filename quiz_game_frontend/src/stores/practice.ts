@@ -0,0 +1,212 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { listAnalytics, appendAnalytics, useQuizStore, type CategoryKey, type QuizQuestion } from './quiz'
+import { useCategoryRegistryStore } from './categories'
+import { useCategoryUnlockStore } from './categoryUnlocks'
+import { useReviewDeckStore } from './reviewDeck'
+import { computeCategoryBreakdown, detectWeakCategories, type AnalyticsMeta, type WeakCategory } from '@/utils/analytics'
+import { resolveQuestions } from '@/utils/questionSources'
+import { shuffleWithSeed } from '@/utils/pools'
+
+/**
+ * Weak-spot practice: a mixed quiz built from the categories analytics flags as weak (below
+ * WEAK_THRESHOLD_PCT) and from review-deck questions the player got wrong before.
+ * - weak categories get questions in proportion to how far below 100% they are
+ * - up to MISSED_SHARE of the quiz comes from the review deck, weak categories first
+ * - the quiz is played in the regular quiz screen; on the results screen `finish` records one
+ *   analytics entry per category with mode 'practice' (never a scoreboard entry) and reports how
+ *   each weak category's accuracy moved
+ */
+
+// a weak category that is registered and unlocked
+export type PracticeTarget = WeakCategory & { category: CategoryKey }
+
+export type PracticeSession = {
+  // quiz store startedAt of the practice quiz; ties a results screen to this session
+  startedAt: number
+  // weak categories (accuracy at the start) the quiz targeted
+  targets: PracticeTarget[]
+  // question id -> the category it came from
+  categoryOf: Record<string, CategoryKey>
+}
+
+export type PracticeMovement = {
+  category: CategoryKey
+  before: number
+  after: number
+  // accuracy within this practice quiz; null when no question of the category was answered
+  session: number | null
+}
+
+const STORAGE_KEY = 'quizmaster:practice.v1'
+export const PRACTICE_SIZE = 10
+const MISSED_SHARE = 0.4
+// same cut-off and minimum attempts as the Analytics screen
+const WEAK_THRESHOLD_PCT = 60
+const WEAK_MIN_ATTEMPTS = 5
+
+function readSession(): PracticeSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const data = raw ? (JSON.parse(raw) as Partial<PracticeSession>) : null
+    if (!data || typeof data.startedAt !== 'number' || !Array.isArray(data.targets) || !data.categoryOf) return null
+    return data as PracticeSession
+  } catch {
+    return null
+  }
+}
+
+function writeSession(session: PracticeSession | null) {
+  try {
+    if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session))
+    else localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // ignore
+  }
+}
+
+function allocate(weak: PracticeTarget[], count: number): Map<CategoryKey, number> {
+  // largest remainder over weights of (100 - accuracy), so the weakest category gets the most
+  const weights = weak.map((w) => Math.max(1, 100 - w.accuracy))
+  const sum = weights.reduce((a, b) => a + b, 0)
+  const exact = weights.map((w) => (w / sum) * count)
+  const counts = exact.map(Math.floor)
+  const order = exact.map((e, i) => ({ i, rest: e - counts[i] })).sort((a, b) => b.rest - a.rest)
+  for (let k = 0; k < count - counts.reduce((a, b) => a + b, 0); k++) counts[order[k % order.length].i] += 1
+  return new Map(weak.map((w, i) => [w.category, counts[i]]))
+}
+
+// PUBLIC_INTERFACE
+export const usePracticeStore = defineStore('practice', () => {
+  const session = ref<PracticeSession | null>(readSession())
+  /** Outcome of the last finished practice quiz (not persisted). */
+  const lastResult = ref<{ startedAt: number; movement: PracticeMovement[] } | null>(null)
+
+  function setSession(next: PracticeSession | null) {
+    session.value = next
+    writeSession(next)
+  }
+
+  // PUBLIC_INTERFACE
+  function weakCategories(): PracticeTarget[] {
+    /** Weak categories the player can currently play, weakest first. */
+    const registry = useCategoryRegistryStore()
+    const unlocks = useCategoryUnlockStore()
+    const breakdown = computeCategoryBreakdown(listAnalytics() as AnalyticsMeta[])
+    return detectWeakCategories(breakdown, { thresholdPct: WEAK_THRESHOLD_PCT, minAttempts: WEAK_MIN_ATTEMPTS }).flatMap((w) =>
+      registry.has(w.category) && unlocks.isUnlocked(w.category) ? [{ ...w, category: w.category }] : []
+    )
+  }
+
+  // PUBLIC_INTERFACE
+  function isPractice(startedAt: number | null): boolean {
+    /** True when the quiz that started at `startedAt` is the practice quiz, before or after `finish`. */
+    if (startedAt == null) return false
+    return session.value?.startedAt === startedAt || lastResult.value?.startedAt === startedAt
+  }
+
+  // PUBLIC_INTERFACE
+  async function start(): Promise<{ ok: boolean; error?: string }> {
+    /** Builds the practice quiz and loads it into the quiz store; the caller opens the quiz screen. */
+    const registry = useCategoryRegistryStore()
+    const weak = weakCategories()
+    const targets = new Set(weak.map((w) => w.category))
+    const missed = useReviewDeckStore()
+      .items.filter((i) => i.category != null && registry.has(i.category))
+      .sort(
+        (a, b) =>
+          Number(targets.has(b.category!)) - Number(targets.has(a.category!)) ||
+          b.schedule.lapses - a.schedule.lapses ||
+          a.schedule.due.localeCompare(b.schedule.due)
+      )
+    if (!weak.length && !missed.length) {
+      return { ok: false, error: `No weak spots yet: categories show up here once you score under ${WEAK_THRESHOLD_PCT}% over ${WEAK_MIN_ATTEMPTS}+ answers.` }
+    }
+
+    const picked: QuizQuestion[] = []
+    const categoryOf: Record<string, CategoryKey> = {}
+    const add = (q: QuizQuestion, cat: CategoryKey) => {
+      // ids are only unique per source; the quiz keys answers by id
+      if (categoryOf[String(q.id)] != null) return false
+      picked.push(q)
+      categoryOf[String(q.id)] = cat
+      return true
+    }
+
+    const missedCount = weak.length ? Math.round(PRACTICE_SIZE * MISSED_SHARE) : PRACTICE_SIZE
+    for (const item of missed) {
+      if (picked.length >= missedCount) break
+      add(item.question, item.category!)
+    }
+
+    if (weak.length) {
+      const wanted = allocate(weak, PRACTICE_SIZE - picked.length)
+      const spare: Array<{ q: QuizQuestion; cat: CategoryKey }> = []
+      for (const w of weak) {
+        const n = wanted.get(w.category) ?? 0
+        // fetch extra so duplicates of deck questions can be replaced
+        const res = await resolveQuestions(w.category, n + PRACTICE_SIZE)
+        let taken = 0
+        for (const q of res.questions) {
+          if (taken < n && add(q, w.category)) taken += 1
+          else spare.push({ q, cat: w.category })
+        }
+      }
+      // a category with too few questions leaves room for the others
+      for (const s of spare) {
+        if (picked.length >= PRACTICE_SIZE) break
+        add(s.q, s.cat)
+      }
+    }
+    if (!picked.length) return { ok: false, error: 'No questions available for your weak categories' }
+
+    const quiz = useQuizStore()
+    quiz.startPrepared(shuffleWithSeed(picked, String(Date.now())), weak[0]?.category ?? categoryOf[String(picked[0].id)])
+    setSession({ startedAt: quiz.startedAt!, targets: weak, categoryOf })
+    lastResult.value = null
+    return { ok: true }
+  }
+
+  // PUBLIC_INTERFACE
+  function finish(): PracticeMovement[] | null {
+    /**
+     * Records the finished practice quiz: one 'practice' analytics entry per category, missed
+     * questions into the review deck. Returns the accuracy movement of the targeted weak categories.
+     * Null when the quiz store does not hold the current practice quiz.
+     */
+    const quiz = useQuizStore()
+    const current = session.value
+    if (!current || current.startedAt !== quiz.startedAt) {
+      return lastResult.value?.startedAt === quiz.startedAt ? lastResult.value.movement : null
+    }
+    const deck = useReviewDeckStore()
+    const byCategory = new Map<CategoryKey, QuizQuestion[]>()
+    for (const q of quiz.questions) {
+      const cat = current.categoryOf[String(q.id)] ?? quiz.selectedCategory
+      byCategory.set(cat, [...(byCategory.get(cat) ?? []), q])
+    }
+    const sessionAccuracy = new Map<CategoryKey, number | null>()
+    const completedAt = Date.now()
+    for (const [cat, list] of byCategory) {
+      const record = quiz.buildAnalyticsMeta('practice', { questions: list, category: cat, completedAt })
+      if (!record) continue
+      appendAnalytics(record)
+      const { correctCount, wrongCount } = record
+      sessionAccuracy.set(cat, correctCount + wrongCount ? Math.round((correctCount / (correctCount + wrongCount)) * 100) : null)
+      deck.addMissed({ questions: list, answers: quiz.selectedAnswers, category: cat, sessionId: `practice:${current.startedAt}` })
+    }
+
+    const after = computeCategoryBreakdown(listAnalytics() as AnalyticsMeta[])
+    const movement = current.targets.map((t) => ({
+      category: t.category,
+      before: t.accuracy,
+      after: after.find((c) => c.category === t.category)?.accuracy ?? t.accuracy,
+      session: sessionAccuracy.get(t.category) ?? null,
+    }))
+    lastResult.value = { startedAt: current.startedAt, movement }
+    setSession(null)
+    return movement
+  }
+
+  return { session, lastResult, weakCategories, isPractice, start, finish }
+})
@@ -1,12 +1,90 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { ensureCoinsLoaded, useCoinsStore, COIN_RULES, CoinIds } from './coins'
+import { useUiPreferencesStore } from './uiPreferences'
+import { useLifelineShopStore } from './lifelineShop'
+import type { LifelineFlags, LifelineKind } from '@/utils/lifelines'
+import type { ModeKey } from '@/utils/analytics'
+import { parseScoringModel, timedScore, type ScoringModel, type TimedScore } from '@/utils/scoring'
+import { EXTRA_TIME_SECONDS, parseTimerSettings, type TimerExpiry, type TimerSettings } from '@/utils/timer'
+import pools from '@/utils/pools'
+import { builtinCategory } from '@/utils/categories'
+import { useCategoryRegistryStore, type CategoryRegistry } from './categories'
+import { parseQuestionMedia } from '@/utils/media'
+import {
+  answerCredit,
+  correctIndicesOf,
+  fiftyFiftyAvailable,
+  isAnswerCorrect,
+  isTypedQuestion,
+  parseAnswerIndices,
+  parseQuestionType,
+  parseTolerance,
+  type AnswerValue,
+  type ScoringPolicy,
+} from '@/utils/answers'
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard'
+
+/**
+ * single: one correct option; multi: several correct options (answerIndices);
+ * boolean: True/False options with one correct option;
+ * text / numeric: typed answers, no options (options = [], answerIndex = -1).
+ */
+export type QuestionType = 'single' | 'multi' | 'boolean' | 'text' | 'numeric'
+
+/** Accepted distance from a numeric answer; the larger of the two applies. `relative` is a fraction (0.05 = 5%). */
+export type NumericTolerance = { absolute?: number; relative?: number }
+
+export type QuestionMediaKind = 'image' | 'audio'
+
+/**
+ * Image or audio attached to a question ("name this poster", "identify this anthem").
+ * `alt` is required: a text alternative that lets screen-reader users answer without the media.
+ */
+export type QuestionMedia = {
+  kind: QuestionMediaKind
+  /** http(s) URL, app-relative path or data URL (uploads, bundled offline packs). */
+  src: string
+  alt: string
+  /** Optional attribution shown under the media. */
+  credit?: string
+}
 
 export type QuizQuestion = {
   id: string | number
   question: string
   options: string[]
+  /**
+   * Correct option index. For multi questions this mirrors the first entry of answerIndices
+   * so single-answer consumers keep working.
+   */
   answerIndex: number
+  /**
+   * Question type; missing means 'single'.
+   */
+  type?: QuestionType
+  /**
+   * All correct option indices (multi questions only).
+   */
+  answerIndices?: number[]
+  /**
+   * Accepted answers for text questions; the first one is shown as the expected answer.
+   * Matching ignores case, diacritics, punctuation and a leading article.
+   */
+  acceptedAnswers?: string[]
+  /**
+   * Max Levenshtein edits still accepted for text questions (typos); 0/undefined = exact after normalization.
+   */
+  fuzzyTolerance?: number
+  /**
+   * Expected value for numeric questions.
+   */
+  numericAnswer?: number
+  /**
+   * Accepted distance from numericAnswer; exact match when absent.
+   */
+  tolerance?: NumericTolerance
   /**
    * Optional explanation text shown after answering, to provide additional context.
    */
@@ -24,9 +102,80 @@ export type QuizQuestion = {
    * Maps from backend fields 'hint' or 'clue' when available.
    */
   hint?: string
+  /**
+   * Optional difficulty rating supplied by the question source (backend, offline pack, local pool).
+   * Tournament rounds select on it; questions without a rating are only used as a last resort.
+   */
+  difficulty?: QuestionDifficulty
+  /**
+   * Optional image/audio shown with the question stem (see utils/media.ts).
+   */
+  media?: QuestionMedia
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Parses a raw difficulty value (case-insensitive) from backend/pack data.
+ * Returns undefined for missing or unknown values.
+ */
+export function parseDifficulty(value: unknown): QuestionDifficulty | undefined {
+  if (typeof value !== 'string') return undefined
+  const v = value.trim().toLowerCase()
+  return v === 'easy' || v === 'medium' || v === 'hard' ? v : undefined
+}
+
+// Key of a category in the registry (stores/categories.ts): the built-in six or one loaded at runtime
+export type CategoryKey = string & { readonly __category: true }
+
+// Recorded per question id: option index, option indices (multi), typed answer (text/numeric) or 'SKIPPED'
+export type SelectedAnswer = AnswerValue | 'SKIPPED'
+
+type QuestionShape = Pick<
+  QuizQuestion,
+  'type' | 'answerIndices' | 'acceptedAnswers' | 'fuzzyTolerance' | 'numericAnswer' | 'tolerance'
+>
+
+function parseAcceptedAnswers(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((v): v is string => typeof v === 'string').map((v) => v.trim()).filter(Boolean))]
 }
 
-export type CategoryKey = 'gk' | 'sports' | 'movies' | 'science' | 'history' | 'geography'
+/**
+ * PUBLIC_INTERFACE
+ * Whether raw question data (session, backend, pack) carries a usable answer key:
+ * options + answerIndex for choice questions, acceptedAnswers / numericAnswer for typed ones.
+ */
+export function isPlayableQuestionRecord(raw: Record<string, unknown>): boolean {
+  if (typeof raw.question !== 'string') return false
+  const type = parseQuestionType(raw.type)
+  if (type === 'text') return parseAcceptedAnswers(raw.acceptedAnswers).length > 0
+  if (type === 'numeric') return raw.numericAnswer !== '' && raw.numericAnswer != null && Number.isFinite(Number(raw.numericAnswer))
+  return Array.isArray(raw.options) && typeof raw.answerIndex === 'number'
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Reads the type-specific answer fields from raw question data that passed isPlayableQuestionRecord().
+ * Multi questions without a usable index list are downgraded to single.
+ */
+export function parseQuestionShape(raw: Record<string, unknown>, optionCount: number): QuestionShape {
+  const type = parseQuestionType(raw.type)
+  if (type === 'text') {
+    const fuzzy = Number(raw.fuzzyTolerance)
+    return {
+      type,
+      acceptedAnswers: parseAcceptedAnswers(raw.acceptedAnswers),
+      ...(Number.isInteger(fuzzy) && fuzzy > 0 ? { fuzzyTolerance: fuzzy } : {}),
+    }
+  }
+  if (type === 'numeric') {
+    const tolerance = parseTolerance(raw.tolerance)
+    return { type, numericAnswer: Number(raw.numericAnswer), ...(tolerance ? { tolerance } : {}) }
+  }
+  if (type !== 'multi') return { type }
+  const answerIndices = parseAnswerIndices(raw.answerIndices, optionCount)
+  return answerIndices ? { type, answerIndices } : { type: 'single' }
+}
 
 type ScoreEntry = {
   player: string
@@ -35,22 +184,23 @@ type ScoreEntry = {
   category: CategoryKey
   categoryLabel?: string
   date: number
+  // how `score` was earned; absent = classic (correct answers). Timed scores are points.
+  scoringModel?: ScoringModel
+  // correct answers of a timed entry, whose score is points
+  correct?: number
   // optional metadata; used for daily mode tagging
   meta?: unknown
 }
 
-type LifelineUsage = {
-  fiftyFiftyUsed: boolean
-  skipUsed: boolean
-  extraTimeUsed: boolean
-  askHintUsed: boolean
-}
+type LifelineUsage = LifelineFlags
 
 type TimerState = {
-  // seconds remaining for the current question; if null, timer inactive
+  // seconds remaining for the current question (or the whole quiz with a budget); if null, timer inactive
   remaining: number | null
   // true when extra time lifeline was used on current question
   extraGranted: boolean
+  // true once the countdown reached zero and the expiry behavior was applied
+  expired: boolean
 }
 
 type SessionSchema = {
@@ -58,194 +208,32 @@ type SessionSchema = {
   selectedCategory: CategoryKey
   questions: QuizQuestion[]
   currentIndex: number
-  selectedAnswers: Record<string | number, number | 'SKIPPED'> // question.id -> selected index or 'SKIPPED'
+  selectedAnswers: Record<string | number, SelectedAnswer> // question.id -> selected index(es) or 'SKIPPED'
   score: number
+  // per-session scoring override (custom quizzes); absent = user preference
+  scoringPolicy?: ScoringPolicy | null
+  // scoring model the quiz started with; absent = classic
+  scoringModel?: ScoringModel
   startedAt: number
   updatedAt: number
   lifelines: LifelineUsage
+  // bought lifeline charges used this quiz (after the free uses)
+  chargesUsed?: Partial<Record<LifelineKind, number>>
   // map of question.id -> indices hidden by fiftyFifty
   fiftyFiftyHidden: Record<string | number, number[]>
   // per-question hint shown flag
   hintShown: Record<string | number, boolean>
   // simple per-question timer remaining; optional; stored to resume gently
   timers: Record<string | number, number | null>
+  // per-session timer override (custom quiz, tournament difficulty); absent = user preference
+  timer?: TimerSettings | null
+  // seconds left of a whole-quiz budget; absent until the budget starts
+  timerBudget?: number | null
   // analytics timing fields
   qStartTs: Record<string | number, number> // when question became visible
   qEndTs: Record<string | number, number>   // when answered/submitted/skipped
 }
 
-// Simple sample fallback pools per category to keep UX coherent when no backend is configured
-const fallbackPools: Record<CategoryKey, QuizQuestion[]> = {
-  gk: [
-    {
-      id: 'gk-1',
-      question: 'What is the capital of France?',
-      options: ['Madrid', 'Paris', 'Berlin', 'Rome'],
-      answerIndex: 1,
-      explanation: 'Paris is the capital and most populous city of France.',
-      source: 'Wikipedia',
-      referenceUrl: 'https://en.wikipedia.org/wiki/Paris',
-      hint: 'It is nicknamed the City of Light.'
-    },
-    {
-      id: 'gk-2',
-      question: 'What is 9 + 10?',
-      options: ['18', '19', '20'],
-      answerIndex: 1,
-      explanation: 'Basic arithmetic: 9 + 10 equals 19.',
-      hint: 'Think one more than 18.'
-    },
-    {
-      id: 'gk-3',
-      question: 'Which language runs in a web browser?',
-      options: ['Java', 'C', 'Python', 'JavaScript'],
-      answerIndex: 3,
-      explanation: 'JavaScript is the standard language for client-side web development.',
-      hint: 'It’s the language of the DOM.'
-    },
-  ],
-  sports: [
-    {
-      id: 'sp-1',
-      question: 'How many players in a football (soccer) team on the field?',
-      options: ['9', '10', '11', '12'],
-      answerIndex: 2,
-      explanation: 'A standard soccer team fields 11 players, including the goalkeeper.',
-      hint: 'It’s a number between 10 and 12.'
-    },
-    {
-      id: 'sp-2',
-      question: 'In tennis, what is 0 points called?',
-      options: ['Null', 'Love', 'Zero', 'Nil'],
-      answerIndex: 1,
-      explanation: 'In tennis scoring, “love” means zero.',
-      hint: 'A four-letter word that sounds romantic.'
-    },
-    {
-      id: 'sp-3',
-      question: 'Which country hosts the Tour de France?',
-      options: ['Italy', 'France', 'Spain', 'Belgium'],
-      answerIndex: 1,
-      explanation: 'The Tour de France is an annual men’s multiple stage bicycle race primarily held in France.',
-      hint: 'It’s in the event name.'
-    },
-  ],
-  movies: [
-    {
-      id: 'mv-1',
-      question: 'Who directed Inception?',
-      options: ['Steven Spielberg', 'Christopher Nolan', 'James Cameron', 'Ridley Scott'],
-      answerIndex: 1,
-      explanation: 'Christopher Nolan wrote and directed Inception (2010).',
-      hint: 'He also directed The Dark Knight.'
-    },
-    {
-      id: 'mv-2',
-      question: 'The Hobbit is set in which world?',
-      options: ['Narnia', 'Earthsea', 'Middle-earth', 'Westeros'],
-      answerIndex: 2,
-      explanation: 'Middle-earth is the fictional setting of Tolkien’s legendarium.',
-      hint: 'Think Tolkien.'
-    },
-    {
-      id: 'mv-3',
-      question: 'Which film features a DeLorean time machine?',
-      options: ['Back to the Future', 'Terminator', 'Looper', 'Primer'],
-      answerIndex: 0,
-      explanation: 'Back to the Future popularized the DeLorean as a time machine.',
-      hint: 'Great Scott!'
-    },
-  ],
-  science: [
-    {
-      id: 'sc-1',
-      question: 'Which planet is known as the Red Planet?',
-      options: ['Venus', 'Saturn', 'Mars', 'Jupiter'],
-      answerIndex: 2,
-      explanation: 'Mars appears reddish due to iron oxide (rust) on its surface.',
-      hint: 'Named after the Roman god of war.'
-    },
-    {
-      id: 'sc-2',
-      question: 'H2O is the chemical formula for?',
-      options: ['Hydrogen', 'Oxygen', 'Water', 'Helium'],
-      answerIndex: 2,
-      explanation: 'Two hydrogen atoms bonded to one oxygen atom makes water.',
-      hint: 'It’s essential for life and covers most of Earth.'
-    },
-    {
-      id: 'sc-3',
-      question: 'Speed of light is approximately?',
-      options: ['3x10^8 m/s', '3x10^6 m/s', '30000 km/s', '3x10^10 m/s'],
-      answerIndex: 0,
-      explanation: 'In vacuum, light speed is around 3 × 10^8 meters per second.',
-      hint: 'Roughly 300,000 km/s.'
-    },
-  ],
-  history: [
-    {
-      id: 'hs-1',
-      question: 'Who painted the Mona Lisa?',
-      options: ['Picasso', 'Da Vinci', 'Van Gogh'],
-      answerIndex: 1,
-      explanation: 'Leonardo da Vinci painted the Mona Lisa in the early 16th century.',
-      hint: 'His first name is Leonardo.'
-    },
-    {
-      id: 'hs-2',
-      question: 'The pyramids are located in which country?',
-      options: ['Peru', 'Egypt', 'Mexico', 'China'],
-      answerIndex: 1,
-      explanation: 'The most famous pyramids, including those at Giza, are in Egypt.',
-      hint: 'Home to the Nile delta.'
-    },
-    {
-      id: 'hs-3',
-      question: 'World War II ended in which year?',
-      options: ['1943', '1944', '1945', '1946'],
-      answerIndex: 2,
-      explanation: 'WWII ended in 1945 with the formal surrender of Axis powers.',
-      hint: 'Mid-1940s.'
-    },
-  ],
-  geography: [
-    {
-      id: 'ge-1',
-      question: 'Which is the largest ocean?',
-      options: ['Atlantic', 'Indian', 'Pacific', 'Arctic'],
-      answerIndex: 2,
-      explanation: 'The Pacific Ocean is the largest and deepest of Earth’s oceanic divisions.',
-      hint: 'Its name suggests calmness.'
-    },
-    {
-      id: 'ge-2',
-      question: 'Mount Everest is in which mountain range?',
-      options: ['Andes', 'Himalayas', 'Alps', 'Rockies'],
-      answerIndex: 1,
-      explanation: 'Everest is part of the Himalayas on the border of Nepal and China (Tibet).',
-      hint: 'Range spans Nepal and Tibet.'
-    },
-    {
-      id: 'ge-3',
-      question: 'The Nile river flows into which sea?',
-      options: ['Black Sea', 'Red Sea', 'Mediterranean Sea', 'Arabian Sea'],
-      answerIndex: 2,
-      explanation: 'The Nile empties into the Mediterranean Sea near Alexandria, Egypt.',
-      hint: 'The sea north of Africa.'
-    },
-  ],
-}
-
-// Map UI categories to backend parameter values
-const categoryParamMap: Record<CategoryKey, string> = {
-  gk: 'general',
-  sports: 'sports',
-  movies: 'movies',
-  science: 'science',
-  history: 'history',
-  geography: 'geography',
-}
-
 const SCOREBOARD_KEY = 'quizmaster:scores'
 const SESSION_KEY = 'quizmaster:session'
 const SESSION_VERSION = 3
@@ -258,7 +246,7 @@ type AnalyticsRecord = {
   skippedCount: number
   durations: number[]
   category: CategoryKey | string
-  mode: 'normal' | 'daily' | 'multiplayer'
+  mode: ModeKey
   startedAt: number
   completedAt: number
   longestCorrectStreak?: number
@@ -284,7 +272,7 @@ function writeScores(scores: ScoreEntry[]): void {
   }
 }
 
-function safeReadSession(): SessionSchema | null {
+function safeReadSession(registry: CategoryRegistry): SessionSchema | null {
   try {
     const raw = localStorage.getItem(SESSION_KEY)
     if (!raw) return null
@@ -298,8 +286,8 @@ function safeReadSession(): SessionSchema | null {
       !Array.isArray(obj.questions) ||
       typeof obj.currentIndex !== 'number' ||
       typeof obj.score !== 'number' ||
-      !obj.selectedCategory ||
-      typeof obj.selectedCategory !== 'string' ||
+      // a session of a category that is no longer registered cannot be resumed
+      !registry.has(obj.selectedCategory) ||
       typeof obj.startedAt !== 'number' ||
       typeof obj.updatedAt !== 'number' ||
       !obj.selectedAnswers ||
@@ -309,11 +297,7 @@ function safeReadSession(): SessionSchema | null {
     }
     // minimal validation of question schema, include explanation and hint fields if present
     const qs: QuizQuestion[] = (obj.questions as unknown[])
-      .filter((q: unknown) => {
-        if (!q || typeof q !== 'object') return false
-        const r = q as Record<string, unknown>
-        return typeof r.question === 'string' && Array.isArray(r.options) && typeof r.answerIndex === 'number'
-      })
+      .filter((q: unknown) => !!q && typeof q === 'object' && isPlayableQuestionRecord(q as Record<string, unknown>))
       .map((q: unknown, i: number) => {
         const r = q as Record<string, unknown>
         // support alias 'detail' for explanation if older data used that key
@@ -330,25 +314,31 @@ function safeReadSession(): SessionSchema | null {
             ? String((r as Record<string, unknown>).clue)
             : undefined)
 
+        const options = Array.isArray(r.options) ? (r.options as unknown[]).map(String) : []
         return {
           id: (r.id as string | number | undefined) ?? i + 1,
           question: String(r.question),
-          options: (r.options as unknown[]).map(String),
-          answerIndex: Number(r.answerIndex),
+          options,
+          answerIndex: typeof r.answerIndex === 'number' ? r.answerIndex : -1,
           explanation,
           referenceUrl,
           source,
           hint,
+          difficulty: parseDifficulty(r.difficulty),
+          media: parseQuestionMedia(r.media),
+          ...parseQuestionShape(r, options.length),
         } as QuizQuestion
       })
     if (!qs.length) return null
     return {
       version: SESSION_VERSION,
-      selectedCategory: obj.selectedCategory as CategoryKey,
+      selectedCategory: obj.selectedCategory,
       questions: qs,
       currentIndex: Math.max(0, Math.min(obj.currentIndex!, qs.length - 1)),
-      selectedAnswers: obj.selectedAnswers as Record<string | number, number | 'SKIPPED'>,
+      selectedAnswers: obj.selectedAnswers as Record<string | number, SelectedAnswer>,
       score: Math.max(0, Number(obj.score)),
+      scoringPolicy: obj.scoringPolicy === 'partial' || obj.scoringPolicy === 'all-or-nothing' ? obj.scoringPolicy : null,
+      scoringModel: parseScoringModel(obj.scoringModel),
       startedAt: obj.startedAt!,
       updatedAt: obj.updatedAt!,
       lifelines: (obj as Partial<SessionSchema>).lifelines ?? {
@@ -357,9 +347,12 @@ function safeReadSession(): SessionSchema | null {
         extraTimeUsed: false,
         askHintUsed: false,
       },
+      chargesUsed: (obj as Partial<SessionSchema>).chargesUsed ?? {},
       fiftyFiftyHidden: (obj as Partial<SessionSchema>).fiftyFiftyHidden ?? {},
       hintShown: (obj as Partial<SessionSchema>).hintShown ?? {},
       timers: (obj as Partial<SessionSchema>).timers ?? {},
+      timer: parseTimerSettings(obj.timer),
+      timerBudget: typeof obj.timerBudget === 'number' ? Math.max(0, obj.timerBudget) : null,
       qStartTs: (obj as Partial<SessionSchema>).qStartTs ?? {},
       qEndTs: (obj as Partial<SessionSchema>).qEndTs ?? {},
     }
@@ -386,6 +379,15 @@ function writeAnalytics(arr: AnalyticsRecord[]) {
   }
 }
 
+/**
+ * PUBLIC_INTERFACE
+ * Adds a record to the analytics history (newest first). Modes without a quiz session
+ * (multiplayer) build their own record.
+ */
+export function appendAnalytics(meta: AnalyticsRecord): void {
+  writeAnalytics([meta, ...readAnalytics()])
+}
+
 /**
  * PUBLIC_INTERFACE
  * Returns analytics history. Backfills partial data from scoreboard when necessary.
@@ -433,12 +435,17 @@ export const useQuizStore = defineStore('quiz', () => {
   const currentIndex = ref(0)
   const score = ref(0)
   const selectedIndex = ref<number | null>(null)
+  // ticked options for multi questions (selectedIndex tracks the last toggled one)
+  const selectedIndices = ref<number[]>([])
+  // typed input for text/numeric questions
+  const typedAnswer = ref('')
   const hasSubmitted = ref(false)
   const loading = ref(false)
   const error = ref<string | null>(null)
 
   // Category state
-  const selectedCategory = ref<CategoryKey>('gk')
+  const registry = useCategoryRegistryStore()
+  const selectedCategory = ref<CategoryKey>(builtinCategory('gk'))
 
   // session meta
   const startedAt = ref<number | null>(null)
@@ -455,7 +462,11 @@ export const useQuizStore = defineStore('quiz', () => {
   const sessionId = ref<string>(genSessionId())
   const updatedAt = ref<number | null>(null)
   // map of selected answers per question id
-  const selectedAnswers = ref<Record<string | number, number | 'SKIPPED'>>({})
+  const selectedAnswers = ref<Record<string | number, SelectedAnswer>>({})
+  // scoring policy override for this session (custom quizzes); null = user preference
+  const scoringPolicy = ref<ScoringPolicy | null>(null)
+  // scoring model of this quiz: the preference when the quiz started (see resetRuntime)
+  const scoringModel = ref<ScoringModel>(useUiPreferencesStore().scoringModel)
 
   // Lifelines state (per session, one-time each)
   const lifelines = ref<LifelineUsage>({
@@ -465,6 +476,9 @@ export const useQuizStore = defineStore('quiz', () => {
     askHintUsed: false,
   })
 
+  // Bought charges used this quiz, per lifeline (the free uses are the flags above)
+  const chargesUsed = ref<Partial<Record<LifelineKind, number>>>({})
+
   // Per-question hidden options from fifty-fifty
   const fiftyFiftyHidden = ref<Record<string | number, number[]>>({})
 
@@ -473,7 +487,11 @@ export const useQuizStore = defineStore('quiz', () => {
 
   // Lightweight timer per-question
   const timers = ref<Record<string | number, number | null>>({})
-  const timerState = ref<TimerState>({ remaining: null, extraGranted: false })
+  const timerState = ref<TimerState>({ remaining: null, extraGranted: false, expired: false })
+  // timer override for this session (custom quizzes, tournament difficulties); null = user preference
+  const timerOverride = ref<TimerSettings | null>(null)
+  // seconds left when the effective timer is a whole-quiz budget
+  const budgetRemaining = ref<number | null>(null)
 
   // Per-question timing for analytics
   const qStartTs = ref<Record<string | number, number>>({})
@@ -488,13 +506,54 @@ export const useQuizStore = defineStore('quiz', () => {
   )
   const isLast = computed(() => currentIndex.value >= total.value - 1)
   const isCurrentCorrect = computed(() =>
-    hasSubmitted.value && current.value ? selectedIndex.value === current.value.answerIndex : null
+    hasSubmitted.value && current.value ? isAnswerCorrect(current.value, currentAnswer()) : null
+  )
+  // whether the current question has something to submit
+  const hasSelection = computed(() => {
+    if (isTypedQuestion(current.value)) return typedAnswer.value.trim().length > 0
+    return current.value?.type === 'multi' ? selectedIndices.value.length > 0 : selectedIndex.value !== null
+  })
+  const effectiveScoringPolicy = computed<ScoringPolicy>(
+    () => scoringPolicy.value ?? useUiPreferencesStore().scoringPolicy
+  )
+  // points under the timed model; null for classic quizzes
+  const timedPoints = computed<TimedScore | null>(() =>
+    scoringModel.value === 'timed'
+      ? timedScore({
+          questions: questions.value,
+          answers: selectedAnswers.value,
+          startTs: qStartTs.value,
+          endTs: qEndTs.value,
+          policy: effectiveScoringPolicy.value,
+          lifelines: lifelines.value,
+          chargesUsed: chargesUsed.value,
+        })
+      : null
+  )
+  const effectiveTimer = computed<TimerSettings>(
+    () => timerOverride.value ?? useUiPreferencesStore().timerFor(selectedCategory.value)
+  )
+  // what reaching zero does; a countdown started by the Extra time lifeline with the timer off only warns
+  const expiryAction = computed<TimerExpiry>(() =>
+    effectiveTimer.value.mode === 'off' ? 'warn' : effectiveTimer.value.onExpire
+  )
+  // the whole-quiz budget ran out and the remaining questions were skipped: the quiz is over
+  const quizTimeUp = computed(
+    () => effectiveTimer.value.mode === 'quiz-budget' && expiryAction.value !== 'warn' && budgetRemaining.value === 0
   )
 
+  function currentAnswer(): AnswerValue | null {
+    if (isTypedQuestion(current.value)) return typedAnswer.value.trim() ? { text: typedAnswer.value.trim() } : null
+    if (current.value?.type === 'multi') return selectedIndices.value.length ? [...selectedIndices.value] : null
+    return selectedIndex.value
+  }
+
   function resetRuntime() {
     currentIndex.value = 0
     score.value = 0
     selectedIndex.value = null
+    selectedIndices.value = []
+    typedAnswer.value = ''
     hasSubmitted.value = false
     // ensure current question has a start timestamp
     const curId2 = questions.value[currentIndex.value]?.id
@@ -505,16 +564,19 @@ export const useQuizStore = defineStore('quiz', () => {
     selectedAnswers.value = {}
     startedAt.value = null
     updatedAt.value = null
+    scoringModel.value = useUiPreferencesStore().scoringModel
     lifelines.value = {
       fiftyFiftyUsed: false,
       skipUsed: false,
       extraTimeUsed: false,
       askHintUsed: false,
     }
+    chargesUsed.value = {}
     fiftyFiftyHidden.value = {}
     hintShown.value = {}
     timers.value = {}
-    timerState.value = { remaining: null, extraGranted: false }
+    timerState.value = { remaining: null, extraGranted: false, expired: false }
+    budgetRemaining.value = null
     qStartTs.value = {}
     qEndTs.value = {}
   }
@@ -522,120 +584,41 @@ export const useQuizStore = defineStore('quiz', () => {
   // PUBLIC_INTERFACE
   function resetAll() {
     questions.value = []
+    scoringPolicy.value = null
+    timerOverride.value = null
     resetRuntime()
     // also clear any in-progress session
     clearSession()
   }
 
   // PUBLIC_INTERFACE
-  function setCategory(cat: CategoryKey) {
+  function setCategory(cat: string): boolean {
+    /** Selects a registered category; an unknown key is refused and the selection is kept. */
+    if (!registry.has(cat)) return false
     selectedCategory.value = cat
-  }
-
-  function buildQuestionsUrl(): string {
-    const apiBase =
-      (import.meta.env.VITE_API_BASE as string) ||
-      (import.meta.env.VITE_BACKEND_URL as string) ||
-      ''
-    if (!apiBase) return ''
-    const base = apiBase.replace(/\/*$/, '')
-    const param = categoryParamMap[selectedCategory.value] ?? selectedCategory.value
-    // Add category as query param if supported by backend
-    const url = new URL(`${base}/api/questions`)
-    url.searchParams.set('category', param)
-    return url.toString()
+    return true
   }
 
   // PUBLIC_INTERFACE
   async function loadQuestions(): Promise<void> {
+    if (!registry.has(selectedCategory.value)) {
+      questions.value = []
+      error.value = `Unknown category "${selectedCategory.value}"`
+      return
+    }
     loading.value = true
     error.value = null
     try {
-      // 1) If offline mode is enabled and a cached pack exists, use it immediately
-      const { useOfflineStore } = await import('./offline')
-      const offline = useOfflineStore()
-      const cached = offline.getPack(selectedCategory.value)
-      const offlinePreferred = offline.enabled
-
-      if (offlinePreferred && cached?.questions?.length) {
-        questions.value = cached.questions
-      } else {
-        // 2) Otherwise attempt network fetch if backend configured
-        const url = buildQuestionsUrl()
-        if (url) {
-          try {
-            const controller = new AbortController()
-            const timeout = setTimeout(() => controller.abort(), 6000)
-            const res = await fetch(url, { signal: controller.signal })
-            clearTimeout(timeout)
-            if (!res.ok) throw new Error(`Failed to load questions: ${res.status}`)
-            const data: unknown = await res.json()
-            const list = Array.isArray(data) ? data : []
-            const normalized: QuizQuestion[] = list
-              .filter((q: unknown) => {
-                if (!q || typeof q !== 'object') return false
-                const obj = q as Record<string, unknown>
-                return typeof obj.question === 'string' && Array.isArray(obj.options) && typeof obj.answerIndex === 'number'
-              })
-              .map((q: unknown, i: number): QuizQuestion => {
-                const obj = q as Record<string, unknown>
-                const explanation =
-                  (typeof obj.explanation === 'string' ? (obj.explanation as string) : undefined) ??
-                  (typeof (obj as Record<string, unknown>).detail === 'string' ? String((obj as Record<string, unknown>).detail) : undefined)
-                const referenceUrl = typeof obj.referenceUrl === 'string' ? (obj.referenceUrl as string) : undefined
-                const source = typeof obj.source === 'string' ? (obj.source as string) : undefined
-                const hint =
-                  (typeof (obj as Record<string, unknown>).hint === 'string'
-                    ? String((obj as Record<string, unknown>).hint)
-                    : undefined) ??
-                  (typeof (obj as Record<string, unknown>).clue === 'string'
-                    ? String((obj as Record<string, unknown>).clue)
-                    : undefined)
-                return {
-                  id: (obj.id as string | number | undefined) ?? i + 1,
-                  question: String(obj.question),
-                  options: (obj.options as unknown[]).map(String),
-                  answerIndex: Number(obj.answerIndex),
-                  explanation,
-                  referenceUrl,
-                  source,
-                  hint,
-                }
-              })
-            if (normalized.length) {
-              questions.value = normalized
-              // Save latest network data to offline cache as a refresh (if user has enabled offline)
-              if (offline.enabled) {
-                offline.savePack(selectedCategory.value, normalized, 'v1')
-              }
-            } else if (cached?.questions?.length) {
-              // Network returned empty; fallback to cache
-              questions.value = cached.questions
-            } else {
-              questions.value = fallbackPools[selectedCategory.value] ?? fallbackPools.gk
-            }
-          } catch (fetchErr) {
-            // Network failed; try cached, then fallback
-            if (cached?.questions?.length) {
-              questions.value = cached.questions
-            } else {
-              questions.value = fallbackPools[selectedCategory.value] ?? fallbackPools.gk
-            }
-            const msg =
-              fetchErr && typeof fetchErr === 'object' && 'message' in fetchErr
-                ? String((fetchErr as { message?: string }).message)
-                : 'Failed to load questions'
-            error.value = msg
-          }
-        } else {
-          // No backend configured; prefer cached pack if present
-          if (cached?.questions?.length) {
-            questions.value = cached.questions
-          } else {
-            questions.value = fallbackPools[selectedCategory.value] ?? fallbackPools.gk
-          }
-        }
+      // Sources (offline pack, backend, cached pack, local pools) are consulted by priority.
+      // dynamic import to avoid circulars (sources import quiz helpers)
+      const { resolveQuestions } = await import('@/utils/questionSources')
+      const result = await resolveQuestions(selectedCategory.value, Number.POSITIVE_INFINITY)
+      if (!result.questions.length) {
+        throw new Error(result.errors[0] ?? 'No questions available')
       }
+      questions.value = result.questions
+      // surface the failure of a higher-priority source even though a fallback served the quiz
+      error.value = result.errors[0] ?? null
 
       // initialize session metadata on first load
       if (!startedAt.value) startedAt.value = Date.now()
@@ -644,6 +627,7 @@ export const useQuizStore = defineStore('quiz', () => {
       if (firstId != null && qStartTs.value[firstId] == null) {
         qStartTs.value[firstId] = Date.now()
       }
+      armTimer()
       persistSession()
     } catch (e: unknown) {
       const msg =
@@ -651,34 +635,65 @@ export const useQuizStore = defineStore('quiz', () => {
           ? String((e as { message?: string }).message)
           : 'Failed to load questions'
       error.value = msg
-      questions.value = fallbackPools[selectedCategory.value] ?? fallbackPools.gk
+      questions.value = pools[selectedCategory.value] ?? pools.gk
       if (!startedAt.value) startedAt.value = Date.now()
       updatedAt.value = Date.now()
+      armTimer()
       persistSession()
     } finally {
       loading.value = false
     }
   }
 
+  // PUBLIC_INTERFACE
+  function startPrepared(list: QuizQuestion[], cat: CategoryKey) {
+    /** Starts a quiz on questions picked elsewhere (weak-spot practice) instead of a category's sources. */
+    resetAll()
+    selectedCategory.value = cat
+    questions.value = list
+    startedAt.value = Date.now()
+    updatedAt.value = Date.now()
+    const firstId = questions.value[0]?.id
+    if (firstId != null) qStartTs.value[firstId] = Date.now()
+    armTimer()
+    persistSession()
+  }
+
   // PUBLIC_INTERFACE
   function selectOption(index: number) {
     if (hasSubmitted.value) return
     selectedIndex.value = index
+    // multi questions toggle the option instead of replacing the selection
+    if (current.value?.type === 'multi') {
+      selectedIndices.value = selectedIndices.value.includes(index)
+        ? selectedIndices.value.filter((i) => i !== index)
+        : [...selectedIndices.value, index].sort((a, b) => a - b)
+    }
     // do not mark selectedAnswers until submission; but persist the transient index too
     touchAndPersist()
   }
 
   // PUBLIC_INTERFACE
-  function submitAnswer(): { correct: boolean } {
-    if (selectedIndex.value === null || !current.value) {
-      return { correct: false }
+  function setTypedAnswer(text: string) {
+    /** Updates the typed answer for text/numeric questions (not persisted until submission). */
+    if (hasSubmitted.value) return
+    typedAnswer.value = text
+  }
+
+  // PUBLIC_INTERFACE
+  function submitAnswer(): { correct: boolean; credit: number } {
+    const answer = currentAnswer()
+    if (answer === null || !current.value) {
+      return { correct: false, credit: 0 }
     }
     hasSubmitted.value = true
-    const correct = selectedIndex.value === current.value.answerIndex
-    if (correct) score.value += 1
+    // credit is 0..1; fractional only for multi questions under the partial policy
+    const credit = answerCredit(current.value, answer, effectiveScoringPolicy.value)
+    const correct = credit === 1
+    if (credit > 0) score.value = Math.round((score.value + credit) * 100) / 100
     // track per-question selected answer
     const qid = current.value.id
-    selectedAnswers.value[qid] = selectedIndex.value
+    selectedAnswers.value[qid] = answer
     // analytics end timestamp for this question
     if (qEndTs.value[qid] == null) qEndTs.value[qid] = Date.now()
 
@@ -714,7 +729,7 @@ export const useQuizStore = defineStore('quiz', () => {
     }
 
     touchAndPersist()
-    return { correct }
+    return { correct, credit }
   }
 
   // PUBLIC_INTERFACE
@@ -723,10 +738,11 @@ export const useQuizStore = defineStore('quiz', () => {
     if (currentIndex.value < total.value - 1) {
       currentIndex.value += 1
       selectedIndex.value = null
+      selectedIndices.value = []
+      typedAnswer.value = ''
       hasSubmitted.value = false
-      // reset timer state for new question (will be started only when extraTime is used)
+      armTimer()
       const qid = questions.value[currentIndex.value]?.id
-      timerState.value = { remaining: (qid != null ? timers.value[qid] ?? null : null), extraGranted: false }
       // mark start ts for new current
       if (qid != null && qStartTs.value[qid] == null) {
         qStartTs.value[qid] = Date.now()
@@ -741,9 +757,9 @@ export const useQuizStore = defineStore('quiz', () => {
 
   function buildSession(): SessionSchema | null {
     if (!questions.value.length) return null
-    // persist timer remaining for current question if any
+    // persist timer remaining for current question if any (a quiz budget is kept in timerBudget)
     const curId = questions.value[currentIndex.value]?.id
-    if (curId != null && timerState.value.remaining != null) {
+    if (curId != null && timerState.value.remaining != null && effectiveTimer.value.mode !== 'quiz-budget') {
       timers.value[curId] = timerState.value.remaining
     }
     return {
@@ -753,12 +769,17 @@ export const useQuizStore = defineStore('quiz', () => {
       currentIndex: currentIndex.value,
       selectedAnswers: selectedAnswers.value,
       score: score.value,
+      scoringPolicy: scoringPolicy.value,
+      scoringModel: scoringModel.value,
       startedAt: startedAt.value ?? Date.now(),
       updatedAt: updatedAt.value ?? Date.now(),
       lifelines: lifelines.value,
+      chargesUsed: chargesUsed.value,
       fiftyFiftyHidden: fiftyFiftyHidden.value,
       hintShown: hintShown.value,
       timers: timers.value,
+      timer: timerOverride.value,
+      timerBudget: budgetRemaining.value,
       qStartTs: qStartTs.value,
       qEndTs: qEndTs.value,
     }
@@ -776,7 +797,7 @@ export const useQuizStore = defineStore('quiz', () => {
 
   // PUBLIC_INTERFACE
   function hasSavedSession(): boolean {
-    return safeReadSession() !== null
+    return safeReadSession(registry) !== null
   }
 
   // PUBLIC_INTERFACE
@@ -788,31 +809,35 @@ export const useQuizStore = defineStore('quiz', () => {
 
   // PUBLIC_INTERFACE
   async function resumeIfAvailable(): Promise<boolean> {
-    const saved = safeReadSession()
+    const saved = safeReadSession(registry)
     if (!saved) return false
     // hydrate state
     selectedCategory.value = saved.selectedCategory
     questions.value = saved.questions
     currentIndex.value = saved.currentIndex
     score.value = saved.score
+    scoringPolicy.value = saved.scoringPolicy ?? null
+    scoringModel.value = saved.scoringModel ?? 'classic'
     selectedAnswers.value = saved.selectedAnswers || {}
     startedAt.value = saved.startedAt
     updatedAt.value = saved.updatedAt
     lifelines.value = saved.lifelines ?? lifelines.value
+    chargesUsed.value = saved.chargesUsed ?? {}
     fiftyFiftyHidden.value = saved.fiftyFiftyHidden ?? {}
     hintShown.value = saved.hintShown ?? {}
     timers.value = saved.timers ?? {}
+    timerOverride.value = saved.timer ?? null
+    budgetRemaining.value = saved.timerBudget ?? null
     qStartTs.value = (saved as unknown as SessionSchema).qStartTs ?? {}
     qEndTs.value = (saved as unknown as SessionSchema).qEndTs ?? {}
     // set selectedIndex for current if previously answered; otherwise null; ignore 'SKIPPED'
     const curId = questions.value[currentIndex.value]?.id
     const prev = curId != null ? saved.selectedAnswers[curId] : null
     selectedIndex.value = typeof prev === 'number' ? prev : null
-    // init timer for current question if saved
-    timerState.value = {
-      remaining: (curId != null ? timers.value[curId] ?? null : null) as number | null,
-      extraGranted: false,
-    }
+    selectedIndices.value = Array.isArray(prev) ? [...prev] : []
+    typedAnswer.value = prev && typeof prev === 'object' && !Array.isArray(prev) ? prev.text : ''
+    // init timer for current question (saved countdown or budget first)
+    armTimer()
     hasSubmitted.value = false
     error.value = null
     loading.value = false
@@ -821,21 +846,29 @@ export const useQuizStore = defineStore('quiz', () => {
 
   // Results & Scoreboard
 
-  // Compute analytics record for this session (normal mode)
-  function buildAnalyticsMeta(mode: 'normal' | 'daily' | 'multiplayer' = 'normal'): AnalyticsRecord | null {
-    if (!questions.value.length || startedAt.value == null) return null
-    const totalQ = questions.value.length
+  // PUBLIC_INTERFACE
+  function buildAnalyticsMeta(
+    mode: ModeKey = 'normal',
+    scope?: { questions: QuizQuestion[]; category: CategoryKey; completedAt?: number }
+  ): AnalyticsRecord | null {
+    /**
+     * Analytics record for this session. `scope` limits it to some of the questions under another
+     * category (weak-spot practice records one entry per category it mixed in).
+     */
+    const list = scope?.questions ?? questions.value
+    if (!list.length || startedAt.value == null) return null
+    const totalQ = list.length
     let correct = 0
     let wrong = 0
     let skipped = 0
     const durations: number[] = []
     for (let i = 0; i < totalQ; i++) {
-      const q = questions.value[i]
+      const q = list[i]
       const sel = selectedAnswers.value[q.id]
       if (sel === 'SKIPPED') {
         skipped += 1
-      } else if (typeof sel === 'number') {
-        if (sel === q.answerIndex) correct += 1
+      } else if (sel != null) {
+        if (isAnswerCorrect(q, sel)) correct += 1
         else wrong += 1
       }
       // duration only if we have both start and end
@@ -848,9 +881,9 @@ export const useQuizStore = defineStore('quiz', () => {
     // compute strike
     const correctFlags: boolean[] = []
     for (let i = 0; i < totalQ; i++) {
-      const q = questions.value[i]
+      const q = list[i]
       const sel = selectedAnswers.value[q.id]
-      correctFlags.push(typeof sel === 'number' && sel === q.answerIndex)
+      correctFlags.push(isAnswerCorrect(q, sel))
     }
     const longestCorrectStreak = correctFlags.reduce(
       (best, _, idx, arr) => {
@@ -868,25 +901,24 @@ export const useQuizStore = defineStore('quiz', () => {
       wrongCount: wrong,
       skippedCount: skipped,
       durations,
-      category: selectedCategory.value,
+      category: scope?.category ?? selectedCategory.value,
       mode,
       startedAt: startedAt.value,
-      completedAt: Date.now(),
+      completedAt: scope?.completedAt ?? Date.now(),
       longestCorrectStreak,
     }
   }
 
   function recordAnalytics(meta: AnalyticsRecord | null) {
     if (!meta) return
-    const existing = readAnalytics()
-    writeAnalytics([meta, ...existing])
+    appendAnalytics(meta)
   }
 
   // PUBLIC_INTERFACE
-  function addScore(entry: { player?: string | null; score: number; total: number; category: CategoryKey; categoryLabel?: string; meta?: unknown }): void {
+  function addScore(entry: { player?: string | null; score: number; total: number; category: CategoryKey; categoryLabel?: string; scoringModel?: ScoringModel; correct?: number; meta?: unknown }): void {
     /**
      * Add a score to persistent storage (localStorage). Stores latest at the top.
-     * Omits player name if not provided.
+     * Omits player name if not provided. Timed entries keep their model and correct-answer count.
      */
     const existing = readScores()
     const normalized: ScoreEntry = {
@@ -896,6 +928,7 @@ export const useQuizStore = defineStore('quiz', () => {
       category: entry.category,
       categoryLabel: entry.categoryLabel,
       date: Date.now(),
+      ...(entry.scoringModel === 'timed' ? { scoringModel: 'timed' as const, correct: Number(entry.correct) || 0 } : {}),
       meta: entry.meta,
     }
     const next = [normalized, ...existing].slice(0, 100) // cap to 100 entries
@@ -934,29 +967,48 @@ export const useQuizStore = defineStore('quiz', () => {
 
   // Lifelines
 
+  // PUBLIC_INTERFACE
+  function canUseLifeline(kind: LifelineKind): boolean {
+    /** True while the free use of this lifeline is left or a bought charge is in stock. */
+    return useLifelineShopStore().canUse(kind, lifelines.value)
+  }
+
+  function takeLifeline(kind: LifelineKind) {
+    // the quiz's free use first, then a bought charge
+    if (useLifelineShopStore().take(kind, lifelines.value) === 'charge') {
+      chargesUsed.value = { ...chargesUsed.value, [kind]: (chargesUsed.value[kind] ?? 0) + 1 }
+    }
+  }
+
   // PUBLIC_INTERFACE
   function useFiftyFifty(): { ok: boolean; hidden: number[] } {
     /**
      * Removes two incorrect options for the current question.
      * Picks two wrong indices that are not the correct one and not currently selected (if any).
-     * Persists hidden indices per-question.
+     * Not available for true/false and typed (text/numeric) questions; multi questions always keep
+     * at least one wrong option.
+     * Persists hidden indices per-question. Free once per quiz, then uses a bought charge.
      */
     const cur = current.value
-    if (!cur || lifelines.value.fiftyFiftyUsed) return { ok: false, hidden: [] }
+    if (!cur || !canUseLifeline('fiftyFifty') || !fiftyFiftyAvailable(cur)) return { ok: false, hidden: [] }
     const qid = cur.id
     const already = fiftyFiftyHidden.value[qid]
     if (already && already.length) {
       return { ok: true, hidden: already }
     }
-    const wrongs = cur.options.map((_, i) => i).filter((i) => i !== cur.answerIndex)
+    const correctSet = new Set(correctIndicesOf(cur))
+    const wrongs = cur.options.map((_, i) => i).filter((i) => !correctSet.has(i))
+    const maxHide = cur.type === 'multi' ? Math.min(2, wrongs.length - 1) : Math.min(2, wrongs.length)
+    if (maxHide <= 0) return { ok: false, hidden: [] }
     // Exclude currently selected to avoid removing user's picked option
-    const notSelected = wrongs.filter((i) => i !== selectedIndex.value)
-    const pool = notSelected.length >= 2 ? notSelected : wrongs
+    const picked = cur.type === 'multi' ? selectedIndices.value : [selectedIndex.value]
+    const notSelected = wrongs.filter((i) => !picked.includes(i))
+    const pool = notSelected.length >= maxHide ? notSelected : wrongs
     // pick two at random or first two
     const shuffled = [...pool].sort(() => Math.random() - 0.5)
-    const hidden = shuffled.slice(0, Math.min(2, pool.length))
+    const hidden = shuffled.slice(0, maxHide)
     fiftyFiftyHidden.value[qid] = hidden
-    lifelines.value.fiftyFiftyUsed = true
+    takeLifeline('fiftyFifty')
     touchAndPersist()
     return { ok: true, hidden }
   }
@@ -966,70 +1018,135 @@ export const useQuizStore = defineStore('quiz', () => {
     /**
      * Skips current question without affecting score.
      * Marks selectedAnswers for this question as 'SKIPPED' for analytics.
+     * Not available once the question is answered.
      */
     const cur = current.value
-    if (!cur || lifelines.value.skipUsed) return { ok: false }
-    // mark skipped
-    selectedAnswers.value[cur.id] = 'SKIPPED'
-    // mark end timestamp for analytics
-    if (qEndTs.value[cur.id] == null) qEndTs.value[cur.id] = Date.now()
-    lifelines.value.skipUsed = true
+    if (!cur || hasSubmitted.value || !canUseLifeline('skip')) return { ok: false }
+    markSkipped(cur)
+    takeLifeline('skip')
     hasSubmitted.value = true // treat as reviewed for flow
     touchAndPersist()
     return { ok: true }
   }
 
+  function markSkipped(q: QuizQuestion) {
+    // 'SKIPPED' answer plus the end timestamp for analytics
+    selectedAnswers.value[q.id] = 'SKIPPED'
+    if (qEndTs.value[q.id] == null) qEndTs.value[q.id] = Date.now()
+  }
+
   // PUBLIC_INTERFACE
   function useExtraTime(): { ok: boolean; remaining: number | null } {
     /**
-     * If a timer exists, extend by +15s. If no timer, create a gentle timer for this question.
-     * Timer does not auto-fail; it's informational only.
+     * Adds EXTRA_TIME_SECONDS to the running countdown (the question's, or the quiz budget).
+     * With the timer off, starts a countdown of the configured seconds plus the bonus for this
+     * question; that one only warns when it runs out. Free once per quiz, then uses a bought charge.
      */
     const cur = current.value
-    if (!cur || lifelines.value.extraTimeUsed) return { ok: false, remaining: timerState.value.remaining }
+    if (!cur || !canUseLifeline('extraTime')) return { ok: false, remaining: timerState.value.remaining }
     const qid = cur.id
-    const BASE = 20 // base seconds for gentle per-question timer when created
-    const EXT = 15
-    // Initialize if absent
     let remaining = timerState.value.remaining
     if (remaining == null) {
       // try saved value
       const saved = timers.value[qid]
-      remaining = typeof saved === 'number' ? saved : BASE
+      remaining = typeof saved === 'number' ? saved : effectiveTimer.value.seconds
     }
-    remaining += EXT
-    timerState.value = { remaining, extraGranted: true }
-    timers.value[qid] = remaining
-    lifelines.value.extraTimeUsed = true
+    remaining += EXTRA_TIME_SECONDS
+    timerState.value = { remaining, extraGranted: true, expired: false }
+    if (effectiveTimer.value.mode === 'quiz-budget') budgetRemaining.value = remaining
+    else timers.value[qid] = remaining
+    takeLifeline('extraTime')
     touchAndPersist()
     return { ok: true, remaining }
   }
 
+  // Timer
+
+  function armTimer() {
+    // Loads the current question's countdown: the saved one (or the running budget), else a fresh
+    // one from the effective settings; null when the timer is off.
+    const qid = current.value?.id
+    let remaining: number | null = null
+    if (qid != null) {
+      const t = effectiveTimer.value
+      if (t.mode === 'quiz-budget') {
+        if (budgetRemaining.value == null) budgetRemaining.value = t.seconds
+        remaining = budgetRemaining.value
+      } else {
+        const saved = timers.value[qid]
+        remaining = typeof saved === 'number' ? saved : t.mode === 'per-question' ? t.seconds : null
+        if (remaining != null) timers.value[qid] = remaining
+      }
+    }
+    timerState.value = { remaining, extraGranted: false, expired: remaining === 0 }
+  }
+
+  function expireTimer() {
+    // Applies the expiry behavior once the countdown reaches zero
+    const cur = current.value
+    if (!cur || expiryAction.value === 'warn') return
+    if (!hasSubmitted.value) {
+      if (expiryAction.value === 'submit' && hasSelection.value) {
+        submitAnswer()
+      } else {
+        markSkipped(cur)
+        hasSubmitted.value = true
+      }
+    }
+    if (effectiveTimer.value.mode === 'quiz-budget') {
+      // the budget is spent: everything not answered yet counts as skipped
+      for (const q of questions.value.slice(currentIndex.value + 1)) {
+        if (selectedAnswers.value[q.id] == null) markSkipped(q)
+      }
+    }
+  }
+
+  // PUBLIC_INTERFACE
+  function setTimerOverride(t: TimerSettings | null) {
+    /**
+     * Sets the session's timer (custom quiz, tournament difficulty) in place of the player's preference
+     * and restarts the current question's countdown. Call it when a quiz starts, after the questions are set.
+     */
+    timerOverride.value = t ? parseTimerSettings(t) : null
+    timers.value = {}
+    budgetRemaining.value = null
+    armTimer()
+  }
+
   // PUBLIC_INTERFACE
   function tickTimer(delta = 1): number | null {
     /**
-     * Decrements current timer if active; persists.
+     * Counts the current timer down and persists it. The countdown pauses once the question is
+     * answered (also for a quiz budget) and applies the expiry behavior when it reaches zero.
      * Returns remaining or null if inactive.
      */
     const cur = current.value
     if (!cur) return null
     if (timerState.value.remaining == null) return null
-    timerState.value.remaining = Math.max(0, (timerState.value.remaining ?? 0) - delta)
-    timers.value[cur.id] = timerState.value.remaining
-    // do not auto-fail; purely informational
+    if (hasSubmitted.value || timerState.value.expired) return timerState.value.remaining
+    const remaining = Math.max(0, timerState.value.remaining - delta)
+    timerState.value.remaining = remaining
+    if (effectiveTimer.value.mode === 'quiz-budget') budgetRemaining.value = remaining
+    else timers.value[cur.id] = remaining
+    if (remaining === 0) {
+      timerState.value.expired = true
+      expireTimer()
+    }
     touchAndPersist()
-    return timerState.value.remaining
+    return remaining
   }
 
   // PUBLIC_INTERFACE
   function useAskHint(): { ok: boolean; hint?: string } {
     /**
-     * Reveals hint for the current question (if available).
+     * Reveals hint for the current question (if available). A hint already shown costs nothing.
      */
     const cur = current.value
-    if (!cur || lifelines.value.askHintUsed) return { ok: false }
+    if (!cur) return { ok: false }
+    if (hintShown.value[cur.id]) return { ok: true, hint: cur.hint }
+    if (!canUseLifeline('askHint')) return { ok: false }
     hintShown.value[cur.id] = true
-    lifelines.value.askHintUsed = true
+    takeLifeline('askHint')
     touchAndPersist()
     return { ok: true, hint: cur.hint }
   }
@@ -1040,6 +1157,8 @@ export const useQuizStore = defineStore('quiz', () => {
     currentIndex,
     score,
     selectedIndex,
+    selectedIndices,
+    typedAnswer,
     hasSubmitted,
     loading,
     error,
@@ -1047,11 +1166,16 @@ export const useQuizStore = defineStore('quiz', () => {
     startedAt,
     updatedAt,
     selectedAnswers,
+    scoringPolicy,
+    scoringModel,
     lifelines,
+    chargesUsed,
     fiftyFiftyHidden,
     hintShown,
     timers,
     timerState,
+    timerOverride,
+    budgetRemaining,
     qStartTs,
     qEndTs,
     // meta
@@ -1062,21 +1186,32 @@ export const useQuizStore = defineStore('quiz', () => {
     progress,
     isLast,
     isCurrentCorrect,
+    hasSelection,
+    effectiveScoringPolicy,
+    timedPoints,
+    effectiveTimer,
+    expiryAction,
+    quizTimeUp,
     // actions
     resetAll,
     loadQuestions,
+    startPrepared,
+    buildAnalyticsMeta,
     selectOption,
+    setTypedAnswer,
     submitAnswer,
     nextQuestion,
     resetRuntime,
     setCategory,
 
     // lifelines
+    canUseLifeline,
     useFiftyFifty,
     useSkipQuestion,
     useExtraTime,
     useAskHint,
     tickTimer,
+    setTimerOverride,
 
     // scoreboard actions
     addScore,
@@ -0,0 +1,169 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import type { CategoryKey, QuizQuestion, SelectedAnswer } from './quiz'
+import { isAnswerCorrect } from '@/utils/answers'
+import { REVIEW_QUALITY, dayKey, isDue, newSchedule, reviewSchedule, type ReviewSchedule } from '@/utils/spacedRepetition'
+
+/**
+ * Review deck: questions the player missed or skipped, kept with their full content (options,
+ * answer keys, explanation) and scheduled for spaced repetition (utils/spacedRepetition.ts).
+ * - addMissed is called when a quiz, custom quiz or daily attempt finishes
+ * - a question already in the deck that is missed again counts as a lapse (once per session)
+ * - the review screen (/review) plays the items due today and grades them with recordReview
+ */
+
+export type ReviewItem = {
+  key: string
+  question: QuizQuestion
+  // null for custom quizzes (no category)
+  category: CategoryKey | null
+  addedAt: number
+  // recent quiz sessions that added or lapsed the item (newest last); a session counts once
+  sessionIds: string[]
+  schedule: ReviewSchedule
+}
+
+type PersistedDeck = { version: number; items: Array<ReviewItem & { sessionId?: string | null }> }
+
+const STORAGE_KEY = 'quizmaster:reviewDeck.v1'
+const DECK_VERSION = 1
+// oldest items are dropped beyond this
+const MAX_ITEMS = 500
+// sessions remembered per item
+const MAX_SESSIONS = 20
+
+// PUBLIC_INTERFACE
+export function reviewKeyOf(q: QuizQuestion): string {
+  /** Ids are only unique per source, so the question text is part of the key. */
+  return `${String(q.id)}|${q.question.trim().toLowerCase()}`
+}
+
+function isItem(value: unknown): value is ReviewItem {
+  if (!value || typeof value !== 'object') return false
+  const v = value as Partial<ReviewItem>
+  const q = v.question as Partial<QuizQuestion> | undefined
+  const s = v.schedule as Partial<ReviewSchedule> | undefined
+  return (
+    typeof v.key === 'string' &&
+    Array.isArray(v.sessionIds) &&
+    !!q && typeof q.question === 'string' && Array.isArray(q.options) &&
+    !!s && typeof s.ease === 'number' && typeof s.interval === 'number' && typeof s.due === 'string'
+  )
+}
+
+function readDeck(): ReviewItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const data = raw ? (JSON.parse(raw) as Partial<PersistedDeck>) : null
+    if (!data || data.version !== DECK_VERSION || !Array.isArray(data.items)) return []
+    // items saved before sessionIds kept only the last session
+    return data.items
+      .map((i) => (i && !Array.isArray(i.sessionIds) ? { ...i, sessionIds: i.sessionId ? [i.sessionId] : [] } : i))
+      .filter(isItem)
+  } catch {
+    return []
+  }
+}
+
+function writeDeck(items: ReviewItem[]) {
+  try {
+    const payload: PersistedDeck = { version: DECK_VERSION, items }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(payload))
+  } catch {
+    // ignore
+  }
+}
+
+// PUBLIC_INTERFACE
+export const useReviewDeckStore = defineStore('reviewDeck', () => {
+  const items = ref<ReviewItem[]>(readDeck())
+
+  const size = computed(() => items.value.length)
+  /** Items due today or earlier, most overdue first. */
+  const dueToday = computed(() => {
+    const today = dayKey()
+    return items.value
+      .filter((i) => isDue(i.schedule, today))
+      .sort((a, b) => a.schedule.due.localeCompare(b.schedule.due) || a.addedAt - b.addedAt)
+  })
+  const dueCount = computed(() => dueToday.value.length)
+  /** Day key of the earliest upcoming review after today, if any. */
+  const nextDue = computed(() => {
+    const today = dayKey()
+    const upcoming = items.value.map((i) => i.schedule.due).filter((d) => d > today).sort()
+    return upcoming[0] ?? null
+  })
+
+  function persist() {
+    writeDeck(items.value)
+  }
+
+  // PUBLIC_INTERFACE
+  function get(key: string): ReviewItem | undefined {
+    return items.value.find((i) => i.key === key)
+  }
+
+  // PUBLIC_INTERFACE
+  function addMissed(input: {
+    questions: QuizQuestion[]
+    answers: Record<string | number, SelectedAnswer>
+    category: CategoryKey | null
+    sessionId: string
+  }): number {
+    /**
+     * Adds every question of a finished quiz that was answered wrong, skipped or left unanswered;
+     * returns how many were new to the deck. Partial credit counts as missed.
+     */
+    const today = dayKey()
+    const next = [...items.value]
+    let added = 0
+    for (const q of input.questions) {
+      const answer = input.answers[q.id]
+      if (answer != null && answer !== 'SKIPPED' && isAnswerCorrect(q, answer)) continue
+      const key = reviewKeyOf(q)
+      const idx = next.findIndex((i) => i.key === key)
+      if (idx < 0) {
+        next.push({ key, question: q, category: input.category, addedAt: Date.now(), sessionIds: [input.sessionId], schedule: newSchedule(today) })
+        added += 1
+        continue
+      }
+      const existing = next[idx]
+      if (existing.sessionIds.includes(input.sessionId)) continue
+      const quality = answer == null || answer === 'SKIPPED' ? REVIEW_QUALITY.forgot : REVIEW_QUALITY.wrong
+      const sessionIds = [...existing.sessionIds, input.sessionId].slice(-MAX_SESSIONS)
+      // refresh the stored content in case the source corrected it
+      next[idx] = { ...existing, question: q, sessionIds, schedule: reviewSchedule(existing.schedule, quality, today) }
+    }
+    items.value = next.slice(-MAX_ITEMS)
+    persist()
+    return added
+  }
+
+  // PUBLIC_INTERFACE
+  function recordReview(key: string, quality: number): ReviewSchedule | null {
+    /** Grades one review (SM-2 quality 0-5, see REVIEW_QUALITY) and returns the new schedule. */
+    const idx = items.value.findIndex((i) => i.key === key)
+    if (idx < 0) return null
+    const schedule = reviewSchedule(items.value[idx].schedule, quality, dayKey())
+    items.value[idx] = { ...items.value[idx], schedule }
+    persist()
+    return schedule
+  }
+
+  // PUBLIC_INTERFACE
+  function remove(key: string): boolean {
+    const next = items.value.filter((i) => i.key !== key)
+    if (next.length === items.value.length) return false
+    items.value = next
+    persist()
+    return true
+  }
+
+  // PUBLIC_INTERFACE
+  function clear() {
+    items.value = []
+    persist()
+  }
+
+  return { items, size, dueToday, dueCount, nextDue, get, addMissed, recordReview, remove, clear }
+})
@@ -1,12 +1,14 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { CategoryKey, QuizQuestion } from './quiz'
+import type { CategoryKey, QuizQuestion, QuestionDifficulty } from './quiz'
+import { builtinCategory } from '@/utils/categories'
 import { useCoinsStore, ensureCoinsLoaded } from './coins'
 
-import { getTournamentQuestionSet } from '@/utils/pools'
-import { useQuizStore } from './quiz'
+import { pickTournamentQuestions } from '@/utils/pools'
+import { resolveQuestions } from '@/utils/questionSources'
+import { parseTimerSettings, type TimerSettings } from '@/utils/timer'
 
-export type DifficultyKey = 'easy' | 'medium' | 'hard'
+export type DifficultyKey = QuestionDifficulty
 
 export type RoundStat = {
   round: number
@@ -24,6 +26,8 @@ export type TournamentState = {
   roundsTotal: number
   currentRound: number
   difficultyCurve: DifficultyKey[]
+  // timer per difficulty for the rounds at that difficulty; missing = player's preference
+  difficultyTimers?: Partial<Record<DifficultyKey, TimerSettings>>
   category: CategoryKey | 'mixed'
   seed: string
   startedAt: number | null
@@ -78,6 +82,16 @@ function savePersisted(state: TournamentState | null): void {
   }
 }
 
+function parseDifficultyTimers(value: unknown): Partial<Record<DifficultyKey, TimerSettings>> {
+  const out: Partial<Record<DifficultyKey, TimerSettings>> = {}
+  if (!value || typeof value !== 'object') return out
+  for (const d of ['easy', 'medium', 'hard'] as const) {
+    const t = parseTimerSettings((value as Record<string, unknown>)[d])
+    if (t) out[d] = t
+  }
+  return out
+}
+
 function defaultCurve(): DifficultyKey[] {
   // 10 steps: 2 easy, 3 medium, 5 hard
   return ['easy','easy','medium','medium','medium','hard','hard','hard','hard','hard']
@@ -89,7 +103,8 @@ export const useTournamentStore = defineStore('tournament', () => {
   const roundsTotal = ref(10)
   const currentRound = ref(0) // 0-based; round number for UI = currentRound+1
   const difficultyCurve = ref<DifficultyKey[]>(defaultCurve())
-  const category = ref<CategoryKey | 'mixed'>('gk')
+  const difficultyTimers = ref<Partial<Record<DifficultyKey, TimerSettings>>>({})
+  const category = ref<CategoryKey | 'mixed'>(builtinCategory('gk'))
   const seed = ref<string>(seededId())
   const startedAt = ref<number | null>(null)
   const roundStats = ref<RoundStat[]>([])
@@ -106,6 +121,7 @@ export const useTournamentStore = defineStore('tournament', () => {
       roundsTotal: roundsTotal.value,
       currentRound: currentRound.value,
       difficultyCurve: difficultyCurve.value,
+      difficultyTimers: difficultyTimers.value,
       category: category.value,
       seed: seed.value,
       startedAt: startedAt.value ?? 0,
@@ -121,6 +137,7 @@ export const useTournamentStore = defineStore('tournament', () => {
     roundsTotal.value = s.roundsTotal ?? 10
     currentRound.value = s.currentRound ?? 0
     difficultyCurve.value = Array.isArray(s.difficultyCurve) && s.difficultyCurve.length === 10 ? s.difficultyCurve : defaultCurve()
+    difficultyTimers.value = parseDifficultyTimers(s.difficultyTimers)
     category.value = s.category ?? 'gk'
     seed.value = s.seed || seededId()
     startedAt.value = s.startedAt ?? now()
@@ -181,18 +198,10 @@ export const useTournamentStore = defineStore('tournament', () => {
     const poolCat = category.value
     const roundSeed = `${seed.value}:${currentRound.value + 1}`
 
-    // Attempt to reuse offline cache preference from quiz store
-    const quiz = useQuizStore()
+    // Resolve the whole category from the question sources, then select by difficulty
     const catForPool = poolCat === 'mixed' ? null : poolCat
-    const questions = getTournamentQuestionSet(roundSeed, catForPool ?? undefined, diff, countPerRound)
-    if (questions.length) return questions
-
-    // fallback to quiz store's load (category only, without difficulty)
-    if (catForPool) {
-      quiz.setCategory(catForPool)
-    }
-    await quiz.loadQuestions()
-    return quiz.questions.slice(0, countPerRound)
+    const { questions: pool } = await resolveQuestions(catForPool, Number.POSITIVE_INFINITY)
+    return pickTournamentQuestions(pool, roundSeed, diff, countPerRound)
   }
 
   // PUBLIC_INTERFACE
@@ -252,6 +261,22 @@ export const useTournamentStore = defineStore('tournament', () => {
     persist()
   }
 
+  // PUBLIC_INTERFACE
+  function setDifficultyTimer(difficulty: DifficultyKey, t: TimerSettings | null) {
+    /** Overrides the timer for rounds at this difficulty (kept across tournaments); null = player's preference. */
+    const next = { ...difficultyTimers.value }
+    const parsed = t ? parseTimerSettings(t) : null
+    if (parsed) next[difficulty] = parsed
+    else delete next[difficulty]
+    difficultyTimers.value = next
+    persist()
+  }
+
+  // PUBLIC_INTERFACE
+  function timerFor(difficulty: DifficultyKey): TimerSettings | null {
+    return difficultyTimers.value[difficulty] ?? null
+  }
+
   // PUBLIC_INTERFACE
   function completeTournament() {
     completed.value = true
@@ -297,6 +322,7 @@ export const useTournamentStore = defineStore('tournament', () => {
     roundsTotal,
     currentRound,
     difficultyCurve,
+    difficultyTimers,
     category,
     seed,
     startedAt,
@@ -314,5 +340,7 @@ export const useTournamentStore = defineStore('tournament', () => {
     completeTournament,
     resetTournament,
     loadIfAvailable,
+    setDifficultyTimer,
+    timerFor,
   }
 })
@@ -1,28 +1,54 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
+import type { ScoringPolicy } from '@/utils/answers'
+import { parseScoringModel, type ScoringModel } from '@/utils/scoring'
+import { DEFAULT_TIMER, parseTimerSettings, type TimerSettings } from '@/utils/timer'
 
 /**
  * UI Preferences store
  * - Persists lightweight preferences to localStorage
- * - Currently supports Auto Next (2s) mode
+ * - Auto Next (2s) mode
+ * - Scoring policy for multi-select questions (all-or-nothing or partial credit)
+ * - Scoring model for new single-player quizzes (classic or timed, utils/scoring.ts)
+ * - Quiz timer (utils/timer.ts), with optional per-category overrides; custom quizzes and tournament
+ *   difficulties may override both
  */
 
 const STORAGE_KEY = 'quizmaster:uiPrefs.v1'
 type UiPrefsSchema = {
   version: number
   autoNextEnabled: boolean
+  scoringPolicy: ScoringPolicy
+  scoringModel: ScoringModel
+  timer: TimerSettings
+  // category key -> timer used instead of `timer` for that category
+  categoryTimers: Record<string, TimerSettings>
 }
 const VERSION = 1
 
+function defaults(): UiPrefsSchema {
+  return { version: VERSION, autoNextEnabled: false, scoringPolicy: 'all-or-nothing', scoringModel: 'classic', timer: { ...DEFAULT_TIMER }, categoryTimers: {} }
+}
+
 function readPrefs(): UiPrefsSchema {
   try {
     const raw = localStorage.getItem(STORAGE_KEY)
-    if (!raw) return { version: VERSION, autoNextEnabled: false }
+    if (!raw) return defaults()
     const obj = JSON.parse(raw) as Partial<UiPrefsSchema>
     const enabled = typeof obj.autoNextEnabled === 'boolean' ? obj.autoNextEnabled : false
-    return { version: VERSION, autoNextEnabled: enabled }
+    const scoringPolicy = obj.scoringPolicy === 'partial' ? 'partial' : 'all-or-nothing'
+    const scoringModel = parseScoringModel(obj.scoringModel)
+    const timer = parseTimerSettings(obj.timer) ?? { ...DEFAULT_TIMER }
+    const categoryTimers: Record<string, TimerSettings> = {}
+    if (obj.categoryTimers && typeof obj.categoryTimers === 'object') {
+      for (const [cat, t] of Object.entries(obj.categoryTimers)) {
+        const parsed = parseTimerSettings(t)
+        if (parsed) categoryTimers[cat] = parsed
+      }
+    }
+    return { version: VERSION, autoNextEnabled: enabled, scoringPolicy, scoringModel, timer, categoryTimers }
   } catch {
-    return { version: VERSION, autoNextEnabled: false }
+    return defaults()
   }
 }
 function writePrefs(p: UiPrefsSchema) {
@@ -37,9 +63,20 @@ function writePrefs(p: UiPrefsSchema) {
 export const useUiPreferencesStore = defineStore('uiPreferences', () => {
   const persisted = readPrefs()
   const autoNextEnabled = ref<boolean>(persisted.autoNextEnabled)
+  const scoringPolicy = ref<ScoringPolicy>(persisted.scoringPolicy)
+  const scoringModel = ref<ScoringModel>(persisted.scoringModel)
+  const timer = ref<TimerSettings>(persisted.timer)
+  const categoryTimers = ref<Record<string, TimerSettings>>(persisted.categoryTimers)
 
   function persist() {
-    writePrefs({ version: VERSION, autoNextEnabled: autoNextEnabled.value })
+    writePrefs({
+      version: VERSION,
+      autoNextEnabled: autoNextEnabled.value,
+      scoringPolicy: scoringPolicy.value,
+      scoringModel: scoringModel.value,
+      timer: timer.value,
+      categoryTimers: categoryTimers.value,
+    })
   }
 
   // PUBLIC_INTERFACE
@@ -53,9 +90,55 @@ export const useUiPreferencesStore = defineStore('uiPreferences', () => {
     setAutoNext(!autoNextEnabled.value)
   }
 
+  // PUBLIC_INTERFACE
+  function setScoringPolicy(p: ScoringPolicy) {
+    scoringPolicy.value = p === 'partial' ? 'partial' : 'all-or-nothing'
+    persist()
+  }
+
+  // PUBLIC_INTERFACE
+  function setScoringModel(m: ScoringModel) {
+    /** Applies to quizzes started afterwards; a running quiz keeps its model. */
+    scoringModel.value = parseScoringModel(m)
+    persist()
+  }
+
+  // PUBLIC_INTERFACE
+  function setTimer(t: TimerSettings) {
+    /** Sets the timer used by every category without its own override. */
+    timer.value = parseTimerSettings(t) ?? { ...DEFAULT_TIMER }
+    persist()
+  }
+
+  // PUBLIC_INTERFACE
+  function setCategoryTimer(category: string, t: TimerSettings | null) {
+    /** Overrides the timer for one category; null goes back to the general setting. */
+    const next = { ...categoryTimers.value }
+    const parsed = t ? parseTimerSettings(t) : null
+    if (parsed) next[category] = parsed
+    else delete next[category]
+    categoryTimers.value = next
+    persist()
+  }
+
+  // PUBLIC_INTERFACE
+  function timerFor(category: string | null | undefined): TimerSettings {
+    /** The category's override, else the general timer. */
+    return (category != null ? categoryTimers.value[category] : undefined) ?? timer.value
+  }
+
   return {
     autoNextEnabled,
+    scoringPolicy,
+    scoringModel,
+    timer,
+    categoryTimers,
     setAutoNext,
     toggleAutoNext,
+    setScoringPolicy,
+    setScoringModel,
+    setTimer,
+    setCategoryTimer,
+    timerFor,
   }
 })
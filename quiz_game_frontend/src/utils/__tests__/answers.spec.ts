@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest'
+import type { QuizQuestion } from '@/stores/quiz'
+import {
+  answerCredit,
+  answerKeyOf,
+  correctIndicesOf,
+  expectedAnswerLabel,
+  isAnswerCorrect,
+  levenshtein,
+  matchesNumericAnswer,
+  matchesTextAnswer,
+  normalizeAnswerText,
+  parseAnswerIndices,
+  parseNumericInput,
+  parseQuestionType,
+  redactQuestion,
+  withAnswerKey,
+} from '../answers'
+
+const single = { answerIndex: 1, options: ['a', 'b', 'c'] }
+const boolean = { type: 'boolean' as const, answerIndex: 0, options: ['True', 'False'] }
+const multi = { type: 'multi' as const, answerIndex: 0, answerIndices: [0, 2, 3], options: ['a', 'b', 'c', 'd'] }
+const text = { type: 'text' as const, answerIndex: -1, acceptedAnswers: ['Tchaikovsky', 'Pyotr Tchaikovsky'], fuzzyTolerance: 2 }
+const numeric = { type: 'numeric' as const, answerIndex: -1, numericAnswer: 200, tolerance: { absolute: 3, relative: 0.01 } }
+
+describe('answerCredit', () => {
+  it('gives single and boolean questions all-or-nothing credit under either policy', () => {
+    for (const policy of ['all-or-nothing', 'partial'] as const) {
+      expect(answerCredit(single, 1, policy)).toBe(1)
+      expect(answerCredit(single, 0, policy)).toBe(0)
+      expect(answerCredit(single, [1, 2], policy)).toBe(0)
+      expect(answerCredit(boolean, 0, policy)).toBe(1)
+      expect(answerCredit(boolean, 1, policy)).toBe(0)
+    }
+  })
+
+  it('gives a fully correct multi answer full credit under either policy', () => {
+    expect(answerCredit(multi, [3, 0, 2], 'all-or-nothing')).toBe(1)
+    expect(answerCredit(multi, [0, 2, 3], 'partial')).toBe(1)
+  })
+
+  it('gives no credit for an incomplete multi answer under all-or-nothing', () => {
+    expect(answerCredit(multi, [0, 2], 'all-or-nothing')).toBe(0)
+    expect(answerCredit(multi, [0, 2])).toBe(0)
+  })
+
+  it('subtracts wrong picks from right picks under partial', () => {
+    expect(answerCredit(multi, [0, 2], 'partial')).toBeCloseTo(2 / 3)
+    expect(answerCredit(multi, [0, 2, 1], 'partial')).toBeCloseTo(1 / 3)
+    expect(answerCredit(multi, [0, 1, 2, 3], 'partial')).toBeCloseTo(2 / 3)
+    // ticking every box of a half-correct question earns nothing
+    expect(answerCredit({ ...multi, answerIndices: [0, 1] }, [0, 1, 2, 3], 'partial')).toBe(0)
+    expect(answerCredit(multi, [1], 'partial')).toBe(0)
+    // duplicate picks count once
+    expect(answerCredit(multi, [0, 0, 0], 'partial')).toBeCloseTo(1 / 3)
+  })
+
+  it('gives nothing for skipped, missing or empty answers', () => {
+    for (const q of [single, boolean, multi, text, numeric]) {
+      expect(answerCredit(q, 'SKIPPED', 'partial')).toBe(0)
+      expect(answerCredit(q, null, 'partial')).toBe(0)
+      expect(answerCredit(q, undefined, 'partial')).toBe(0)
+      expect(answerCredit(q, [], 'partial')).toBe(0)
+    }
+  })
+
+  it('grades typed questions by their text only', () => {
+    expect(answerCredit(text, { text: 'tchaikovksy' }, 'partial')).toBe(1)
+    expect(answerCredit(numeric, { text: '202' })).toBe(1)
+    expect(answerCredit(numeric, 200)).toBe(0)
+    expect(answerCredit(single, { text: 'b' })).toBe(0)
+    expect(answerCredit(text, { text: '' })).toBe(0)
+  })
+
+  it('falls back to answerIndex for multi questions without answerIndices', () => {
+    expect(correctIndicesOf({ type: 'multi', answerIndex: 2 })).toEqual([2])
+    expect(isAnswerCorrect({ type: 'multi', answerIndex: 2 }, [2])).toBe(true)
+  })
+})
+
+describe('isAnswerCorrect', () => {
+  it('does not count partial credit as correct', () => {
+    expect(isAnswerCorrect(multi, [0, 2])).toBe(false)
+    expect(isAnswerCorrect(multi, [0, 2, 3])).toBe(true)
+    expect(isAnswerCorrect(single, 'SKIPPED')).toBe(false)
+  })
+})
+
+describe('parsing', () => {
+  it('parses question types and aliases', () => {
+    expect(parseQuestionType(' Multi-Select ')).toBe('multi')
+    expect(parseQuestionType('true-false')).toBe('boolean')
+    // trivia APIs use "multiple" for ordinary multiple choice
+    expect(parseQuestionType('multiple')).toBeUndefined()
+    expect(parseQuestionType(3)).toBeUndefined()
+  })
+
+  it('keeps sorted unique in-range answer indices', () => {
+    expect(parseAnswerIndices([3, '1', 1, 9, -1, 1.5], 4)).toEqual([1, 3])
+    expect(parseAnswerIndices([9], 4)).toBeUndefined()
+    expect(parseAnswerIndices('1', 4)).toBeUndefined()
+  })
+})
+
+describe('text answers', () => {
+  it('normalizes case, accents, punctuation and a leading article', () => {
+    expect(normalizeAnswerText('  The  Beatles! ')).toBe('beatles')
+    expect(normalizeAnswerText('Ångström')).toBe('angstrom')
+    expect(normalizeAnswerText("L'Oréal")).toBe('oreal')
+  })
+
+  it('counts edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3)
+    expect(levenshtein('', 'abc')).toBe(3)
+    expect(levenshtein('same', 'same')).toBe(0)
+  })
+
+  it('accepts typos up to fuzzyTolerance and not one more', () => {
+    expect(matchesTextAnswer(text, 'Tchaikovsky')).toBe(true)
+    expect(matchesTextAnswer(text, 'pyotr tchaikovsky')).toBe(true)
+    // two edits
+    expect(matchesTextAnswer(text, 'Chaikovsy')).toBe(true)
+    // three edits
+    expect(matchesTextAnswer(text, 'Chaikovsi')).toBe(false)
+    expect(matchesTextAnswer({ ...text, fuzzyTolerance: 0 }, 'Tchaikovsy')).toBe(false)
+  })
+
+  it('never lets the tolerance swallow short answers', () => {
+    const short = { type: 'text' as const, answerIndex: -1, acceptedAnswers: ['Io'], fuzzyTolerance: 2 }
+    expect(matchesTextAnswer(short, 'Ob')).toBe(false)
+    expect(matchesTextAnswer(short, 'io')).toBe(true)
+  })
+})
+
+describe('numeric answers', () => {
+  it('parses grouping, thousands commas and a decimal comma', () => {
+    expect(parseNumericInput('1 234')).toBe(1234)
+    expect(parseNumericInput('1,234.5')).toBe(1234.5)
+    expect(parseNumericInput('3,14')).toBe(3.14)
+    expect(parseNumericInput('-2e3')).toBe(-2000)
+    expect(parseNumericInput('12abc')).toBeNull()
+    expect(parseNumericInput('')).toBeNull()
+  })
+
+  it('accepts the edge of the larger tolerance and rejects just past it', () => {
+    // absolute 3 beats relative 1% of 200 = 2
+    expect(matchesNumericAnswer(numeric, '203')).toBe(true)
+    expect(matchesNumericAnswer(numeric, '197')).toBe(true)
+    expect(matchesNumericAnswer(numeric, '203.01')).toBe(false)
+    // relative 10% of 200 = 20 beats absolute 3
+    expect(matchesNumericAnswer({ ...numeric, tolerance: { absolute: 3, relative: 0.1 } }, '220')).toBe(true)
+    expect(matchesNumericAnswer({ ...numeric, tolerance: { absolute: 3, relative: 0.1 } }, '220.5')).toBe(false)
+  })
+
+  it('needs an exact match without a tolerance, allowing float noise', () => {
+    const exact = { type: 'numeric' as const, answerIndex: -1, numericAnswer: 0.3 }
+    expect(matchesNumericAnswer(exact, String(0.1 + 0.2))).toBe(true)
+    expect(matchesNumericAnswer(exact, '0.31')).toBe(false)
+    expect(matchesNumericAnswer(exact, 'zero')).toBe(false)
+  })
+
+  it('labels the expected answer with its range', () => {
+    expect(expectedAnswerLabel(numeric)).toBe('200 (±3)')
+    expect(expectedAnswerLabel({ ...numeric, tolerance: undefined })).toBe('200')
+    expect(expectedAnswerLabel(text)).toBe('Tchaikovsky')
+  })
+})
+
+describe('answer keys', () => {
+  const question: QuizQuestion = {
+    id: 7,
+    question: 'Pick the primes',
+    options: ['2', '4', '5'],
+    answerIndex: 0,
+    type: 'multi',
+    answerIndices: [0, 2],
+    explanation: '4 = 2 × 2',
+    referenceUrl: 'https://en.wikipedia.org/wiki/Prime_number',
+    hint: 'Two of them',
+  }
+
+  it('strips every answer key field but keeps the rest', () => {
+    const pub = redactQuestion(question)
+    expect(pub).toEqual({ id: 7, question: 'Pick the primes', options: ['2', '4', '5'], type: 'multi', hint: 'Two of them' })
+    expect(JSON.stringify(pub)).not.toMatch(/answer|explanation|reference/i)
+  })
+
+  it('rebuilds the question from the public part and its key', () => {
+    expect(withAnswerKey(redactQuestion(question), answerKeyOf(question))).toEqual(question)
+  })
+
+  it('marks nothing correct without a key', () => {
+    const q = withAnswerKey(redactQuestion(question))
+    expect(q.answerIndex).toBe(-1)
+    expect(isAnswerCorrect(q, [0, 2])).toBe(false)
+    expect(isAnswerCorrect(withAnswerKey(redactQuestion({ ...question, type: undefined })), 0)).toBe(false)
+  })
+
+  it('only copies answer key fields that are set', () => {
+    expect(answerKeyOf({ id: 1, question: 'q', options: ['a', 'b'], answerIndex: 1 })).toEqual({ answerIndex: 1 })
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { detectDelimiter, parseDelimited, toDelimited } from '../csv'
+
+describe('csv', () => {
+  it('round-trips quoted cells with delimiters, quotes and line breaks', () => {
+    const rows = [
+      ['text', 'note'],
+      ['Paris, France', 'say "bonjour"'],
+      ['two\nlines', 'crlf\r\ninside'],
+      ['', 'tab\there'],
+    ]
+    for (const delimiter of [',', '\t'] as const) {
+      expect(parseDelimited(toDelimited(rows, delimiter), delimiter)).toEqual(rows)
+    }
+  })
+
+  it('quotes only cells that need it', () => {
+    expect(toDelimited([['a', 'b,c', 'd"e']], ',')).toBe('a,"b,c","d""e"\r\n')
+    expect(toDelimited([['a', 'b,c', 'd\te']], '\t')).toBe('a\tb,c\t"d\te"\r\n')
+  })
+
+  it('parses CRLF and LF rows, a BOM and a missing trailing newline', () => {
+    expect(parseDelimited('\uFEFFa,b\r\nc,d\ne,', ',')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', ''],
+    ])
+  })
+
+  it('detects TSV from the first line', () => {
+    expect(detectDelimiter('text\toption1\tcorrect\nParis, France\tx\t1')).toBe('\t')
+    expect(detectDelimiter('text,option1,correct\n"a\tb",x,1')).toBe(',')
+    expect(detectDelimiter('')).toBe(',')
+  })
+})
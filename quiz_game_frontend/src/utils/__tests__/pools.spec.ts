@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import pools, { getTournamentQuestionSet, pickTournamentQuestions, shuffleWithSeed } from '../pools'
+import type { QuizQuestion } from '@/stores/quiz'
+import { builtinCategory } from '@/utils/categories'
+
+const ids = (list: { id: string | number }[]) => list.map((q) => q.id)
+
+describe('getTournamentQuestionSet', () => {
+  it('returns the same questions for the same seed and difficulty', () => {
+    const a = getTournamentQuestionSet('cup-2026', undefined, 'medium', 5)
+    const b = getTournamentQuestionSet('cup-2026', undefined, 'medium', 5)
+    expect(a).toHaveLength(5)
+    expect(ids(a)).toEqual(ids(b))
+  })
+
+  it('returns different questions for different seeds', () => {
+    const a = ids(getTournamentQuestionSet('cup-2026', undefined, 'easy', 5))
+    const b = ids(getTournamentQuestionSet('cup-2027', undefined, 'easy', 5))
+    expect(a).not.toEqual(b)
+  })
+
+  it('takes the requested difficulty first', () => {
+    const round = getTournamentQuestionSet('cup-2026', undefined, 'easy', 5)
+    expect(round.every((q) => q.difficulty === 'easy')).toBe(true)
+  })
+
+  it('tops a small bucket up from the nearest difficulty', () => {
+    // history has two easy questions and one medium
+    const round = getTournamentQuestionSet('cup-2026', builtinCategory('history'), 'easy', 3)
+    expect(ids(round).sort()).toEqual(ids(pools.history).sort())
+    expect(round.filter((q) => q.difficulty === 'easy')).toHaveLength(2)
+  })
+})
+
+describe('pickTournamentQuestions', () => {
+  const pool: QuizQuestion[] = [
+    ...['e1', 'e2', 'e3'].map((id) => ({ id, question: id, options: ['a', 'b'], answerIndex: 0, difficulty: 'easy' as const })),
+    ...['h1', 'h2'].map((id) => ({ id, question: id, options: ['a', 'b'], answerIndex: 0, difficulty: 'hard' as const })),
+    ...['u1', 'u2'].map((id) => ({ id, question: id, options: ['a', 'b'], answerIndex: 0 })),
+  ]
+
+  it('is deterministic for any pool', () => {
+    expect(ids(pickTournamentQuestions(pool, 's', 'hard', 4))).toEqual(ids(pickTournamentQuestions(pool, 's', 'hard', 4)))
+  })
+
+  it('uses untagged questions only after every tagged bucket', () => {
+    const round = pickTournamentQuestions(pool, 's', 'hard', 6)
+    expect(round.filter((q) => !q.difficulty)).toHaveLength(1)
+    expect(round.filter((q) => q.difficulty === 'hard')).toHaveLength(2)
+    expect(pickTournamentQuestions([], 's', 'hard')).toEqual([])
+  })
+})
+
+describe('shuffleWithSeed', () => {
+  const items = Array.from({ length: 12 }, (_, i) => i)
+
+  it('returns the same order for the same seed and a different one for another seed', () => {
+    expect(shuffleWithSeed(items, 'a')).toEqual(shuffleWithSeed(items, 'a'))
+    expect(shuffleWithSeed(items, 'a')).not.toEqual(shuffleWithSeed(items, 'b'))
+  })
+
+  it('returns a permutation and leaves the input alone', () => {
+    const copy = [...items]
+    expect([...shuffleWithSeed(items, 'a')].sort((x, y) => x - y)).toEqual(items)
+    expect(items).toEqual(copy)
+  })
+})
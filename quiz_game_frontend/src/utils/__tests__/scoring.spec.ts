@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { BONUS_HALF_LIFE_MS, MAX_SPEED_BONUS, parseScoringModel, speedBonus, timedScore } from '../scoring'
+import type { QuizQuestion } from '@/stores/quiz'
+
+const questions: QuizQuestion[] = [
+  { id: 1, question: 'One?', options: ['a', 'b'], answerIndex: 0 },
+  { id: 2, question: 'Two?', options: ['a', 'b', 'c', 'd'], answerIndex: 0, type: 'multi', answerIndices: [0, 1] },
+  { id: 3, question: 'Three?', options: ['a', 'b'], answerIndex: 1 },
+]
+const startTs = { 1: 0, 2: 0, 3: 0 }
+const noLifelines = { fiftyFiftyUsed: false, skipUsed: false, extraTimeUsed: false, askHintUsed: false }
+
+describe('speedBonus', () => {
+  it('halves every half-life', () => {
+    expect(speedBonus(0)).toBe(MAX_SPEED_BONUS)
+    expect(speedBonus(BONUS_HALF_LIFE_MS)).toBe(MAX_SPEED_BONUS / 2)
+    expect(speedBonus(2 * BONUS_HALF_LIFE_MS)).toBe(Math.round(MAX_SPEED_BONUS / 4))
+    expect(speedBonus(60_000)).toBe(0)
+  })
+
+  it('is 0 when the time is unknown or invalid', () => {
+    expect(speedBonus(null)).toBe(0)
+    expect(speedBonus(undefined)).toBe(0)
+    expect(speedBonus(-1)).toBe(0)
+    expect(speedBonus(Number.NaN)).toBe(0)
+  })
+})
+
+describe('timedScore', () => {
+  it('adds the base and speed bonus of correct answers only', () => {
+    const res = timedScore({
+      questions,
+      answers: { 1: 0, 2: 'SKIPPED', 3: 0 },
+      startTs,
+      endTs: { 1: BONUS_HALF_LIFE_MS, 2: 1000, 3: 0 },
+      policy: 'all-or-nothing',
+      lifelines: noLifelines,
+    })
+    expect(res).toEqual({ total: 125, base: 100, speedBonus: 25, penalty: 0 })
+  })
+
+  it('scales both the base and the bonus by partial credit', () => {
+    const res = timedScore({
+      questions,
+      // two right picks, one wrong: (2 - 1) / 2 = half credit
+      answers: { 2: [0, 1, 2] },
+      startTs,
+      endTs: { 2: 0 },
+      policy: 'partial',
+      lifelines: noLifelines,
+    })
+    expect(res).toEqual({ total: 75, base: 50, speedBonus: 25, penalty: 0 })
+  })
+
+  it('gives no bonus when a timestamp is missing', () => {
+    const res = timedScore({ questions, answers: { 1: 0 }, startTs: {}, endTs: { 1: 0 }, policy: 'partial', lifelines: noLifelines })
+    expect(res).toEqual({ total: 100, base: 100, speedBonus: 0, penalty: 0 })
+  })
+
+  it('subtracts a penalty per lifeline used', () => {
+    const res = timedScore({
+      questions,
+      answers: { 1: 0 },
+      startTs,
+      endTs: { 1: 0 },
+      policy: 'partial',
+      lifelines: { fiftyFiftyUsed: true, skipUsed: false, extraTimeUsed: true, askHintUsed: false },
+    })
+    expect(res).toEqual({ total: 110, base: 100, speedBonus: 50, penalty: 40 })
+  })
+
+  it('counts bought charges on top of the free uses', () => {
+    const res = timedScore({
+      questions,
+      answers: { 1: 0 },
+      startTs,
+      endTs: { 1: 0 },
+      policy: 'partial',
+      lifelines: { ...noLifelines, skipUsed: true },
+      // two bought skips after the free one, one bought hint without using the free hint
+      chargesUsed: { skip: 2, askHint: 1 },
+    })
+    expect(res.penalty).toBe(3 * 10 + 20)
+    expect(res.total).toBe(100)
+  })
+
+  it('never goes below zero', () => {
+    const res = timedScore({
+      questions,
+      answers: {},
+      startTs,
+      endTs: {},
+      policy: 'partial',
+      lifelines: { fiftyFiftyUsed: true, skipUsed: true, extraTimeUsed: true, askHintUsed: true },
+    })
+    expect(res).toEqual({ total: 0, base: 0, speedBonus: 0, penalty: 70 })
+  })
+})
+
+describe('parseScoringModel', () => {
+  it('treats anything but timed as classic', () => {
+    expect(parseScoringModel('timed')).toBe('timed')
+    expect(parseScoringModel(undefined)).toBe('classic')
+    expect(parseScoringModel('TIMED')).toBe('classic')
+  })
+})
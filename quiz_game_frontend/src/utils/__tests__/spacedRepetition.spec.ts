@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_EASE, MIN_EASE, REVIEW_QUALITY, addDays, isDue, newSchedule, reviewSchedule } from '../spacedRepetition'
+
+const TODAY = '2026-03-10'
+
+describe('reviewSchedule', () => {
+  it('progresses intervals 1 → 6 → round(interval × ease)', () => {
+    let s = newSchedule(TODAY)
+    expect(isDue(s, TODAY)).toBe(true)
+    s = reviewSchedule(s, REVIEW_QUALITY.recalled, TODAY)
+    expect(s).toMatchObject({ interval: 1, repetitions: 1, due: '2026-03-11', ease: DEFAULT_EASE })
+    s = reviewSchedule(s, REVIEW_QUALITY.recalled, s.due)
+    expect(s).toMatchObject({ interval: 6, repetitions: 2, due: '2026-03-17' })
+    s = reviewSchedule(s, REVIEW_QUALITY.recalled, s.due)
+    expect(s).toMatchObject({ interval: 15, repetitions: 3, due: '2026-04-01' })
+    // quality 5 raises the ease before it is applied
+    s = reviewSchedule(s, 5, s.due)
+    expect(s.ease).toBe(2.6)
+    expect(s.interval).toBe(Math.round(15 * 2.6))
+  })
+
+  it('never lets the ease drop below MIN_EASE', () => {
+    let s = newSchedule(TODAY)
+    for (let i = 0; i < 10; i++) s = reviewSchedule(s, REVIEW_QUALITY.forgot, TODAY)
+    expect(s.ease).toBe(MIN_EASE)
+    s = reviewSchedule(s, 3, TODAY)
+    expect(s.ease).toBe(MIN_EASE)
+  })
+
+  it('resets repetitions on a lapse and schedules the item for tomorrow', () => {
+    let s = newSchedule(TODAY)
+    s = reviewSchedule(s, REVIEW_QUALITY.recalled, TODAY)
+    s = reviewSchedule(s, REVIEW_QUALITY.recalled, s.due)
+    s = reviewSchedule(s, REVIEW_QUALITY.wrong, '2026-03-20')
+    expect(s).toMatchObject({ repetitions: 0, interval: 1, lapses: 1, due: '2026-03-21', lastReviewed: '2026-03-20' })
+    expect(s.ease).toBeCloseTo(DEFAULT_EASE - 0.54)
+    expect(isDue(s, '2026-03-20')).toBe(false)
+  })
+
+  it('adds days across month and year ends', () => {
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01')
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { addResult, findCycle, parseUnlockGraph, requirementMet, rulesMet, type UnlockGraph, type UnlockGroup } from '../unlockGraph'
+import { builtinCategory } from '../categories'
+
+const [gk, science, history, geography] = (['gk', 'science', 'history', 'geography'] as const).map(builtinCategory)
+const CATEGORIES = [gk, science, history, geography]
+
+describe('parseUnlockGraph', () => {
+  it('accepts an acyclic graph and fills in categories left out', () => {
+    const res = parseUnlockGraph({ science: [[{ category: 'gk', minPercent: 70 }]], history: [['science']] }, CATEGORIES)
+    expect(res.ok).toBe(true)
+    expect(res.graph).toEqual({
+      gk: [],
+      science: [[{ category: 'gk', minPercent: 70 }]],
+      history: [[{ category: 'science' }]],
+      geography: [],
+    })
+  })
+
+  it('rejects a self-edge', () => {
+    const res = parseUnlockGraph({ science: [[{ category: 'science' }]] }, CATEGORIES)
+    expect(res).toMatchObject({ ok: false, error: 'science cannot require itself' })
+  })
+
+  it('rejects a 2-cycle', () => {
+    const res = parseUnlockGraph({ science: [['history']], history: [['science']] }, CATEGORIES)
+    expect(res.ok).toBe(false)
+    expect(res.error).toMatch(/^Unlock cycle: /)
+  })
+
+  it('rejects a 3-cycle', () => {
+    const res = parseUnlockGraph({ science: [['history']], history: [['geography']], geography: [['science']] }, CATEGORIES)
+    expect(res.ok).toBe(false)
+    expect(res.error).toBe('Unlock cycle: science → history → geography → science')
+  })
+
+  it('rejects unknown categories as keys and as requirements', () => {
+    expect(parseUnlockGraph({ space: [] }, CATEGORIES)).toMatchObject({ ok: false, error: 'Unknown category "space"' })
+    expect(parseUnlockGraph({ science: [['space']] }, CATEGORIES)).toMatchObject({ ok: false, error: 'Unknown category "space"' })
+  })
+
+  it('rejects out-of-range minimums', () => {
+    expect(parseUnlockGraph({ science: [[{ category: 'gk', minPercent: 120 }]] }, CATEGORIES).ok).toBe(false)
+    expect(parseUnlockGraph({ science: [[{ category: 'gk', minAnswered: 2.5 }]] }, CATEGORIES).ok).toBe(false)
+  })
+})
+
+describe('findCycle', () => {
+  it('returns the cycle as a path, or null', () => {
+    const graph: UnlockGraph = { [gk]: [], [science]: [[{ category: gk }]], [history]: [[{ category: science }]] }
+    expect(findCycle(graph)).toBeNull()
+    graph[gk] = [[{ category: history }]]
+    expect(findCycle(graph)).toEqual(['gk', 'history', 'science', 'gk'])
+  })
+})
+
+describe('rulesMet', () => {
+  const orGroup: UnlockGroup[] = [[{ category: gk }, { category: science, minPercent: 90 }]]
+
+  it('is satisfied by either edge of an OR group', () => {
+    expect(rulesMet(orGroup, { [gk]: [{ percent: 80, answered: 5 }] }, 80)).toBe(true)
+    expect(rulesMet(orGroup, { [science]: [{ percent: 95, answered: 5 }] }, 80)).toBe(true)
+    expect(rulesMet(orGroup, { [gk]: [{ percent: 79, answered: 5 }], [science]: [{ percent: 85, answered: 5 }] }, 80)).toBe(false)
+  })
+
+  it('needs every group (AND)', () => {
+    const groups: UnlockGroup[] = [[{ category: gk }], [{ category: science }]]
+    expect(rulesMet(groups, { [gk]: [{ percent: 100, answered: 5 }] }, 80)).toBe(false)
+    expect(rulesMet(groups, { [gk]: [{ percent: 100, answered: 5 }], [science]: [{ percent: 80, answered: 5 }] }, 80)).toBe(true)
+  })
+
+  it('is false for a category without requirements', () => {
+    expect(rulesMet([], {}, 80)).toBe(false)
+  })
+
+  it('blocks the unlock when fewer than minAnswered were answered', () => {
+    const groups: UnlockGroup[] = [[{ category: gk, minPercent: 70, minAnswered: 10 }]]
+    expect(rulesMet(groups, { [gk]: [{ percent: 100, answered: 9 }] }, 80)).toBe(false)
+    expect(rulesMet(groups, { [gk]: [{ percent: 70, answered: 10 }] }, 80)).toBe(true)
+  })
+
+  it('needs both minimums from the same attempt', () => {
+    const req = { category: gk, minPercent: 80, minAnswered: 10 }
+    expect(requirementMet(req, [{ percent: 100, answered: 5 }, { percent: 60, answered: 12 }], 80)).toBe(false)
+  })
+})
+
+describe('addResult', () => {
+  it('keeps only attempts not beaten on both accuracy and answered count', () => {
+    let list = addResult(undefined, { percent: 60, answered: 10 })
+    list = addResult(list, { percent: 90, answered: 4 })
+    expect(list).toEqual([{ percent: 90, answered: 4 }, { percent: 60, answered: 10 }])
+    expect(addResult(list, { percent: 50, answered: 8 })).toBe(list)
+    expect(addResult(list, { percent: 95, answered: 10 })).toEqual([{ percent: 95, answered: 10 }])
+  })
+})
@@ -1,4 +1,9 @@
-export type ModeKey = 'normal' | 'daily' | 'multiplayer'
+import type { QuizQuestion, SelectedAnswer } from '@/stores/quiz'
+import type { MultiplayerMatch } from '@/stores/multiplayerHistory'
+import { isAnswerCorrect } from '@/utils/answers'
+
+// 'practice': weak-spot practice (stores/practice.ts), kept off the scoreboard
+export type ModeKey = 'normal' | 'daily' | 'multiplayer' | 'practice'
 
 export type AnalyticsMeta = {
   totalQuestions: number
@@ -170,16 +175,16 @@ export function aggregateRecentPerformance(history: AnalyticsMeta[], limit = 10)
 }
 
 // PUBLIC_INTERFACE
-export function strikeForAnswers(answers: Array<number | 'SKIPPED'>, questions: Array<{ answerIndex: number }>): number {
-  /** Compute longest strike given selected answers array and questions answerIndex. */
+export function strikeForAnswers(
+  answers: SelectedAnswer[],
+  questions: Array<
+    Pick<QuizQuestion, 'answerIndex' | 'type' | 'answerIndices' | 'acceptedAnswers' | 'fuzzyTolerance' | 'numericAnswer' | 'tolerance'>
+  >
+): number {
+  /** Compute longest strike given selected answers array and questions; multi answers count only when fully correct. */
   const flags: boolean[] = []
   for (let i = 0; i < questions.length; i++) {
-    const sel = answers[i]
-    if (sel === 'SKIPPED' || typeof sel !== 'number') {
-      flags.push(false)
-      continue
-    }
-    flags.push(sel === questions[i].answerIndex)
+    flags.push(isAnswerCorrect(questions[i], answers[i]))
   }
   return longestStrike(flags)
 }
@@ -201,3 +206,27 @@ export function backfillAnalyticsFromScore(entry: ScoreEntryLite): AnalyticsMeta
     longestCorrectStreak: 0,
   }
 }
+
+// PUBLIC_INTERFACE
+export function multiplayerAnalyticsMeta(match: MultiplayerMatch): AnalyticsMeta | null {
+  /**
+   * Analytics record for the device's player in a multiplayer match: unanswered questions count as
+   * skipped, durations are the clock-corrected answer latencies. Null for spectators.
+   */
+  if (!match.standings.some((s) => s.playerId === match.playerId)) return null
+  const mine = match.questions.map((q) => q.answers.find((a) => a.playerId === match.playerId))
+  const answered = mine.filter((a) => !!a)
+  const correctCount = answered.filter((a) => a.correct).length
+  return {
+    totalQuestions: match.questions.length,
+    correctCount,
+    wrongCount: answered.length - correctCount,
+    skippedCount: match.questions.length - answered.length,
+    durations: answered.flatMap((a) => (a.elapsedMs != null ? [a.elapsedMs] : [])),
+    category: match.category,
+    mode: 'multiplayer',
+    startedAt: match.startedAt,
+    completedAt: match.completedAt,
+    longestCorrectStreak: longestStrike(mine.map((a) => !!a?.correct)),
+  }
+}
@@ -0,0 +1,271 @@
+import type { NumericTolerance, QuestionType, QuizQuestion } from '@/stores/quiz'
+
+/**
+ * Answer evaluation shared by every mode.
+ * - single: one correct option (`answerIndex`), answered with an option index
+ * - boolean: same as single, options are ["True", "False"]
+ * - multi: several correct options (`answerIndices`), answered with an array of option indices
+ * - text: typed answer matched against `acceptedAnswers` after normalization (+ optional edit distance)
+ * - numeric: typed number within `tolerance` of `numericAnswer`
+ *
+ * Untyped questions (older sessions, packs, pools) are treated as single.
+ */
+
+export type ScoringPolicy = 'all-or-nothing' | 'partial'
+
+/** A typed answer for text/numeric questions, kept verbatim as entered. */
+export type TypedAnswer = { text: string }
+
+/** A submitted answer: option index (single/boolean), option indices (multi) or typed text (text/numeric). */
+export type AnswerValue = number | number[] | TypedAnswer
+
+type AnswerShape = Pick<QuizQuestion, 'answerIndex'> &
+  Partial<
+    Pick<
+      QuizQuestion,
+      'type' | 'answerIndices' | 'options' | 'acceptedAnswers' | 'fuzzyTolerance' | 'numericAnswer' | 'tolerance'
+    >
+  >
+
+// Leading articles dropped before comparing typed answers ("The Beatles" == "beatles")
+const LEADING_ARTICLES = /^(?:(?:the|a|an|le|la|les|el|los|las|der|die|das)\s+|l')/
+
+// PUBLIC_INTERFACE
+export function parseQuestionType(value: unknown): QuestionType | undefined {
+  /**
+   * Parses a raw type value (case-insensitive). 'multiple' is deliberately not an alias for multi:
+   * trivia APIs use it for ordinary single-answer multiple choice.
+   */
+  if (typeof value !== 'string') return undefined
+  const v = value.trim().toLowerCase()
+  if (v === 'single' || v === 'multi' || v === 'boolean' || v === 'text' || v === 'numeric') return v
+  if (v === 'multi-select') return 'multi'
+  if (v === 'true-false' || v === 'truefalse') return 'boolean'
+  if (v === 'number') return 'numeric'
+  return undefined
+}
+
+// PUBLIC_INTERFACE
+export function parseAnswerIndices(value: unknown, optionCount: number): number[] | undefined {
+  /** Returns sorted unique in-range indices, or undefined when the value is not a non-empty index list. */
+  if (!Array.isArray(value)) return undefined
+  const out = [...new Set(value.map(Number))]
+    .filter((n) => Number.isInteger(n) && n >= 0 && n < optionCount)
+    .sort((a, b) => a - b)
+  return out.length ? out : undefined
+}
+
+// PUBLIC_INTERFACE
+export function parseTolerance(value: unknown): NumericTolerance | undefined {
+  /** Keeps non-negative finite `absolute`/`relative` entries; undefined when neither is usable. */
+  if (!value || typeof value !== 'object') return undefined
+  const raw = value as Record<string, unknown>
+  const out: NumericTolerance = {}
+  const abs = Number(raw.absolute)
+  const rel = Number(raw.relative)
+  if (raw.absolute != null && Number.isFinite(abs) && abs >= 0) out.absolute = abs
+  if (raw.relative != null && Number.isFinite(rel) && rel >= 0) out.relative = rel
+  return out.absolute != null || out.relative != null ? out : undefined
+}
+
+// PUBLIC_INTERFACE
+export function questionTypeOf(q: Pick<QuizQuestion, 'type'>): QuestionType {
+  return q.type ?? 'single'
+}
+
+// PUBLIC_INTERFACE
+export function isTypedQuestion(q: Pick<QuizQuestion, 'type'> | null | undefined): boolean {
+  /** True for question types answered by typing (text, numeric) rather than picking options. */
+  return q?.type === 'text' || q?.type === 'numeric'
+}
+
+// PUBLIC_INTERFACE
+export function fiftyFiftyAvailable(q: Pick<QuizQuestion, 'type'> | null | undefined): boolean {
+  /** 50/50 needs wrong options to remove: not for true/false or typed questions. */
+  return !!q && q.type !== 'boolean' && !isTypedQuestion(q)
+}
+
+// PUBLIC_INTERFACE
+export function correctIndicesOf(q: AnswerShape): number[] {
+  /** Correct option indices; multi questions fall back to answerIndex when answerIndices is missing. Empty for typed questions. */
+  if (isTypedQuestion(q)) return []
+  if (q.type === 'multi' && q.answerIndices && q.answerIndices.length) {
+    return [...new Set(q.answerIndices)].sort((a, b) => a - b)
+  }
+  return [q.answerIndex]
+}
+
+// PUBLIC_INTERFACE
+export function normalizeAnswerText(value: string): string {
+  /** Lowercases, strips diacritics, punctuation and a leading article, and collapses whitespace. */
+  const base = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .trim()
+  return base
+    .replace(LEADING_ARTICLES, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// PUBLIC_INTERFACE
+export function levenshtein(a: string, b: string): number {
+  /** Edit distance (insertions, deletions, substitutions) using a single rolling row. */
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let prevDiag = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prevDiag + (a[i - 1] === b[j - 1] ? 0 : 1))
+      prevDiag = tmp
+    }
+  }
+  return row[b.length]
+}
+
+// PUBLIC_INTERFACE
+export function parseNumericInput(value: string): number | null {
+  /**
+   * Parses a typed number. Accepts spaces/underscores as digit grouping, "1,234.5" thousands commas
+   * and a lone decimal comma ("3,14"). Returns null when the text is not a number.
+   */
+  let v = value.trim().replace(/[\s_]/g, '')
+  if (!v) return null
+  if (/^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(v)) v = v.replace(/,/g, '')
+  else if (/^[+-]?\d*,\d+$/.test(v)) v = v.replace(',', '.')
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v)) return null
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+// PUBLIC_INTERFACE
+export function matchesTextAnswer(q: AnswerShape, input: string): boolean {
+  /** Exact match after normalization against any accepted answer, or within `fuzzyTolerance` edits. */
+  const given = normalizeAnswerText(input)
+  if (!given) return false
+  const maxEdits = Math.max(0, Math.floor(q.fuzzyTolerance ?? 0))
+  return (q.acceptedAnswers ?? []).some((accepted) => {
+    const target = normalizeAnswerText(accepted)
+    if (!target) return false
+    if (target === given) return true
+    // never let the tolerance swallow short answers entirely ("1" vs "2")
+    return maxEdits > 0 && Math.min(target.length, given.length) > maxEdits && levenshtein(target, given) <= maxEdits
+  })
+}
+
+// PUBLIC_INTERFACE
+export function matchesNumericAnswer(q: AnswerShape, input: string): boolean {
+  /** Within the larger of the absolute and relative (fraction of the answer) tolerances; exact otherwise. */
+  const n = parseNumericInput(input)
+  if (n === null || typeof q.numericAnswer !== 'number') return false
+  const abs = q.tolerance?.absolute ?? 0
+  const rel = (q.tolerance?.relative ?? 0) * Math.abs(q.numericAnswer)
+  // small epsilon so 0.1 + 0.2 style float noise does not reject a boundary answer
+  return Math.abs(n - q.numericAnswer) <= Math.max(abs, rel) + 1e-9
+}
+
+// PUBLIC_INTERFACE
+export function answerCredit(q: AnswerShape, answer: AnswerValue | 'SKIPPED' | null | undefined, policy: ScoringPolicy = 'all-or-nothing'): number {
+  /**
+   * Credit in [0, 1] for an answer.
+   * Partial credit (multi only): (correct picks - wrong picks) / correct options, floored at 0,
+   * so ticking every box earns nothing. All other types are always all-or-nothing.
+   */
+  if (answer == null || answer === 'SKIPPED') return 0
+  if (isTypedQuestion(q)) {
+    if (typeof answer !== 'object' || Array.isArray(answer)) return 0
+    return (q.type === 'numeric' ? matchesNumericAnswer(q, answer.text) : matchesTextAnswer(q, answer.text)) ? 1 : 0
+  }
+  if (typeof answer === 'object' && !Array.isArray(answer)) return 0
+  const correct = correctIndicesOf(q)
+  const picked = [...new Set(Array.isArray(answer) ? answer : [answer])]
+  if (!picked.length) return 0
+  if (q.type !== 'multi') {
+    return picked.length === 1 && picked[0] === correct[0] ? 1 : 0
+  }
+  const hits = picked.filter((i) => correct.includes(i)).length
+  const misses = picked.length - hits
+  if (hits === correct.length && misses === 0) return 1
+  if (policy === 'all-or-nothing') return 0
+  return Math.max(0, (hits - misses) / correct.length)
+}
+
+// PUBLIC_INTERFACE
+export function isAnswerCorrect(q: AnswerShape, answer: AnswerValue | 'SKIPPED' | null | undefined): boolean {
+  /** True only for a fully correct answer (partial credit does not count as correct for streaks/analytics). */
+  return answerCredit(q, answer, 'all-or-nothing') === 1
+}
+
+// PUBLIC_INTERFACE
+export function expectedAnswerLabel(q: AnswerShape): string {
+  /** Human-readable expected answer for typed questions ("1945", "42 (±0.5)", "Paris"). */
+  if (q.type === 'numeric') {
+    if (typeof q.numericAnswer !== 'number') return ''
+    const abs = q.tolerance?.absolute ?? 0
+    const rel = (q.tolerance?.relative ?? 0) * Math.abs(q.numericAnswer)
+    const range = Math.max(abs, rel)
+    return range > 0 ? `${q.numericAnswer} (±${Number(range.toPrecision(6))})` : String(q.numericAnswer)
+  }
+  return q.acceptedAnswers?.[0] ?? ''
+}
+
+/**
+ * Answer-key fields withheld from clients by a server-authoritative multiplayer server until the
+ * player has answered. Explanations and sources are included because they usually give the answer away.
+ */
+export type AnswerKey = Pick<
+  QuizQuestion,
+  | 'answerIndex'
+  | 'answerIndices'
+  | 'acceptedAnswers'
+  | 'fuzzyTolerance'
+  | 'numericAnswer'
+  | 'tolerance'
+  | 'explanation'
+  | 'source'
+  | 'referenceUrl'
+>
+
+/** A question as sent to players before they answer (no answer key). */
+export type PublicQuestion = Omit<QuizQuestion, keyof AnswerKey>
+
+const ANSWER_KEY_FIELDS: Array<keyof AnswerKey> = [
+  'answerIndex',
+  'answerIndices',
+  'acceptedAnswers',
+  'fuzzyTolerance',
+  'numericAnswer',
+  'tolerance',
+  'explanation',
+  'source',
+  'referenceUrl',
+]
+
+// PUBLIC_INTERFACE
+export function answerKeyOf(q: QuizQuestion): AnswerKey {
+  /** Extracts the answer key (only fields that are set). */
+  const key: Record<string, unknown> = {}
+  for (const f of ANSWER_KEY_FIELDS) if (q[f] !== undefined) key[f] = q[f]
+  return key as AnswerKey
+}
+
+// PUBLIC_INTERFACE
+export function redactQuestion(q: QuizQuestion): PublicQuestion {
+  /** Strips the answer key so the question can be sent to players. */
+  const out: Record<string, unknown> = { ...q }
+  for (const f of ANSWER_KEY_FIELDS) delete out[f]
+  return out as PublicQuestion
+}
+
+// PUBLIC_INTERFACE
+export function withAnswerKey(q: PublicQuestion, key?: AnswerKey): QuizQuestion {
+  /** Rebuilds a playable question; without a key answerIndex is -1 so nothing is marked correct. */
+  return { ...q, answerIndex: -1, ...key }
+}
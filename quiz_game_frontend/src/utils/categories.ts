@@ -0,0 +1,123 @@
+import type { CategoryKey } from '@/stores/quiz'
+import type { UnlockGroup } from './unlockGraph'
+
+/**
+ * Category definitions for the category registry (stores/categories.ts).
+ * The built-in six ship with the app; more can come from the backend (`GET /api/categories`)
+ * or from an offline pack that carries its category, without a code change.
+ */
+
+export type CategoryDefinition = {
+  key: CategoryKey
+  label: string
+  emoji: string
+  hint: string
+  // value of the backend's `?category=` parameter
+  apiParam: string
+  unlock: {
+    // playable from the start
+    unlocked: boolean
+    // coins to buy it while locked (0 = cannot be bought)
+    price: number
+    // default prerequisites (see utils/unlockGraph.ts)
+    requires: UnlockGroup[]
+  }
+}
+
+// lowercase letters, digits and dashes; also what the multiplayer server accepts
+export const CATEGORY_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/
+
+const DEFAULT_EMOJI = '📚'
+
+export type BuiltinCategoryKey = 'gk' | 'sports' | 'movies' | 'science' | 'history' | 'geography'
+
+// PUBLIC_INTERFACE
+export function builtinCategory(key: BuiltinCategoryKey): CategoryKey {
+  /** Key of a built-in category. Keys that arrive at runtime go through the registry (`has`/`get`). */
+  return key as CategoryKey
+}
+
+export const BUILTIN_CATEGORIES: CategoryDefinition[] = [
+  {
+    key: builtinCategory('gk'),
+    label: 'General Knowledge',
+    emoji: '🧠',
+    hint: 'A bit of everything',
+    apiParam: 'general',
+    unlock: { unlocked: true, price: 0, requires: [] },
+  },
+  {
+    key: builtinCategory('sports'),
+    label: 'Sports',
+    emoji: '🏅',
+    hint: 'Games and records',
+    apiParam: 'sports',
+    unlock: { unlocked: false, price: 60, requires: [[{ category: builtinCategory('gk') }]] },
+  },
+  {
+    key: builtinCategory('movies'),
+    label: 'Movies',
+    emoji: '🎬',
+    hint: 'Cinema & film trivia',
+    apiParam: 'movies',
+    unlock: { unlocked: false, price: 60, requires: [[{ category: builtinCategory('gk') }]] },
+  },
+  {
+    key: builtinCategory('science'),
+    label: 'Science',
+    emoji: '🔬',
+    hint: 'Facts & discoveries',
+    apiParam: 'science',
+    unlock: { unlocked: false, price: 60, requires: [[{ category: builtinCategory('gk') }]] },
+  },
+  {
+    key: builtinCategory('history'),
+    label: 'History',
+    emoji: '🏛️',
+    hint: 'Past events & figures',
+    apiParam: 'history',
+    unlock: { unlocked: false, price: 100, requires: [[{ category: builtinCategory('science') }]] },
+  },
+  {
+    key: builtinCategory('geography'),
+    label: 'Geography',
+    emoji: '🗺️',
+    hint: 'World & places',
+    apiParam: 'geography',
+    unlock: { unlocked: false, price: 140, requires: [[{ category: builtinCategory('history') }]] },
+  },
+]
+
+function text(value: unknown, max: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, max) : ''
+}
+
+// PUBLIC_INTERFACE
+export function parseCategoryDefinition(value: unknown): CategoryDefinition | string {
+  /**
+   * Validates a definition from the backend, a pack or storage; returns an error message when unusable.
+   * Only `key` and `label` are required. Prerequisites are kept as given and validated with the graph.
+   */
+  if (!value || typeof value !== 'object') return 'A category must be an object'
+  const v = value as Record<string, unknown>
+  const key = text(v.key, 64).toLowerCase()
+  if (!CATEGORY_KEY_PATTERN.test(key)) return `Invalid category key "${String(v.key)}"`
+  const label = text(v.label, 60)
+  if (!label) return `Category "${key}" has no label`
+  const unlockRaw = (v.unlock && typeof v.unlock === 'object' ? v.unlock : {}) as Record<string, unknown>
+  const price = Math.floor(Number(unlockRaw.price))
+  return {
+    // the pattern above is the only check a key needs; the registry hands it out from here on
+    key: key as CategoryKey,
+    label,
+    emoji: text(v.emoji, 8) || DEFAULT_EMOJI,
+    hint: text(v.hint, 80),
+    apiParam: text(v.apiParam, 64) || key,
+    unlock: {
+      // new categories are open unless they say otherwise
+      unlocked: unlockRaw.unlocked !== false,
+      price: Number.isFinite(price) && price > 0 ? price : 0,
+      requires: Array.isArray(unlockRaw.requires) ? (unlockRaw.requires as UnlockGroup[]) : [],
+    },
+  }
+}
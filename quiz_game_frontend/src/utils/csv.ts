@@ -0,0 +1,68 @@
+/**
+ * Minimal CSV/TSV reader/writer for spreadsheet round-tripping (RFC 4180 quoting).
+ * Quoted cells may contain delimiters, quotes ("" escapes) and line breaks.
+ */
+
+export type Delimiter = ',' | '\t'
+
+// PUBLIC_INTERFACE
+export function detectDelimiter(text: string): Delimiter {
+  /** Picks tab when the first line has more tabs than commas (spreadsheet TSV export), else comma. */
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const tabs = firstLine.split('\t').length - 1
+  const commas = firstLine.split(',').length - 1
+  return tabs > commas ? '\t' : ','
+}
+
+// PUBLIC_INTERFACE
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  /** Parses delimited text into rows of raw cell strings. A trailing newline does not add a row. */
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+function quoteCell(value: string, delimiter: Delimiter): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// PUBLIC_INTERFACE
+export function toDelimited(rows: string[][], delimiter: Delimiter): string {
+  /** Serializes rows, quoting cells that contain the delimiter, quotes or line breaks. */
+  return rows.map((r) => r.map((c) => quoteCell(c, delimiter)).join(delimiter)).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,49 @@
+/**
+ * Lifelines shared by the single-player and daily quizzes.
+ * Each lifeline is free once per quiz (the `*Used` flags); further uses spend a charge bought
+ * with coins in the lifeline shop (stores/lifelineShop.ts).
+ */
+
+export type LifelineKind = 'fiftyFifty' | 'skip' | 'extraTime' | 'askHint'
+
+/** Per-quiz flags: whether the free use of each lifeline is spent. */
+export type LifelineFlags = {
+  fiftyFiftyUsed: boolean
+  skipUsed: boolean
+  extraTimeUsed: boolean
+  askHintUsed: boolean
+}
+
+export const LIFELINE_KINDS: LifelineKind[] = ['fiftyFifty', 'skip', 'extraTime', 'askHint']
+
+export const LIFELINE_FLAG: Record<LifelineKind, keyof LifelineFlags> = {
+  fiftyFifty: 'fiftyFiftyUsed',
+  skip: 'skipUsed',
+  extraTime: 'extraTimeUsed',
+  askHint: 'askHintUsed',
+}
+
+export const LIFELINE_LABELS: Record<LifelineKind, string> = {
+  fiftyFifty: '50-50',
+  skip: 'Skip',
+  extraTime: 'Extra time',
+  askHint: 'Hint',
+}
+
+export const LIFELINE_DESCRIPTIONS: Record<LifelineKind, string> = {
+  fiftyFifty: 'Removes two wrong options.',
+  skip: 'Skips a question without penalty.',
+  extraTime: 'Adds seconds to the timer.',
+  askHint: 'Reveals the question hint.',
+}
+
+// price in coins of one charge
+export const LIFELINE_PRICES: Record<LifelineKind, number> = {
+  fiftyFifty: 15,
+  skip: 10,
+  extraTime: 8,
+  askHint: 12,
+}
+
+// most charges of one lifeline a player can hold
+export const MAX_CHARGES = 99
@@ -0,0 +1,99 @@
+import type { QuestionMedia, QuestionMediaKind } from '@/stores/quiz'
+
+/**
+ * Question media (images and audio clips).
+ * - `src` is an http(s) URL, an app-relative path ("/media/flag.png") or a data URL (uploads, bundled packs)
+ * - `alt` is mandatory: media without a text alternative is dropped so screen-reader users can still play
+ * - uploads and bundled pack media are stored inline as data URLs, capped at MAX_MEDIA_BYTES each
+ */
+
+/** Size cap per media file; everything is kept in localStorage (~5 MB per origin). */
+export const MAX_MEDIA_BYTES = 512 * 1024
+
+const AUDIO_EXT = /\.(mp3|ogg|oga|wav|m4a|aac|flac|opus)(\?|#|$)/i
+
+// PUBLIC_INTERFACE
+export function mediaKindOf(src: string): QuestionMediaKind {
+  /** Infers the kind from a data URL MIME type or a file extension; defaults to image. */
+  const mime = /^data:([^;,]+)/i.exec(src)?.[1]?.toLowerCase()
+  if (mime) return mime.startsWith('audio/') ? 'audio' : 'image'
+  return AUDIO_EXT.test(src) ? 'audio' : 'image'
+}
+
+function isMediaSrc(src: string, kind: QuestionMediaKind): boolean {
+  if (/^https?:\/\//i.test(src) || src.startsWith('/')) return true
+  return new RegExp(`^data:${kind}/[\\w.+-]+(;[\\w=.-]+)*;base64,`, 'i').test(src)
+}
+
+// PUBLIC_INTERFACE
+export function parseQuestionMedia(value: unknown): QuestionMedia | undefined {
+  /** Validates raw media data; undefined when the kind, source or alt text is missing or unusable. */
+  if (!value || typeof value !== 'object') return undefined
+  const raw = value as Record<string, unknown>
+  const kind = raw.kind === 'image' || raw.kind === 'audio' ? raw.kind : undefined
+  const src = typeof raw.src === 'string' ? raw.src.trim() : ''
+  const alt = typeof raw.alt === 'string' ? raw.alt.trim() : ''
+  if (!kind || !src || !alt || !isMediaSrc(src, kind)) return undefined
+  const credit = typeof raw.credit === 'string' && raw.credit.trim() ? raw.credit.trim() : undefined
+  return credit ? { kind, src, alt, credit } : { kind, src, alt }
+}
+
+// PUBLIC_INTERFACE
+export function isInlineMedia(media: Pick<QuestionMedia, 'src'> | undefined): boolean {
+  return !!media && media.src.startsWith('data:')
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+function formatKb(bytes: number): string {
+  return `${Math.round(bytes / 1024)} KB`
+}
+
+// PUBLIC_INTERFACE
+export async function readMediaFile(file: Blob): Promise<{ ok: boolean; kind?: QuestionMediaKind; src?: string; error?: string }> {
+  /** Reads an uploaded image/audio file into a data URL, enforcing the type and MAX_MEDIA_BYTES. */
+  const kind: QuestionMediaKind | undefined = file.type.startsWith('image/')
+    ? 'image'
+    : file.type.startsWith('audio/')
+      ? 'audio'
+      : undefined
+  if (!kind) return { ok: false, error: 'Only image and audio files can be attached' }
+  if (file.size > MAX_MEDIA_BYTES) {
+    return { ok: false, error: `File is ${formatKb(file.size)}; the limit is ${formatKb(MAX_MEDIA_BYTES)}` }
+  }
+  try {
+    return { ok: true, kind, src: await blobToDataUrl(file) }
+  } catch (e: unknown) {
+    const msg = e && typeof e === 'object' && 'message' in e ? String((e as { message?: string }).message) : 'Could not read file'
+    return { ok: false, error: msg }
+  }
+}
+
+// PUBLIC_INTERFACE
+export async function inlineMedia(media: QuestionMedia, timeoutMs = 8000): Promise<QuestionMedia> {
+  /**
+   * Downloads remote media into a data URL so it plays offline. Returns the media unchanged when it
+   * is already inline, the download fails, the type does not match or it exceeds MAX_MEDIA_BYTES.
+   */
+  if (isInlineMedia(media)) return media
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const res = await fetch(media.src, { signal: controller.signal })
+    if (!res.ok) return media
+    const blob = await res.blob()
+    if (!blob.type.startsWith(`${media.kind}/`) || blob.size > MAX_MEDIA_BYTES) return media
+    return { ...media, src: await blobToDataUrl(blob) }
+  } catch {
+    return media
+  } finally {
+    clearTimeout(timeout)
+  }
+}
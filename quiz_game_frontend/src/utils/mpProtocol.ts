@@ -0,0 +1,386 @@
+import type { CategoryKey, QuizQuestion } from '@/stores/quiz'
+import type { AnswerKey, PublicQuestion } from '@/utils/answers'
+
+/**
+ * Multiplayer wire protocol shared by the client store (stores/multiplayer.ts) and the reference
+ * server (server/). Keep this module free of browser/Vue dependencies so Node can load it.
+ */
+
+/** Spectators watch the live answers and leaderboard but never answer or score. */
+export type PlayerRole = 'player' | 'spectator'
+
+export type Player = {
+  id: string
+  name: string
+  score: number
+  ready: boolean
+  role: PlayerRole
+  // team mode: the team this player plays for (unset = no team)
+  teamId?: string
+}
+
+/**
+ * How someone joining after START takes part: play starting from zero, play starting from a
+ * catch-up score (see catchUpScore), or only spectate. Chosen by the host in START.
+ */
+export type LateJoinPolicy = 'play' | 'catch-up' | 'spectate'
+
+// PUBLIC_INTERFACE
+export function isSpectator(p: Pick<Player, 'role'> | null | undefined): boolean {
+  /** Servers that predate roles send no `role`; everyone is a player then. */
+  return p?.role === 'spectator'
+}
+
+// PUBLIC_INTERFACE
+export function catchUpScore(players: Player[]): number {
+  /** Starting score for a late joiner under 'catch-up': the lowest score among current players. */
+  const scores = players.filter((p) => !isSpectator(p)).map((p) => p.score)
+  return scores.length ? Math.min(...scores) : 0
+}
+
+export type AnswerSubmission = {
+  playerId: string
+  questionIndex: number
+  answerIndex: number
+  // all ticked options for multi questions (answerIndex holds the first)
+  answerIndices?: number[]
+  // typed answer for text/numeric questions (answerIndex is -1)
+  answerText?: string
+  correct: boolean
+  ts: number // ms since epoch on the server's clock (client clock corrected by the PING/PONG offset)
+  // ms between the question start (questionStartTs) and the answer; fastest-correct ranks on this
+  elapsedMs?: number
+  // server-authoritative mode: sent, waiting for the server's RESULT
+  pending?: boolean
+  // points awarded and whether it was the fastest correct answer (see scoreQuestion)
+  points?: number
+  fastest?: boolean
+}
+
+// Configurable scoring constants
+export const FULL_POINTS = 10
+export const REDUCED_POINTS = 5
+
+// PUBLIC_INTERFACE
+export function submissionElapsedMs(s: Pick<AnswerSubmission, 'elapsedMs' | 'ts'>): number {
+  /** Ranking key: time since question start; older peers without elapsedMs fall back to the timestamp. */
+  return typeof s.elapsedMs === 'number' ? s.elapsedMs : s.ts
+}
+
+// PUBLIC_INTERFACE
+export function scoreQuestion(subs: AnswerSubmission[]): Map<string, { points: number; fastest: boolean }> {
+  /**
+   * Fastest-correct scoring for one question's submissions, by player id: the quickest correct
+   * answers (ties included) earn FULL_POINTS, later correct ones REDUCED_POINTS, wrong ones 0.
+   * Recomputed whenever a submission arrives, so a faster answer that arrives late still wins.
+   */
+  const out = new Map<string, { points: number; fastest: boolean }>()
+  const correct = subs.filter((s) => s.correct)
+  const best = correct.length ? Math.min(...correct.map(submissionElapsedMs)) : 0
+  for (const s of subs) {
+    if (!s.correct) out.set(s.playerId, { points: 0, fastest: false })
+    else if (submissionElapsedMs(s) === best) out.set(s.playerId, { points: FULL_POINTS, fastest: true })
+    else out.set(s.playerId, { points: REDUCED_POINTS, fastest: false })
+  }
+  return out
+}
+
+/** Default per-question time limit offered by the lobby; 0 means untimed (the host advances manually). */
+export const DEFAULT_QUESTION_MS = 20_000
+/** How long the correct answer and the fastest player are shown before the next question. */
+export const REVEAL_MS = 4_000
+
+// PUBLIC_INTERFACE
+export function questionDeadline(questionStartTs: number | null, questionDurationMs: number): number | null {
+  /** Server-clock time after which answers to the current question are rejected; null when untimed. */
+  return questionStartTs != null && questionDurationMs > 0 ? questionStartTs + questionDurationMs : null
+}
+
+/**
+ * NTP-style clock offset estimate from one PING/PONG round trip: assumes the server stamped
+ * `serverTs` halfway through the round trip. offset = serverClock - clientClock.
+ */
+export type ClockSample = { offsetMs: number; rttMs: number }
+
+// PUBLIC_INTERFACE
+export function clockSample(clientSentTs: number, serverTs: number, clientReceivedTs: number): ClockSample {
+  const rttMs = Math.max(0, clientReceivedTs - clientSentTs)
+  return { offsetMs: serverTs - (clientSentTs + rttMs / 2), rttMs }
+}
+
+// PUBLIC_INTERFACE
+export function bestClockSample(samples: ClockSample[]): ClockSample | null {
+  /** The sample with the smallest round trip has the least room for asymmetric delay. */
+  return samples.reduce<ClockSample | null>((best, s) => (!best || s.rttMs < best.rttMs ? s : best), null)
+}
+
+/** Team mode: a named, colored group of players. */
+export type Team = { id: string; name: string; color: string }
+
+/**
+ * How a team scores: `sum` adds up the members' scores, `best` takes the top member's score and
+ * `first-answer` counts, per question, only the points of the team's quickest answer (later
+ * answers from teammates do not count for the team). Individual scores are unaffected.
+ */
+export type TeamScoring = 'sum' | 'best' | 'first-answer'
+
+export const MAX_TEAMS = 8
+export const MAX_TEAM_NAME_LENGTH = 20
+
+/** Default names/colors offered when the host turns teams on. */
+export const TEAM_PRESETS: Team[] = [
+  { id: 'red', name: 'Red', color: '#EF4444' },
+  { id: 'blue', name: 'Blue', color: '#3B82F6' },
+  { id: 'green', name: 'Green', color: '#10B981' },
+  { id: 'yellow', name: 'Yellow', color: '#F59E0B' },
+  { id: 'purple', name: 'Purple', color: '#8B5CF6' },
+  { id: 'pink', name: 'Pink', color: '#EC4899' },
+  { id: 'teal', name: 'Teal', color: '#14B8A6' },
+  { id: 'orange', name: 'Orange', color: '#F97316' },
+]
+
+// PUBLIC_INTERFACE
+export function sanitizeTeams(value: unknown): Team[] {
+  /** Validates a team list from the wire: unique ids, trimmed non-empty names, #rrggbb colors, at most MAX_TEAMS. */
+  if (!Array.isArray(value)) return []
+  const seen = new Set<string>()
+  const teams: Team[] = []
+  for (const raw of value.slice(0, MAX_TEAMS)) {
+    if (!raw || typeof raw !== 'object') continue
+    const t = raw as Record<string, unknown>
+    const id = typeof t.id === 'string' ? t.id.trim() : ''
+    const name = typeof t.name === 'string' ? t.name.trim().slice(0, MAX_TEAM_NAME_LENGTH) : ''
+    const color = typeof t.color === 'string' && /^#[0-9a-f]{6}$/i.test(t.color) ? t.color : '#64748B'
+    if (!id || !name || seen.has(id)) continue
+    seen.add(id)
+    teams.push({ id, name, color })
+  }
+  return teams
+}
+
+// PUBLIC_INTERFACE
+export function balanceTeams(players: Player[], teams: Team[]): Record<string, string> {
+  /**
+   * Auto-balance: team id by player id. Strongest players first, each to the team with the fewest
+   * members (ties: lowest total score, then team order). Spectators are left out.
+   */
+  const out: Record<string, string> = {}
+  if (!teams.length) return out
+  const load = teams.map((t) => ({ id: t.id, size: 0, score: 0 }))
+  const ranked = players.filter((p) => !isSpectator(p)).sort((a, b) => b.score - a.score)
+  for (const p of ranked) {
+    const target = load.reduce((best, t) => (t.size < best.size || (t.size === best.size && t.score < best.score) ? t : best))
+    target.size++
+    target.score += p.score
+    out[p.id] = target.id
+  }
+  return out
+}
+
+// PUBLIC_INTERFACE
+export function teamScores(
+  teams: Team[],
+  players: Player[],
+  submissions: AnswerSubmission[],
+  scoring: TeamScoring
+): Record<string, number> {
+  /** Team totals under the given policy; see TeamScoring. */
+  const out: Record<string, number> = {}
+  for (const team of teams) {
+    const members = players.filter((p) => p.teamId === team.id && !isSpectator(p))
+    if (scoring === 'sum') out[team.id] = members.reduce((sum, p) => sum + p.score, 0)
+    else if (scoring === 'best') out[team.id] = members.length ? Math.max(...members.map((p) => p.score)) : 0
+    else {
+      const ids = new Set(members.map((p) => p.id))
+      const firstByQuestion = new Map<number, AnswerSubmission>()
+      for (const s of submissions) {
+        if (!ids.has(s.playerId) || s.pending) continue
+        const first = firstByQuestion.get(s.questionIndex)
+        if (!first || submissionElapsedMs(s) < submissionElapsedMs(first)) firstByQuestion.set(s.questionIndex, s)
+      }
+      out[team.id] = [...firstByQuestion.values()].reduce((sum, s) => sum + (s.points ?? 0), 0)
+    }
+  }
+  return out
+}
+
+/**
+ * Where a room's questions come from. Without content the room plays the bundled pool for its
+ * category; with content (a custom quiz or a downloaded offline pack) the host ships the questions
+ * in CONTENT, because joiners do not have them locally.
+ */
+export type RoomSource = { kind: 'custom' | 'pack'; title: string }
+
+/** Questions shipped by the host, identified by `hash` (contentHash of the questions). */
+export type RoomContent = { hash: string; source: RoomSource; questions: QuizQuestion[] }
+
+export const MAX_CONTENT_QUESTIONS = 200
+/** Serialized size cap for CONTENT; inline (uploaded) media counts towards it. */
+export const MAX_CONTENT_BYTES = 4 * 1024 * 1024
+
+// PUBLIC_INTERFACE
+export function contentHash(questions: QuizQuestion[]): string {
+  /** Stable 53-bit hash (cyrb53, hex) of the serialized questions; both ends hash the same JSON. */
+  const str = JSON.stringify(questions)
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
+
+// PUBLIC_INTERFACE
+export function roomContent(source: RoomSource, questions: QuizQuestion[]): RoomContent {
+  /** Packages questions for CONTENT (capped at MAX_CONTENT_QUESTIONS). */
+  const list = questions.slice(0, MAX_CONTENT_QUESTIONS)
+  return { hash: contentHash(list), source, questions: list }
+}
+
+function isWireQuestion(value: unknown): value is QuizQuestion {
+  if (!value || typeof value !== 'object') return false
+  const q = value as Record<string, unknown>
+  return (
+    (typeof q.id === 'string' || typeof q.id === 'number') &&
+    typeof q.question === 'string' &&
+    Array.isArray(q.options) &&
+    q.options.every((o) => typeof o === 'string') &&
+    typeof q.answerIndex === 'number'
+  )
+}
+
+// PUBLIC_INTERFACE
+export function sanitizeContent(value: unknown): RoomContent | null {
+  /**
+   * Validates CONTENT from the wire: a known source kind, 1..MAX_CONTENT_QUESTIONS well-formed
+   * questions and a hash that matches them (so a truncated or altered payload is refused).
+   */
+  if (!value || typeof value !== 'object') return null
+  const c = value as Record<string, unknown>
+  const source = c.source as Record<string, unknown> | undefined
+  if (!source || (source.kind !== 'custom' && source.kind !== 'pack')) return null
+  const title = typeof source.title === 'string' ? source.title.trim().slice(0, 80) : ''
+  const questions = c.questions
+  if (!Array.isArray(questions) || !questions.length || questions.length > MAX_CONTENT_QUESTIONS) return null
+  if (!questions.every(isWireQuestion) || c.hash !== contentHash(questions)) return null
+  return { hash: c.hash, source: { kind: source.kind, title: title || 'Custom quiz' }, questions }
+}
+
+/** question: answers accepted; reveal: answer and fastest player shown; over: the round has ended. */
+export type QuestionPhase = 'question' | 'reveal' | 'over'
+
+export type WsMessage =
+  // `create` asks the server to open a new room with the sender as host (otherwise join an existing one)
+  // `spectate` joins as a spectator regardless of the room's late-join policy
+  | { type: 'HELLO'; roomCode: string; playerId: string; name: string; create?: boolean; spectate?: boolean }
+  | { type: 'ROOM_CREATED'; roomCode: string }
+  | {
+      type: 'ROOM_JOINED'
+      roomCode: string
+      players: Player[]
+      category?: CategoryKey
+      seed?: string
+      currentQuestionIndex?: number
+      // server-authoritative rooms: set by the server, questions come without answer keys
+      authoritative?: boolean
+      questions?: PublicQuestion[]
+      // timed rounds, so a rejoining player resumes the countdown/reveal where the room is
+      questionStartTs?: number
+      questionDurationMs?: number
+      deadlineTs?: number
+      phase?: QuestionPhase
+      // the server runs the countdown: it sends REVEAL and the next QUESTION_INDEX itself
+      autoAdvance?: boolean
+      // current host (changes on TRANSFER_HOST or host migration) and whether new joins are refused
+      hostId?: string
+      locked?: boolean
+      // team mode (no teams = off); teamScores as computed by the server
+      teams?: Team[]
+      teamScoring?: TeamScoring
+      teamScores?: Record<string, number>
+      // the round plays shipped content (request it with CONTENT_REQUEST when it is not cached)
+      source?: RoomSource
+      contentHash?: string
+    }
+  | { type: 'PLAYER_LIST'; players: Player[] }
+  | { type: 'READY'; playerId: string; ready: boolean }
+  // host -> server: category + seed; server-authoritative server -> everyone: also the redacted questions.
+  // questionDurationMs > 0 makes the round timed; questionCount lets a relay server know when it ends.
+  // contentHash plays the CONTENT the host sent before START instead of the category's bundled pool
+  // (`category` then only labels the round).
+  | {
+      type: 'START'
+      category: CategoryKey
+      seed: string
+      questionStartTs: number
+      questions?: PublicQuestion[]
+      questionDurationMs?: number
+      questionCount?: number
+      deadlineTs?: number
+      lateJoin?: LateJoinPolicy
+      source?: RoomSource
+      contentHash?: string
+    }
+  // host -> server before START: the questions to play. A relay server forwards it to everyone and
+  // answers CONTENT_REQUEST { hash } from players who joined later; an authoritative server keeps it
+  // (answer keys included) and only sends the redacted questions in START.
+  | { type: 'CONTENT'; content: RoomContent }
+  | { type: 'CONTENT_REQUEST'; hash: string }
+  | { type: 'QUESTION_INDEX'; index: number; questionStartTs: number; deadlineTs?: number }
+  // timed rounds: answering closed (everyone answered or the deadline passed). Carries the answer
+  // key in server-authoritative rooms so players who did not answer see it too.
+  | { type: 'REVEAL'; questionIndex: number; revealUntilTs: number; key?: AnswerKey }
+  // timed rounds: the last question's reveal is over
+  | { type: 'GAME_OVER'; players: Player[] }
+  // client-scored mode only
+  | { type: 'SUBMISSION'; submission: AnswerSubmission }
+  // server-authoritative mode: client -> server, the answer only
+  | {
+      type: 'ANSWER'
+      questionIndex: number
+      answerIndex: number
+      answerIndices?: number[]
+      answerText?: string
+      // clock-corrected send time and time since question start as measured by the client
+      clientTs: number
+      elapsedMs?: number
+    }
+  // server-authoritative mode: server -> everyone; `key` only in the answering player's copy.
+  // Resent without `key` when a faster answer arriving later changes a player's points.
+  | {
+      type: 'RESULT'
+      playerId: string
+      questionIndex: number
+      correct: boolean
+      points: number
+      fastest: boolean
+      ts: number
+      elapsedMs?: number
+      key?: AnswerKey
+      // spectators' copies only: what was picked, for the live answer distribution
+      pick?: Pick<AnswerSubmission, 'answerIndex' | 'answerIndices' | 'answerText'>
+    }
+  | { type: 'SCORES'; players: Player[]; teamScores?: Record<string, number> }
+  // clock sync + keepalive: the server answers a PING carrying clientTs with PONG
+  | { type: 'PING'; clientTs?: number }
+  | { type: 'PONG'; clientTs: number; serverTs: number }
+  | { type: 'REJOIN'; roomCode: string; playerId: string }
+  // host moderation. KICK removes a player for good (KICKED goes to them, then the socket closes);
+  // LOCK_ROOM is sent by the host and echoed to everyone.
+  | { type: 'KICK'; playerId: string }
+  | { type: 'KICKED'; reason: string }
+  | { type: 'TRANSFER_HOST'; playerId: string }
+  // `migrated`: the previous host was disconnected for too long and the server picked a new one
+  | { type: 'HOST_CHANGED'; hostId: string; migrated?: boolean }
+  | { type: 'LOCK_ROOM'; locked: boolean }
+  // team mode. TEAMS (host; echoed to everyone) sets the teams and scoring, an empty list turns
+  // teams off. JOIN_TEAM: players pick their own team, the host may move anyone. BALANCE_TEAMS
+  // (host) spreads players evenly (balanceTeams). Team changes arrive as PLAYER_LIST/SCORES.
+  | { type: 'TEAMS'; teams: Team[]; scoring: TeamScoring }
+  | { type: 'JOIN_TEAM'; playerId: string; teamId: string | null }
+  | { type: 'BALANCE_TEAMS' }
+  | { type: 'ERROR'; message: string }
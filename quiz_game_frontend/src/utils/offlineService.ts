@@ -1,5 +1,9 @@
-import type { CategoryKey } from '@/stores/quiz'
+import type { CategoryKey, QuizQuestion } from '@/stores/quiz'
+import { parseDifficulty } from '@/stores/quiz'
 import { useOfflineStore } from '@/stores/offline'
+import { useCategoryRegistryStore } from '@/stores/categories'
+import { builtinCategory, parseCategoryDefinition } from '@/utils/categories'
+import { shuffleWithSeed } from '@/utils/pools'
 
 // PUBLIC_INTERFACE
 export async function downloadCategoryPack(category: CategoryKey): Promise<{ ok: boolean; message: string }> {
@@ -29,6 +33,39 @@ export function importPackFromJson(category: CategoryKey, json: string): { ok: b
   return { ok: res.ok, message: res.ok ? 'Imported' : (res.error || 'Import failed') }
 }
 
+// PUBLIC_INTERFACE
+export function importCategoryPackFromJson(json: string): { ok: boolean; message: string; category?: CategoryKey } {
+  /**
+   * Imports a pack that names its own category: `category` is either a definition
+   * ({ key, label, emoji?, hint?, apiParam?, unlock? }, registered when new) or a registered key.
+   */
+  let obj: unknown
+  try {
+    obj = JSON.parse(json)
+  } catch {
+    return { ok: false, message: 'Invalid JSON' }
+  }
+  const registry = useCategoryRegistryStore()
+  const raw = obj && typeof obj === 'object' ? (obj as { category?: unknown; meta?: { category?: unknown } }) : {}
+  const named = raw.category ?? raw.meta?.category
+  let key: CategoryKey
+  let def: unknown = null
+  if (typeof named === 'string') {
+    if (!registry.has(named)) return { ok: false, message: `Unknown category "${named}"; the pack must include its definition` }
+    key = named
+  } else {
+    const parsed = parseCategoryDefinition(named)
+    if (typeof parsed === 'string') return { ok: false, message: named == null ? 'The pack does not name its category' : parsed }
+    key = parsed.key
+    // a built-in key keeps its built-in definition
+    if (registry.get(key)?.origin !== 'builtin') def = named
+  }
+  const res = useOfflineStore().importPack(key, json)
+  if (!res.ok) return { ok: false, message: res.error || 'Import failed' }
+  if (def) registry.register([def], 'pack')
+  return { ok: true, message: `Imported into ${registry.labelFor(key)}`, category: key }
+}
+
 // PUBLIC_INTERFACE
 export function exportPackToJson(category: CategoryKey): { ok: boolean; json?: string; message?: string } {
   const offline = useOfflineStore()
@@ -36,3 +73,216 @@ export function exportPackToJson(category: CategoryKey): { ok: boolean; json?: s
   if (!json) return { ok: false, message: 'No pack for category' }
   return { ok: true, json }
 }
+
+// Open Trivia DB (opentdb.com) import adapter
+
+/**
+ * OpenTDB result item. Text fields are HTML-entity encoded in the default API encoding.
+ */
+type OpenTdbItem = {
+  type?: unknown // 'multiple' | 'boolean'
+  difficulty?: unknown
+  category?: unknown
+  question?: unknown
+  correct_answer?: unknown
+  incorrect_answers?: unknown
+}
+
+export type OpenTdbImportOptions = {
+  /** Seed for the deterministic answer shuffle; the same file + seed always yields the same packs. */
+  seed?: string
+  /** Put every item into this category instead of mapping OpenTDB categories. */
+  category?: CategoryKey
+  /** Extra/overriding OpenTDB category name -> CategoryKey mappings (names matched case-insensitively). */
+  categoryMap?: Record<string, CategoryKey>
+  /** Append to the existing pack instead of replacing it (questions already present are skipped). */
+  merge?: boolean
+}
+
+export type OpenTdbSkippedItem = { index: number; reason: string }
+
+export type OpenTdbConversion = {
+  byCategory: Partial<Record<CategoryKey, QuizQuestion[]>>
+  skipped: OpenTdbSkippedItem[]
+}
+
+export type OpenTdbImportReport = {
+  ok: boolean
+  message: string
+  imported: Partial<Record<CategoryKey, number>>
+  skipped: number
+  skippedByReason: Record<string, number>
+  skippedItems: OpenTdbSkippedItem[]
+}
+
+// OpenTDB category names (decoded) -> our categories. Unlisted categories are skipped.
+const OPENTDB_CATEGORY_MAP: Record<string, CategoryKey> = {
+  'general knowledge': builtinCategory('gk'),
+  'sports': builtinCategory('sports'),
+  'entertainment: film': builtinCategory('movies'),
+  'entertainment: television': builtinCategory('movies'),
+  'entertainment: cartoon & animations': builtinCategory('movies'),
+  'science & nature': builtinCategory('science'),
+  'science: computers': builtinCategory('science'),
+  'science: mathematics': builtinCategory('science'),
+  'science: gadgets': builtinCategory('science'),
+  'history': builtinCategory('history'),
+  'politics': builtinCategory('history'),
+  'mythology': builtinCategory('history'),
+  'geography': builtinCategory('geography'),
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', shy: '',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  hellip: '…', ndash: '–', mdash: '—', deg: '°', pi: 'π', trade: '™', reg: '®', copy: '©',
+  aacute: 'á', eacute: 'é', iacute: 'í', oacute: 'ó', uacute: 'ú', yacute: 'ý',
+  Aacute: 'Á', Eacute: 'É', Iacute: 'Í', Oacute: 'Ó', Uacute: 'Ú',
+  agrave: 'à', egrave: 'è', igrave: 'ì', ograve: 'ò', ugrave: 'ù',
+  acirc: 'â', ecirc: 'ê', icirc: 'î', ocirc: 'ô', ucirc: 'û',
+  auml: 'ä', euml: 'ë', iuml: 'ï', ouml: 'ö', uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü',
+  atilde: 'ã', otilde: 'õ', ntilde: 'ñ', Ntilde: 'Ñ', aring: 'å', Aring: 'Å',
+  oslash: 'ø', Oslash: 'Ø', aelig: 'æ', AElig: 'Æ', ccedil: 'ç', Ccedil: 'Ç', szlig: 'ß',
+}
+
+// PUBLIC_INTERFACE
+export function decodeHtmlEntities(text: string): string {
+  /** Decodes numeric (&#039; / &#x27;) and common named HTML entities; unknown entities are kept as-is. */
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[body] ?? match
+  })
+}
+
+function decodedString(val: unknown): string {
+  return typeof val === 'string' ? decodeHtmlEntities(val).trim() : ''
+}
+
+// PUBLIC_INTERFACE
+export function convertOpenTdb(data: unknown, opts: OpenTdbImportOptions = {}): OpenTdbConversion {
+  /**
+   * Converts an OpenTDB payload ({ response_code, results } or a bare results array) into questions
+   * grouped by category. The correct answer is shuffled into the options with a seed derived from
+   * opts.seed + question text; True/False questions keep the fixed True, False order.
+   */
+  const byCategory: Partial<Record<CategoryKey, QuizQuestion[]>> = {}
+  const skipped: OpenTdbSkippedItem[] = []
+  const results =
+    data && typeof data === 'object' && Array.isArray((data as { results?: unknown }).results)
+      ? (data as { results: unknown[] }).results
+      : Array.isArray(data) ? data : null
+  if (!results) {
+    skipped.push({ index: -1, reason: 'not an OpenTDB payload' })
+    return { byCategory, skipped }
+  }
+  const map: Record<string, CategoryKey> = { ...OPENTDB_CATEGORY_MAP }
+  for (const [name, key] of Object.entries(opts.categoryMap ?? {})) map[name.trim().toLowerCase()] = key
+  const seed = opts.seed ?? 'opentdb'
+  const seen = new Set<string>()
+
+  results.forEach((raw: unknown, index: number) => {
+    if (!raw || typeof raw !== 'object') {
+      skipped.push({ index, reason: 'not an object' })
+      return
+    }
+    const item = raw as OpenTdbItem
+    const question = decodedString(item.question)
+    if (!question) {
+      skipped.push({ index, reason: 'missing question text' })
+      return
+    }
+    const correct = decodedString(item.correct_answer)
+    if (!correct) {
+      skipped.push({ index, reason: 'missing correct answer' })
+      return
+    }
+    const incorrect = Array.isArray(item.incorrect_answers)
+      ? item.incorrect_answers.map(decodedString).filter(Boolean)
+      : []
+    if (!incorrect.length) {
+      skipped.push({ index, reason: 'missing incorrect answers' })
+      return
+    }
+    if (new Set([correct, ...incorrect]).size !== incorrect.length + 1) {
+      skipped.push({ index, reason: 'duplicate options' })
+      return
+    }
+    const categoryName = decodedString(item.category)
+    const category = opts.category ?? map[categoryName.toLowerCase()]
+    if (!category) {
+      skipped.push({ index, reason: `unmapped category "${categoryName || '(none)'}"` })
+      return
+    }
+    const dedupeKey = `${category}:${question.toLowerCase()}`
+    if (seen.has(dedupeKey)) {
+      skipped.push({ index, reason: 'duplicate question' })
+      return
+    }
+    seen.add(dedupeKey)
+
+    const isBoolean = item.type === 'boolean' && [correct, ...incorrect].every((o) => o === 'True' || o === 'False')
+    const options = isBoolean ? ['True', 'False'] : shuffleWithSeed([correct, ...incorrect], `${seed}:${question}`)
+    const list = (byCategory[category] ??= [])
+    list.push({
+      id: `otdb-${category}-${list.length + 1}`,
+      question,
+      options,
+      answerIndex: options.indexOf(correct),
+      ...(isBoolean ? { type: 'boolean' as const } : {}),
+      difficulty: parseDifficulty(item.difficulty),
+      source: 'Open Trivia DB',
+    })
+  })
+  return { byCategory, skipped }
+}
+
+// PUBLIC_INTERFACE
+export function importOpenTdbFromJson(json: string, opts: OpenTdbImportOptions = {}): OpenTdbImportReport {
+  /**
+   * Imports an OpenTDB JSON file into offline packs, one pack per mapped category.
+   * Packs are replaced unless opts.merge is set. The report lists every skipped item with a reason.
+   */
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (e: unknown) {
+    const msg = (e && typeof e === 'object' && 'message' in e) ? String((e as { message?: string }).message) : 'Invalid JSON'
+    return { ok: false, message: msg, imported: {}, skipped: 0, skippedByReason: {}, skippedItems: [] }
+  }
+  const offline = useOfflineStore()
+  const { byCategory, skipped } = convertOpenTdb(data, opts)
+  const imported: Partial<Record<CategoryKey, number>> = {}
+
+  for (const [cat, questions] of Object.entries(byCategory) as Array<[CategoryKey, QuizQuestion[]]>) {
+    let next = questions
+    if (opts.merge) {
+      const existing = offline.getPack(cat)?.questions ?? []
+      const known = new Set(existing.map((q) => q.question.trim().toLowerCase()))
+      const fresh = questions.filter((q) => !known.has(q.question.toLowerCase()))
+      next = [...existing, ...fresh.map((q, i) => ({ ...q, id: `otdb-${cat}-${existing.length + i + 1}` }))]
+      imported[cat] = fresh.length
+    } else {
+      imported[cat] = questions.length
+    }
+    offline.savePack(cat, next, 'opentdb')
+  }
+
+  const skippedByReason: Record<string, number> = {}
+  for (const s of skipped) skippedByReason[s.reason] = (skippedByReason[s.reason] ?? 0) + 1
+  const total = Object.values(imported).reduce<number>((acc, n) => acc + (n ?? 0), 0)
+  const perCat = Object.entries(imported).map(([c, n]) => `${c}: ${n}`).join(', ')
+  const skippedText = Object.entries(skippedByReason).map(([r, n]) => `${n} × ${r}`).join('; ')
+  return {
+    ok: total > 0,
+    message:
+      `Imported ${total} question${total === 1 ? '' : 's'}${perCat ? ` (${perCat})` : ''}` +
+      (skipped.length ? `. Skipped ${skipped.length}: ${skippedText}` : ''),
+    imported,
+    skipped: skipped.length,
+    skippedByReason,
+    skippedItems: skipped,
+  }
+}
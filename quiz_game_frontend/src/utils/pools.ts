@@ -1,39 +1,39 @@
-import type { QuizQuestion, CategoryKey } from '@/stores/quiz'
+import type { QuizQuestion, CategoryKey, QuestionDifficulty } from '@/stores/quiz'
 
 /**
  * Local fallback pools for deterministic selection when offline/no backend.
- * Keep in sync with quiz.ts fallbackPools; minimal set for examples.
+ * Served by the 'local-pools' question source (see utils/questionSources.ts); minimal set for examples.
  */
-const pools: Record<CategoryKey, QuizQuestion[]> = {
+const pools: Record<string, QuizQuestion[]> = {
   gk: [
-    { id: 'gk-1', question: 'What is the capital of France?', options: ['Madrid', 'Paris', 'Berlin', 'Rome'], answerIndex: 1, explanation: 'Paris is the capital and most populous city of France.', source: 'Wikipedia', referenceUrl: 'https://en.wikipedia.org/wiki/Paris', hint: 'It is nicknamed the City of Light.' },
-    { id: 'gk-2', question: 'What is 9 + 10?', options: ['18', '19', '20'], answerIndex: 1, explanation: 'Basic arithmetic: 9 + 10 equals 19.', hint: 'Think one more than 18.' },
-    { id: 'gk-3', question: 'Which language runs in a web browser?', options: ['Java', 'C', 'Python', 'JavaScript'], answerIndex: 3, explanation: 'JavaScript is the standard language for client-side web development.', hint: 'It’s the language of the DOM.' },
+    { id: 'gk-1', question: 'What is the capital of France?', options: ['Madrid', 'Paris', 'Berlin', 'Rome'], answerIndex: 1, difficulty: 'easy', explanation: 'Paris is the capital and most populous city of France.', source: 'Wikipedia', referenceUrl: 'https://en.wikipedia.org/wiki/Paris', hint: 'It is nicknamed the City of Light.' },
+    { id: 'gk-2', question: 'What is 9 + 10?', options: ['18', '19', '20'], answerIndex: 1, difficulty: 'easy', explanation: 'Basic arithmetic: 9 + 10 equals 19.', hint: 'Think one more than 18.' },
+    { id: 'gk-3', question: 'Which language runs in a web browser?', options: ['Java', 'C', 'Python', 'JavaScript'], answerIndex: 3, difficulty: 'medium', explanation: 'JavaScript is the standard language for client-side web development.', hint: 'It’s the language of the DOM.' },
   ],
   sports: [
-    { id: 'sp-1', question: 'How many players in a football (soccer) team on the field?', options: ['9', '10', '11', '12'], answerIndex: 2, explanation: 'A standard soccer team fields 11 players, including the goalkeeper.', hint: 'It’s a number between 10 and 12.' },
-    { id: 'sp-2', question: 'In tennis, what is 0 points called?', options: ['Null', 'Love', 'Zero', 'Nil'], answerIndex: 1, explanation: 'In tennis scoring, “love” means zero.', hint: 'A four-letter word that sounds romantic.' },
-    { id: 'sp-3', question: 'Which country hosts the Tour de France?', options: ['Italy', 'France', 'Spain', 'Belgium'], answerIndex: 1, explanation: 'The Tour de France is primarily held in France.', hint: 'It’s in the event name.' },
+    { id: 'sp-1', question: 'How many players in a football (soccer) team on the field?', options: ['9', '10', '11', '12'], answerIndex: 2, difficulty: 'easy', explanation: 'A standard soccer team fields 11 players, including the goalkeeper.', hint: 'It’s a number between 10 and 12.' },
+    { id: 'sp-2', question: 'In tennis, what is 0 points called?', options: ['Null', 'Love', 'Zero', 'Nil'], answerIndex: 1, difficulty: 'medium', explanation: 'In tennis scoring, “love” means zero.', hint: 'A four-letter word that sounds romantic.' },
+    { id: 'sp-3', question: 'Which country hosts the Tour de France?', options: ['Italy', 'France', 'Spain', 'Belgium'], answerIndex: 1, difficulty: 'easy', explanation: 'The Tour de France is an annual men’s multiple stage bicycle race primarily held in France.', hint: 'It’s in the event name.' },
   ],
   movies: [
-    { id: 'mv-1', question: 'Who directed Inception?', options: ['Steven Spielberg', 'Christopher Nolan', 'James Cameron', 'Ridley Scott'], answerIndex: 1, explanation: 'Christopher Nolan wrote and directed Inception (2010).', hint: 'He also directed The Dark Knight.' },
-    { id: 'mv-2', question: 'The Hobbit is set in which world?', options: ['Narnia', 'Earthsea', 'Middle-earth', 'Westeros'], answerIndex: 2, explanation: 'Middle-earth is the fictional setting of Tolkien’s legendarium.', hint: 'Think Tolkien.' },
-    { id: 'mv-3', question: 'Which film features a DeLorean time machine?', options: ['Back to the Future', 'Terminator', 'Looper', 'Primer'], answerIndex: 0, explanation: 'Back to the Future popularized the DeLorean as a time machine.', hint: 'Great Scott!' },
+    { id: 'mv-1', question: 'Who directed Inception?', options: ['Steven Spielberg', 'Christopher Nolan', 'James Cameron', 'Ridley Scott'], answerIndex: 1, difficulty: 'medium', explanation: 'Christopher Nolan wrote and directed Inception (2010).', hint: 'He also directed The Dark Knight.' },
+    { id: 'mv-2', question: 'The Hobbit is set in which world?', options: ['Narnia', 'Earthsea', 'Middle-earth', 'Westeros'], answerIndex: 2, difficulty: 'medium', explanation: 'Middle-earth is the fictional setting of Tolkien’s legendarium.', hint: 'Think Tolkien.' },
+    { id: 'mv-3', question: 'Which film features a DeLorean time machine?', options: ['Back to the Future', 'Terminator', 'Looper', 'Primer'], answerIndex: 0, difficulty: 'easy', explanation: 'Back to the Future popularized the DeLorean as a time machine.', hint: 'Great Scott!' },
   ],
   science: [
-    { id: 'sc-1', question: 'Which planet is known as the Red Planet?', options: ['Venus', 'Saturn', 'Mars', 'Jupiter'], answerIndex: 2, explanation: 'Mars appears reddish due to iron oxide (rust) on its surface.', hint: 'Named after the Roman god of war.' },
-    { id: 'sc-2', question: 'H2O is the chemical formula for?', options: ['Hydrogen', 'Oxygen', 'Water', 'Helium'], answerIndex: 2, explanation: 'Two hydrogen atoms bonded to one oxygen atom makes water.', hint: 'It’s essential for life.' },
-    { id: 'sc-3', question: 'Speed of light is approximately?', options: ['3x10^8 m/s', '3x10^6 m/s', '30000 km/s', '3x10^10 m/s'], answerIndex: 0, explanation: 'In vacuum, light speed is around 3 × 10^8 m/s.', hint: 'Roughly 300,000 km/s.' },
+    { id: 'sc-1', question: 'Which planet is known as the Red Planet?', options: ['Venus', 'Saturn', 'Mars', 'Jupiter'], answerIndex: 2, difficulty: 'easy', explanation: 'Mars appears reddish due to iron oxide (rust) on its surface.', hint: 'Named after the Roman god of war.' },
+    { id: 'sc-2', question: 'H2O is the chemical formula for?', options: ['Hydrogen', 'Oxygen', 'Water', 'Helium'], answerIndex: 2, difficulty: 'easy', explanation: 'Two hydrogen atoms bonded to one oxygen atom makes water.', hint: 'It’s essential for life and covers most of Earth.' },
+    { id: 'sc-3', question: 'Speed of light is approximately?', options: ['3x10^8 m/s', '3x10^6 m/s', '30000 km/s', '3x10^10 m/s'], answerIndex: 0, difficulty: 'hard', explanation: 'In vacuum, light speed is around 3 × 10^8 meters per second.', hint: 'Roughly 300,000 km/s.' },
   ],
   history: [
-    { id: 'hs-1', question: 'Who painted the Mona Lisa?', options: ['Picasso', 'Da Vinci', 'Van Gogh'], answerIndex: 1, explanation: 'Leonardo da Vinci painted the Mona Lisa.', hint: 'His first name is Leonardo.' },
-    { id: 'hs-2', question: 'The pyramids are located in which country?', options: ['Peru', 'Egypt', 'Mexico', 'China'], answerIndex: 1, explanation: 'The most famous pyramids are in Egypt.', hint: 'Home to the Nile delta.' },
-    { id: 'hs-3', question: 'World War II ended in which year?', options: ['1943', '1944', '1945', '1946'], answerIndex: 2, explanation: 'WWII ended in 1945.', hint: 'Mid-1940s.' },
+    { id: 'hs-1', question: 'Who painted the Mona Lisa?', options: ['Picasso', 'Da Vinci', 'Van Gogh'], answerIndex: 1, difficulty: 'easy', explanation: 'Leonardo da Vinci painted the Mona Lisa in the early 16th century.', hint: 'His first name is Leonardo.' },
+    { id: 'hs-2', question: 'The pyramids are located in which country?', options: ['Peru', 'Egypt', 'Mexico', 'China'], answerIndex: 1, difficulty: 'easy', explanation: 'The most famous pyramids, including those at Giza, are in Egypt.', hint: 'Home to the Nile delta.' },
+    { id: 'hs-3', question: 'World War II ended in which year?', options: ['1943', '1944', '1945', '1946'], answerIndex: 2, difficulty: 'medium', explanation: 'WWII ended in 1945 with the formal surrender of Axis powers.', hint: 'Mid-1940s.' },
   ],
   geography: [
-    { id: 'ge-1', question: 'Which is the largest ocean?', options: ['Atlantic', 'Indian', 'Pacific', 'Arctic'], answerIndex: 2, explanation: 'The Pacific is the largest ocean.', hint: 'Its name suggests calmness.' },
-    { id: 'ge-2', question: 'Mount Everest is in which mountain range?', options: ['Andes', 'Himalayas', 'Alps', 'Rockies'], answerIndex: 1, explanation: 'Everest is part of the Himalayas.', hint: 'Range spans Nepal and Tibet.' },
-    { id: 'ge-3', question: 'The Nile river flows into which sea?', options: ['Black Sea', 'Red Sea', 'Mediterranean Sea', 'Arabian Sea'], answerIndex: 2, explanation: 'The Nile empties into the Mediterranean Sea.', hint: 'The sea north of Africa.' },
+    { id: 'ge-1', question: 'Which is the largest ocean?', options: ['Atlantic', 'Indian', 'Pacific', 'Arctic'], answerIndex: 2, difficulty: 'easy', explanation: 'The Pacific Ocean is the largest and deepest of Earth’s oceanic divisions.', hint: 'Its name suggests calmness.' },
+    { id: 'ge-2', question: 'Mount Everest is in which mountain range?', options: ['Andes', 'Himalayas', 'Alps', 'Rockies'], answerIndex: 1, difficulty: 'medium', explanation: 'Everest is part of the Himalayas on the border of Nepal and China (Tibet).', hint: 'Range spans Nepal and Tibet.' },
+    { id: 'ge-3', question: 'The Nile river flows into which sea?', options: ['Black Sea', 'Red Sea', 'Mediterranean Sea', 'Arabian Sea'], answerIndex: 2, difficulty: 'hard', explanation: 'The Nile empties into the Mediterranean Sea near Alexandria, Egypt.', hint: 'The sea north of Africa.' },
   ],
 }
 
@@ -64,59 +64,85 @@ function shuffleInPlace<T>(arr: T[], rng: () => number): void {
 }
 
 
+// PUBLIC_INTERFACE
+export function shuffleWithSeed<T>(src: T[], seed: string): T[] {
+  /** Returns a deterministically shuffled copy of `src`; the same seed always yields the same order. */
+  const arr = [...src]
+  shuffleInPlace(arr, makeRng(seededHash(seed)))
+  return arr
+}
+
+// PUBLIC_INTERFACE
+export function pickSeeded<T>(src: T[], count: number, seed: string): T[] {
+  /** Deterministically pick up to `count` items from `src`; the same seed always yields the same picks. */
+  if (!src.length) return []
+  const rng = makeRng(seededHash(seed))
+  const idx = src.map((_, i) => i)
+  shuffleInPlace(idx, rng)
+  return idx.slice(0, Math.min(count, idx.length)).map(i => src[i])
+}
+
 // PUBLIC_INTERFACE
 export function getDailyQuestionSet(seed: string, count = 10, category?: CategoryKey | null): QuizQuestion[] {
   /** Deterministically select a set of questions from pools using a seed.
    * If category provided, pick from that category; otherwise from all.
    */
-  const seedNum = seededHash(seed)
-  const rng = makeRng(seedNum)
   const src = category ? (pools[category] ?? []) : Object.values(pools).flat()
-  if (!src.length) return []
-  const idx = src.map((_, i) => i)
-  shuffleInPlace(idx, rng)
-  return idx.slice(0, Math.min(count, idx.length)).map(i => src[i])
+  return pickSeeded(src, count, seed)
+}
+
+const DIFFICULTY_ORDER: QuestionDifficulty[] = ['easy', 'medium', 'hard']
+
+// Target difficulty first, then neighbours by distance (easier before harder on ties)
+function difficultyFallbackOrder(target: QuestionDifficulty): QuestionDifficulty[] {
+  const ti = DIFFICULTY_ORDER.indexOf(target)
+  return [...DIFFICULTY_ORDER].sort(
+    (a, b) => Math.abs(DIFFICULTY_ORDER.indexOf(a) - ti) - Math.abs(DIFFICULTY_ORDER.indexOf(b) - ti)
+  )
 }
 
 // PUBLIC_INTERFACE
-export function getTournamentQuestionSet(
+export function pickTournamentQuestions(
+  fullPool: QuizQuestion[],
   seed: string,
-  category: CategoryKey | undefined,
-  difficulty: 'easy' | 'medium' | 'hard',
+  difficulty: QuestionDifficulty,
   countPerRound = 10
 ): QuizQuestion[] {
   /**
    * Deterministic selector for tournament rounds using a seed + difficulty.
-   * If pools have difficulty metadata in future, filter accordingly.
-   * For now, simulate difficulty by taking earlier indices (easy), mid (medium), later (hard).
+   * Picks questions tagged with the requested difficulty; when that bucket is too small the
+   * round is topped up from neighbouring difficulties (medium -> easy -> hard, etc.), and
+   * untagged questions are only used once every tagged bucket is exhausted.
    */
-  const fullPool = category ? (pools[category] ?? []) : Object.values(pools).flat()
   if (!fullPool.length) return []
   const seedNum = seededHash(`${seed}:${difficulty}`)
   const rng = makeRng(seedNum)
 
-  // Simulate difficulty by slicing ranges
-  const n = fullPool.length
-  let start = 0
-  let end = n
-  if (difficulty === 'easy') {
-    start = 0
-    end = Math.max(1, Math.floor(n * 0.4))
-  } else if (difficulty === 'medium') {
-    start = Math.floor(n * 0.2)
-    end = Math.max(start + 1, Math.floor(n * 0.75))
-  } else {
-    start = Math.floor(n * 0.5)
-    end = n
+  const buckets: QuizQuestion[][] = difficultyFallbackOrder(difficulty).map((d) =>
+    fullPool.filter((q) => q.difficulty === d)
+  )
+  buckets.push(fullPool.filter((q) => !q.difficulty))
+
+  const picked: QuizQuestion[] = []
+  for (const bucket of buckets) {
+    if (picked.length >= countPerRound) break
+    const sub = [...bucket]
+    shuffleInPlace(sub, rng)
+    picked.push(...sub.slice(0, countPerRound - picked.length))
   }
-  const sub = fullPool.slice(start, end)
-  if (!sub.length) return []
+  // Mix the fallback questions in with the primary ones, deterministically
+  shuffleInPlace(picked, rng)
+  return picked
+}
 
-  const idx = sub.map((_, i) => i)
-  shuffleInPlace(idx, rng)
-  const picked = idx.slice(0, Math.min(countPerRound, idx.length)).map(i => sub[i])
-  // Ensure deterministic order by shuffling picked again with same seed to keep predictable arrangement
-  const arr = [...picked]
-  shuffleInPlace(arr, rng)
-  return arr
+// PUBLIC_INTERFACE
+export function getTournamentQuestionSet(
+  seed: string,
+  category: CategoryKey | undefined,
+  difficulty: QuestionDifficulty,
+  countPerRound = 10
+): QuizQuestion[] {
+  /** Tournament round selection from the local pools only (see pickTournamentQuestions). */
+  const fullPool = category ? (pools[category] ?? []) : Object.values(pools).flat()
+  return pickTournamentQuestions(fullPool, seed, difficulty, countPerRound)
 }
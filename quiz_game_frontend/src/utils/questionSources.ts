@@ -0,0 +1,216 @@
+import type { CategoryKey, QuizQuestion } from '@/stores/quiz'
+import { isPlayableQuestionRecord, parseDifficulty, parseQuestionShape } from '@/stores/quiz'
+import { parseQuestionMedia } from '@/utils/media'
+import pools, { pickSeeded } from '@/utils/pools'
+import { useCategoryRegistryStore } from '@/stores/categories'
+
+/**
+ * Question source registry.
+ * Every mode (quiz, daily, tournament, multiplayer) resolves questions through here instead of
+ * hard-coding its own offline/network/fallback cascade. Sources are consulted by descending
+ * priority; the first one that can serve the category and returns questions wins.
+ *
+ * Built-in sources:
+ * - offline-preferred (300): downloaded pack, only when offline mode is enabled
+ * - rest-api (200): `${VITE_API_BASE}/api/questions?category=...` when a backend is configured
+ * - offline-cache (100): downloaded pack even when offline mode is off (e.g. network failed)
+ * - local-pools (0): bundled sample pools (utils/pools.ts)
+ */
+
+export type QuestionSource = {
+  /** Unique id; registering a source with an existing id replaces it. */
+  id: string
+  /** Higher priority sources are consulted first. */
+  priority: number
+  /**
+   * True when every client resolves identical content for the same category (bundled pools,
+   * static JSON bundles). Multiplayer only consults shared sources so the seeded order matches.
+   */
+  shared?: boolean
+  /** Whether the source has questions for the category (null = all categories / mixed). */
+  canServe(category: CategoryKey | null): boolean
+  /**
+   * Returns up to `count` questions (pass Infinity for everything). When a seed is given the
+   * selection must be deterministic for that seed; selectQuestions() does this for list-based sources.
+   */
+  fetch(category: CategoryKey | null, count: number, seed?: string): Promise<QuizQuestion[]>
+}
+
+export type ResolveOptions = {
+  seed?: string
+  /** Only consult sources flagged `shared` (multiplayer). */
+  sharedOnly?: boolean
+}
+
+export type ResolveResult = {
+  questions: QuizQuestion[]
+  /** id of the source that served the questions, or null when none could. */
+  sourceId: string | null
+  /** Messages from sources that failed before one succeeded. */
+  errors: string[]
+}
+
+const sources = new Map<string, QuestionSource>()
+
+// PUBLIC_INTERFACE
+export function registerQuestionSource(source: QuestionSource): () => void {
+  /** Registers (or replaces by id) a question source. Returns an unregister function. */
+  sources.set(source.id, source)
+  return () => {
+    if (sources.get(source.id) === source) sources.delete(source.id)
+  }
+}
+
+// PUBLIC_INTERFACE
+export function unregisterQuestionSource(id: string): void {
+  sources.delete(id)
+}
+
+// PUBLIC_INTERFACE
+export function listQuestionSources(): QuestionSource[] {
+  /** Registered sources ordered by descending priority. */
+  return [...sources.values()].sort((a, b) => b.priority - a.priority)
+}
+
+// PUBLIC_INTERFACE
+export function selectQuestions(list: QuizQuestion[], count: number, seed?: string): QuizQuestion[] {
+  /** Applies the count/seed contract to a full list: seeded pick when a seed is given, else the first `count`. */
+  if (seed) return pickSeeded(list, count, seed)
+  return Number.isFinite(count) ? list.slice(0, count) : [...list]
+}
+
+// PUBLIC_INTERFACE
+export async function resolveQuestions(
+  category: CategoryKey | null,
+  count: number,
+  opts: ResolveOptions = {}
+): Promise<ResolveResult> {
+  /** Walks the registry by priority and returns the first non-empty result. */
+  const errors: string[] = []
+  for (const source of listQuestionSources()) {
+    if (opts.sharedOnly && !source.shared) continue
+    try {
+      if (!source.canServe(category)) continue
+      const list = await source.fetch(category, count, opts.seed)
+      if (list.length) {
+        return { questions: selectQuestions(list, count), sourceId: source.id, errors }
+      }
+    } catch (e: unknown) {
+      const msg =
+        e && typeof e === 'object' && 'message' in e
+          ? String((e as { message?: string }).message)
+          : `Question source "${source.id}" failed`
+      errors.push(msg)
+    }
+  }
+  return { questions: [], sourceId: null, errors }
+}
+
+// Built-in sources
+
+function apiBase(): string {
+  const base =
+    (import.meta.env.VITE_API_BASE as string) || (import.meta.env.VITE_BACKEND_URL as string) || ''
+  return base.replace(/\/*$/, '')
+}
+
+// PUBLIC_INTERFACE
+export function normalizeApiQuestions(data: unknown): QuizQuestion[] {
+  /** Normalizes a backend question list; drops entries without a question text or answer key. */
+  const list = Array.isArray(data) ? data : []
+  return list
+    .filter((q: unknown) => !!q && typeof q === 'object' && isPlayableQuestionRecord(q as Record<string, unknown>))
+    .map((q: unknown, i: number): QuizQuestion => {
+      const obj = q as Record<string, unknown>
+      const explanation =
+        (typeof obj.explanation === 'string' ? obj.explanation : undefined) ??
+        (typeof obj.detail === 'string' ? obj.detail : undefined)
+      const referenceUrl = typeof obj.referenceUrl === 'string' ? obj.referenceUrl : undefined
+      const source = typeof obj.source === 'string' ? obj.source : undefined
+      const hint =
+        (typeof obj.hint === 'string' ? obj.hint : undefined) ??
+        (typeof obj.clue === 'string' ? obj.clue : undefined)
+      const options = Array.isArray(obj.options) ? (obj.options as unknown[]).map(String) : []
+      return {
+        id: (obj.id as string | number | undefined) ?? i + 1,
+        question: String(obj.question),
+        options,
+        answerIndex: typeof obj.answerIndex === 'number' ? obj.answerIndex : -1,
+        explanation,
+        referenceUrl,
+        source,
+        hint,
+        difficulty: parseDifficulty(obj.difficulty),
+        media: parseQuestionMedia(obj.media),
+        ...parseQuestionShape(obj, options.length),
+      }
+    })
+}
+
+async function offlinePackQuestions(category: CategoryKey | null): Promise<{ enabled: boolean; questions: QuizQuestion[] }> {
+  // dynamic import to avoid circulars (offline store imports quiz types/helpers)
+  const { useOfflineStore } = await import('@/stores/offline')
+  const offline = useOfflineStore()
+  const questions = category
+    ? offline.getPack(category)?.questions ?? []
+    : offline.categories.flatMap((c) => offline.getPack(c)?.questions ?? [])
+  return { enabled: offline.enabled, questions }
+}
+
+registerQuestionSource({
+  id: 'offline-preferred',
+  priority: 300,
+  canServe: () => true,
+  async fetch(category, count, seed) {
+    const { enabled, questions } = await offlinePackQuestions(category)
+    return enabled ? selectQuestions(questions, count, seed) : []
+  },
+})
+
+registerQuestionSource({
+  id: 'rest-api',
+  priority: 200,
+  canServe: () => !!apiBase(),
+  async fetch(category, count, seed) {
+    const url = new URL(`${apiBase()}/api/questions`)
+    // backend parameter values come from the category registry
+    if (category) url.searchParams.set('category', useCategoryRegistryStore().apiParamFor(category))
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), 6000)
+    try {
+      const res = await fetch(url.toString(), { signal: controller.signal })
+      if (!res.ok) throw new Error(`Failed to load questions: ${res.status}`)
+      const normalized = normalizeApiQuestions(await res.json())
+      // Save latest network data to offline cache as a refresh (if user has enabled offline)
+      if (normalized.length && category) {
+        const { useOfflineStore } = await import('@/stores/offline')
+        const offline = useOfflineStore()
+        if (offline.enabled) offline.savePack(category, normalized, 'v1')
+      }
+      return selectQuestions(normalized, count, seed)
+    } finally {
+      clearTimeout(timeout)
+    }
+  },
+})
+
+registerQuestionSource({
+  id: 'offline-cache',
+  priority: 100,
+  canServe: () => true,
+  async fetch(category, count, seed) {
+    const { questions } = await offlinePackQuestions(category)
+    return selectQuestions(questions, count, seed)
+  },
+})
+
+registerQuestionSource({
+  id: 'local-pools',
+  priority: 0,
+  shared: true,
+  canServe: (category) => (category ? !!pools[category]?.length : true),
+  async fetch(category, count, seed) {
+    const list = category ? pools[category] ?? [] : Object.values(pools).flat()
+    return selectQuestions(list, count, seed)
+  },
+})
@@ -0,0 +1,83 @@
+import { answerCredit, type AnswerValue, type ScoringPolicy } from './answers'
+import type { QuizQuestion } from '@/stores/quiz'
+import { LIFELINE_FLAG, LIFELINE_KINDS, type LifelineFlags, type LifelineKind } from './lifelines'
+
+/**
+ * Single-player scoring models.
+ * - classic: one point per correct answer (fractions for partial credit)
+ * - timed: CORRECT_POINTS per correct answer plus a speed bonus that halves every BONUS_HALF_LIFE_MS
+ *   of response time, minus a fixed penalty for each lifeline use (free or bought)
+ *
+ * A quiz keeps the model it started with; score entries record it so the scoreboard only compares
+ * like with like.
+ */
+
+export type ScoringModel = 'classic' | 'timed'
+
+export const SCORING_MODEL_LABELS: Record<ScoringModel, string> = {
+  classic: 'Classic',
+  timed: 'Timed',
+}
+
+export const CORRECT_POINTS = 100
+export const MAX_SPEED_BONUS = 50
+export const BONUS_HALF_LIFE_MS = 5000
+
+export const LIFELINE_PENALTIES: Record<LifelineKind, number> = {
+  fiftyFifty: 25,
+  skip: 10,
+  extraTime: 15,
+  askHint: 20,
+}
+
+export type TimedScore = {
+  // what is shown and saved: base + speedBonus - penalty, never below zero
+  total: number
+  base: number
+  speedBonus: number
+  penalty: number
+}
+
+// PUBLIC_INTERFACE
+export function parseScoringModel(value: unknown): ScoringModel {
+  /** Anything but 'timed' is classic (older entries and sessions have no model). */
+  return value === 'timed' ? 'timed' : 'classic'
+}
+
+// PUBLIC_INTERFACE
+export function speedBonus(elapsedMs: number | null | undefined): number {
+  /** Bonus for a correct answer given after `elapsedMs`; 0 when the time is unknown. */
+  if (elapsedMs == null || !Number.isFinite(elapsedMs) || elapsedMs < 0) return 0
+  return Math.round(MAX_SPEED_BONUS * 0.5 ** (elapsedMs / BONUS_HALF_LIFE_MS))
+}
+
+// PUBLIC_INTERFACE
+export function timedScore(input: {
+  questions: QuizQuestion[]
+  answers: Record<string | number, AnswerValue | 'SKIPPED'>
+  startTs: Record<string | number, number>
+  endTs: Record<string | number, number>
+  policy: ScoringPolicy
+  lifelines: LifelineFlags
+  // bought charges used on top of the free uses
+  chargesUsed?: Partial<Record<LifelineKind, number>>
+}): TimedScore {
+  /** Timed-model points for a session; partial credit scales both the base and the bonus. */
+  let base = 0
+  let bonus = 0
+  for (const q of input.questions) {
+    const credit = answerCredit(q, input.answers[q.id], input.policy)
+    if (credit <= 0) continue
+    const st = input.startTs[q.id]
+    const en = input.endTs[q.id]
+    base += credit * CORRECT_POINTS
+    bonus += credit * speedBonus(typeof st === 'number' && typeof en === 'number' ? en - st : null)
+  }
+  const penalty = LIFELINE_KINDS.reduce((sum, k) => {
+    const uses = (input.lifelines[LIFELINE_FLAG[k]] ? 1 : 0) + (input.chargesUsed?.[k] ?? 0)
+    return sum + uses * LIFELINE_PENALTIES[k]
+  }, 0)
+  base = Math.round(base)
+  const speed = Math.round(bonus)
+  return { total: Math.max(0, base + speed - penalty), base, speedBonus: speed, penalty }
+}
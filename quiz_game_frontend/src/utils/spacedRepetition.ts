@@ -0,0 +1,74 @@
+/**
+ * SM-2 style scheduling for the review deck (stores/reviewDeck.ts).
+ * - every item has an ease factor (starts at DEFAULT_EASE, never below MIN_EASE), an interval in
+ *   days, a count of successful reviews in a row and a due day (local YYYY-MM-DD)
+ * - a recall (quality >= 3) moves the due day out: 1 day, then 6, then interval × ease
+ * - a lapse (quality < 3) resets the streak and interval, so the item comes back tomorrow
+ * - the ease factor moves with the quality of every review, as in SM-2
+ */
+
+export type ReviewSchedule = {
+  ease: number
+  // days until the next review, as of the last review
+  interval: number
+  // successful reviews in a row
+  repetitions: number
+  // times the item was forgotten after being added
+  lapses: number
+  // local day key (YYYY-MM-DD) from which the item is due
+  due: string
+  lastReviewed: string | null
+}
+
+// SM-2 answer quality (0-5) for the outcomes the review screen knows about
+export const REVIEW_QUALITY = {
+  // answered correctly
+  recalled: 4,
+  // answered wrong
+  wrong: 1,
+  // gave up ("Show answer") or skipped in a quiz
+  forgot: 0,
+} as const
+
+export const DEFAULT_EASE = 2.5
+export const MIN_EASE = 1.3
+
+// PUBLIC_INTERFACE
+export function dayKey(date: Date = new Date()): string {
+  /** Local calendar day as YYYY-MM-DD (string comparison orders days). */
+  const y = date.getFullYear()
+  const m = `${date.getMonth() + 1}`.padStart(2, '0')
+  const d = `${date.getDate()}`.padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+// PUBLIC_INTERFACE
+export function addDays(key: string, days: number): string {
+  const d = new Date(key + 'T00:00:00')
+  d.setDate(d.getDate() + days)
+  return dayKey(d)
+}
+
+// PUBLIC_INTERFACE
+export function newSchedule(today: string): ReviewSchedule {
+  /** A freshly missed question: due right away. */
+  return { ease: DEFAULT_EASE, interval: 0, repetitions: 0, lapses: 0, due: today, lastReviewed: null }
+}
+
+// PUBLIC_INTERFACE
+export function isDue(schedule: ReviewSchedule, today: string): boolean {
+  return schedule.due <= today
+}
+
+// PUBLIC_INTERFACE
+export function reviewSchedule(schedule: ReviewSchedule, quality: number, today: string): ReviewSchedule {
+  /** The schedule after a review of the given quality (0-5) on `today`. */
+  const q = Math.max(0, Math.min(5, Math.round(quality)))
+  const ease = Math.max(MIN_EASE, Math.round((schedule.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))) * 100) / 100)
+  if (q < 3) {
+    return { ease, interval: 1, repetitions: 0, lapses: schedule.lapses + 1, due: addDays(today, 1), lastReviewed: today }
+  }
+  const repetitions = schedule.repetitions + 1
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.interval * ease)
+  return { ease, interval, repetitions, lapses: schedule.lapses, due: addDays(today, interval), lastReviewed: today }
+}
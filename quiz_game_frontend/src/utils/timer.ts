@@ -0,0 +1,66 @@
+/**
+ * Quiz timer settings shared by the preferences, custom quizzes, tournaments and the quiz store.
+ * - off: no countdown (the Extra time lifeline still starts a short one for the current question)
+ * - per-question: every question gets `seconds`
+ * - quiz-budget: one `seconds` budget for the whole quiz, spent only while a question is open
+ *
+ * `onExpire` decides what happens at zero: skip the question, submit the current selection
+ * (skipping when nothing is selected), or only warn and let the player carry on.
+ * With a quiz budget, skip/submit also end the quiz: every unanswered question counts as skipped.
+ */
+
+export type TimerMode = 'off' | 'per-question' | 'quiz-budget'
+export type TimerExpiry = 'skip' | 'submit' | 'warn'
+
+export type TimerSettings = {
+  mode: TimerMode
+  seconds: number
+  onExpire: TimerExpiry
+}
+
+export const MIN_TIMER_SECONDS = 5
+export const MAX_TIMER_SECONDS = 3600
+// seconds added by the Extra time lifeline
+export const EXTRA_TIME_SECONDS = 15
+
+export const DEFAULT_TIMER: TimerSettings = { mode: 'off', seconds: 20, onExpire: 'warn' }
+
+export const TIMER_MODE_LABELS: Record<TimerMode, string> = {
+  off: 'Off',
+  'per-question': 'Per question',
+  'quiz-budget': 'Whole quiz',
+}
+
+export const TIMER_EXPIRY_LABELS: Record<TimerExpiry, string> = {
+  skip: 'Skip the question',
+  submit: 'Submit my selection',
+  warn: 'Just warn me',
+}
+
+// PUBLIC_INTERFACE
+export function clampTimerSeconds(value: unknown): number {
+  /** Whole seconds within MIN_TIMER_SECONDS..MAX_TIMER_SECONDS; the default for anything unusable. */
+  const n = Math.round(Number(value))
+  if (!Number.isFinite(n)) return DEFAULT_TIMER.seconds
+  return Math.max(MIN_TIMER_SECONDS, Math.min(MAX_TIMER_SECONDS, n))
+}
+
+// PUBLIC_INTERFACE
+export function parseTimerSettings(value: unknown): TimerSettings | null {
+  /** Validates stored or shared settings; null when the value is not a timer setting at all. */
+  if (!value || typeof value !== 'object') return null
+  const v = value as Record<string, unknown>
+  if (v.mode !== 'off' && v.mode !== 'per-question' && v.mode !== 'quiz-budget') return null
+  const onExpire = v.onExpire === 'skip' || v.onExpire === 'submit' ? v.onExpire : 'warn'
+  return { mode: v.mode, seconds: clampTimerSeconds(v.seconds), onExpire }
+}
+
+// PUBLIC_INTERFACE
+export function describeTimer(t: TimerSettings): string {
+  /** Short human summary, e.g. "30s per question, then skip". */
+  if (t.mode === 'off') return 'No timer'
+  const time = t.seconds >= 120 && t.seconds % 60 === 0 ? `${t.seconds / 60} min` : `${t.seconds}s`
+  const scope = t.mode === 'per-question' ? 'per question' : 'for the whole quiz'
+  const then = t.onExpire === 'skip' ? 'then skip' : t.onExpire === 'submit' ? 'then submit' : 'then warn'
+  return `${time} ${scope}, ${then}`
+}
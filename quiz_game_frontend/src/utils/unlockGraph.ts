@@ -0,0 +1,160 @@
+import type { CategoryKey } from '@/stores/quiz'
+import type { CategoryDefinition } from './categories'
+
+/**
+ * Category unlock graph.
+ * Each category has a list of groups that must all be met; a group is met when any one of its
+ * requirements is, so `[[a], [b, c]]` reads "a AND (b OR c)". A requirement is passed by a single
+ * attempt in its category with at least `minPercent` accuracy (the graph-wide default when unset)
+ * and at least `minAnswered` answered questions. A category with no groups only unlocks by default
+ * or with coins. The default graph comes from the registered categories' `unlock.requires`.
+ */
+
+export type UnlockRequirement = {
+  category: CategoryKey
+  minPercent?: number
+  minAnswered?: number
+}
+
+export type UnlockGroup = UnlockRequirement[]
+
+export type UnlockGraph = Record<CategoryKey, UnlockGroup[]>
+
+// One attempt in a category: accuracy and how many questions were answered (not skipped)
+export type CategoryResult = { percent: number; answered: number }
+
+// Attempts kept per category (only those not beaten on both accuracy and answered count)
+const MAX_RESULTS = 20
+
+function parseRequirement(value: unknown, isCategory: (v: unknown) => v is CategoryKey): UnlockRequirement | string {
+  // legacy graphs list bare category keys
+  const v = typeof value === 'string' ? { category: value } : value
+  if (!v || typeof v !== 'object') return 'Requirements must be objects with a category'
+  const r = v as Record<string, unknown>
+  if (!isCategory(r.category)) return `Unknown category "${String(r.category)}"`
+  const out: UnlockRequirement = { category: r.category }
+  if (r.minPercent != null) {
+    const pct = Number(r.minPercent)
+    if (!Number.isFinite(pct) || pct < 0 || pct > 100) return `minPercent for ${r.category} must be 0-100`
+    out.minPercent = pct
+  }
+  if (r.minAnswered != null) {
+    const n = Number(r.minAnswered)
+    if (!Number.isInteger(n) || n < 0) return `minAnswered for ${r.category} must be a whole number`
+    out.minAnswered = n
+  }
+  return out
+}
+
+// PUBLIC_INTERFACE
+export function findCycle(graph: UnlockGraph): CategoryKey[] | null {
+  /** A dependency cycle as a path (first key repeated at the end), or null when the graph is acyclic. */
+  const state: Partial<Record<CategoryKey, 'visiting' | 'done'>> = {}
+  const path: CategoryKey[] = []
+  const visit = (cat: CategoryKey): CategoryKey[] | null => {
+    if (state[cat] === 'done') return null
+    if (state[cat] === 'visiting') return [...path.slice(path.indexOf(cat)), cat]
+    state[cat] = 'visiting'
+    path.push(cat)
+    for (const req of (graph[cat] ?? []).flat()) {
+      const cycle = visit(req.category)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state[cat] = 'done'
+    return null
+  }
+  for (const cat of Object.keys(graph) as CategoryKey[]) {
+    const cycle = visit(cat)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+// PUBLIC_INTERFACE
+export function parseUnlockGraph(
+  value: unknown,
+  categories: CategoryKey[]
+): { ok: boolean; graph?: UnlockGraph; error?: string } {
+  /**
+   * Validates a stored or imported graph against the known `categories`. Categories left out have
+   * no requirements; bare category keys (the old format) and single requirements outside a group
+   * are accepted. Cycles are refused.
+   */
+  const isCategory = (v: unknown): v is CategoryKey => typeof v === 'string' && categories.some((c) => c === v)
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { ok: false, error: 'The graph must be an object keyed by category' }
+  const raw = value as Record<string, unknown>
+  const unknown = Object.keys(raw).find((k) => !isCategory(k))
+  if (unknown) return { ok: false, error: `Unknown category "${unknown}"` }
+  const graph = {} as UnlockGraph
+  for (const cat of categories) {
+    const groupsRaw = raw[cat] ?? []
+    if (!Array.isArray(groupsRaw)) return { ok: false, error: `Requirements for ${cat} must be a list` }
+    const groups: UnlockGroup[] = []
+    for (const g of groupsRaw) {
+      const items = Array.isArray(g) ? g : [g]
+      if (!items.length) return { ok: false, error: `Empty group in ${cat}` }
+      const group: UnlockGroup = []
+      for (const item of items) {
+        const req = parseRequirement(item, isCategory)
+        if (typeof req === 'string') return { ok: false, error: req }
+        if (req.category === cat) return { ok: false, error: `${cat} cannot require itself` }
+        group.push(req)
+      }
+      groups.push(group)
+    }
+    graph[cat] = groups
+  }
+  const cycle = findCycle(graph)
+  if (cycle) return { ok: false, error: `Unlock cycle: ${cycle.join(' → ')}` }
+  return { ok: true, graph }
+}
+
+// PUBLIC_INTERFACE
+export function defaultUnlockGraph(defs: CategoryDefinition[]): UnlockGraph {
+  /**
+   * The registered categories' own prerequisites, validated together; a definition whose
+   * requirements are invalid or close a cycle gets none (coins or default unlock only).
+   */
+  const keys = defs.map((d) => d.key)
+  const graph: UnlockGraph = {}
+  for (const def of defs) {
+    const parsed = parseUnlockGraph({ ...graph, [def.key]: def.unlock.requires }, keys)
+    graph[def.key] = parsed.ok && parsed.graph ? parsed.graph[def.key] : []
+  }
+  return graph
+}
+
+// PUBLIC_INTERFACE
+export function requirementMet(req: UnlockRequirement, results: CategoryResult[] | undefined, defaultPercent: number): boolean {
+  /** True when one recorded attempt in the requirement's category meets both of its minimums. */
+  const minPercent = req.minPercent ?? defaultPercent
+  const minAnswered = req.minAnswered ?? 0
+  return (results ?? []).some((r) => r.percent >= minPercent && r.answered >= minAnswered)
+}
+
+// PUBLIC_INTERFACE
+export function rulesMet(
+  groups: UnlockGroup[],
+  results: Partial<Record<CategoryKey, CategoryResult[]>>,
+  defaultPercent: number
+): boolean {
+  /** Every group has a met requirement; false for a category without requirements. */
+  return groups.length > 0 && groups.every((g) => g.some((req) => requirementMet(req, results[req.category], defaultPercent)))
+}
+
+// PUBLIC_INTERFACE
+export function addResult(list: CategoryResult[] | undefined, result: CategoryResult): CategoryResult[] {
+  /** Adds an attempt unless another beats or ties it on both counts; drops the attempts it beats. */
+  const current = list ?? []
+  if (current.some((r) => r.percent >= result.percent && r.answered >= result.answered)) return current
+  const kept = current.filter((r) => !(result.percent >= r.percent && result.answered >= r.answered))
+  return [...kept, result].sort((a, b) => b.percent - a.percent).slice(0, MAX_RESULTS)
+}
+
+// PUBLIC_INTERFACE
+export function describeRequirement(req: UnlockRequirement, defaultPercent: number, label: (c: CategoryKey) => string): string {
+  /** e.g. "80% in Science with 10+ answered". */
+  const answered = req.minAnswered ? ` with ${req.minAnswered}+ answered` : ''
+  return `${req.minPercent ?? defaultPercent}% in ${label(req.category)}${answered}`
+}